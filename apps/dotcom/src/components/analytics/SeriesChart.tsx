@@ -0,0 +1,70 @@
+import type { AnalyticsSeriesPoint } from '@/utils/analytics';
+
+import s from './SeriesChart.module.scss';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+const COLORS = [
+  'var(--violet-9)',
+  'var(--green-9)',
+  'var(--amber-9)',
+  'var(--cyan-9)',
+  'var(--red-9)',
+  'var(--sand-9)',
+];
+
+type Props = {
+  series: {
+    label: string;
+    points: AnalyticsSeriesPoint[];
+  }[];
+};
+
+export const SeriesChart = ({ series }: Props) => {
+  // Every series shares an x axis of calendar days so tiers can be compared side by side
+  const dates = [...new Set(series.flatMap(({ points }) => points.map((point) => point.date)))].sort();
+  const maxValue = Math.max(1, ...series.flatMap(({ points }) => points.map((point) => point.cumulative)));
+
+  if (!dates.length) return null;
+
+  const x = (date: string) =>
+    dates.length === 1 ? WIDTH / 2 : PADDING + (dates.indexOf(date) / (dates.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (value: number) => HEIGHT - PADDING - (value / maxValue) * (HEIGHT - PADDING * 2);
+
+  return (
+    <div className={s.chart}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img">
+        <line className={s.axis} x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} />
+        <text className={s.label} x={PADDING} y={PADDING - 8}>
+          {maxValue}
+        </text>
+        <text className={s.label} x={PADDING} y={HEIGHT - 6}>
+          {dates[0]}
+        </text>
+        <text className={s.label} x={WIDTH - PADDING} y={HEIGHT - 6} textAnchor="end">
+          {dates[dates.length - 1]}
+        </text>
+
+        {series.map(({ label, points }, index) => (
+          <polyline
+            key={label}
+            fill="none"
+            stroke={COLORS[index % COLORS.length]}
+            strokeWidth={2}
+            points={points.map((point) => `${x(point.date)},${y(point.cumulative)}`).join(' ')}
+          />
+        ))}
+      </svg>
+
+      <div className={s.legend}>
+        {series.map(({ label }, index) => (
+          <span key={label}>
+            <i style={{ background: COLORS[index % COLORS.length] }} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import { Button, Flex, handleClientError, Input, Text } from '@near-pagoda/ui';
+import { useState } from 'react';
+
+import { joinWaitlist } from '@/utils/waitlist';
+
+type Props = {
+  funderId: string;
+  eventId: string;
+  dropId: string;
+};
+
+export const WaitlistForm = ({ funderId, eventId, dropId }: Props) => {
+  const [email, setEmail] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [joined, setJoined] = useState(false);
+
+  async function join() {
+    try {
+      setJoining(true);
+      await joinWaitlist({ funderId, eventId, dropId, email });
+      setJoined(true);
+    } catch (error) {
+      handleClientError({ title: 'Failed to join waitlist', error });
+    } finally {
+      setJoining(false);
+    }
+  }
+
+  if (joined) {
+    return <Text size="text-s">Check your inbox and open the link we sent to confirm your spot on the waitlist.</Text>;
+  }
+
+  return (
+    <Flex align="end" gap="m">
+      <Input
+        label="Join the waitlist"
+        name="waitlistEmail"
+        type="email"
+        placeholder="Email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+      />
+      <Button label="Join" variant="secondary" disabled={joining || !email.trim()} onClick={join} />
+    </Flex>
+  );
+};
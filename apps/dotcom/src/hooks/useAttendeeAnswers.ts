@@ -0,0 +1,58 @@
+import { handleClientError } from '@near-pagoda/ui';
+import { useQuery } from '@tanstack/react-query';
+
+import { BuyerAnswers, decryptBuyerAnswers } from '@/utils/questions';
+
+import { fetchKeysForDrop } from './useDrops';
+
+export type AttendeeAnswers = {
+  dropId: string;
+  publicKey: string;
+  answers: BuyerAnswers | null;
+};
+
+export function useAttendeeAnswers(dropIds: string[], privateKey: CryptoKey | null) {
+  const query = useQuery({
+    enabled: !!privateKey && dropIds.length > 0,
+    queryKey: ['attendee-answers', dropIds.join(',')],
+    queryFn: async () => {
+      try {
+        if (!privateKey) throw new Error('Event private key has not been unlocked yet');
+
+        const keys = (await Promise.all(dropIds.map((dropId) => fetchKeysForDrop(dropId)))).flat();
+
+        const attendees = await Promise.all(
+          keys.map(async (key) => {
+            const result: AttendeeAnswers = {
+              dropId: key.drop_id,
+              publicKey: key.pk,
+              answers: null,
+            };
+
+            try {
+              const metadata = key.metadata ? (JSON.parse(key.metadata) as { questions?: string }) : undefined;
+              if (metadata?.questions) {
+                result.answers = await decryptBuyerAnswers(metadata.questions, privateKey);
+              }
+            } catch (error) {
+              console.error(`Failed to decrypt answers for key: ${key.pk}`, error);
+            }
+
+            return result;
+          }),
+        );
+
+        return attendees;
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to load attendee answers',
+          error,
+        });
+      }
+
+      return [];
+    },
+  });
+
+  return query;
+}
@@ -0,0 +1,43 @@
+import { useCallback, useEffect } from 'react';
+
+import { useCheckInStore } from '@/stores/check-in';
+import { useNearStore } from '@/stores/near';
+import { processClaimQueue, retryFailedClaims } from '@/utils/claim';
+
+const CLAIM_QUEUE_POLL_INTERVAL_MS = 15_000;
+
+export function useCheckInQueue() {
+  const keyStore = useNearStore((store) => store.keyStore);
+  const near = useNearStore((store) => store.near);
+  const counts = useCheckInStore((store) => store.counts);
+  const isProcessing = useCheckInStore((store) => store.isProcessing);
+
+  useEffect(() => {
+    if (!keyStore || !near) return;
+
+    const process = () => {
+      processClaimQueue({ keyStore, near });
+    };
+
+    process();
+
+    const interval = setInterval(process, CLAIM_QUEUE_POLL_INTERVAL_MS);
+    window.addEventListener('online', process);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', process);
+    };
+  }, [keyStore, near]);
+
+  const retryFailed = useCallback(async () => {
+    if (!keyStore || !near) return;
+    await retryFailedClaims({ keyStore, near });
+  }, [keyStore, near]);
+
+  return {
+    counts,
+    isProcessing,
+    retryFailed,
+  };
+}
@@ -1,105 +1,314 @@
 import { handleClientError } from '@near-pagoda/ui';
-import { useQuery } from '@tanstack/react-query';
+import { QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
 
-import { useNearStore } from '@/stores/near';
 import { KEYPOM_EVENTS_CONTRACT_ID } from '@/utils/config';
-import { EventDrop, TicketMetadataExtra } from '@/utils/helpers';
+import { fetchFunderMetadata } from '@/utils/event';
+import { EventDrop, FunderEventMetadata, TicketMetadataExtra } from '@/utils/helpers';
+import { fetchFromIndexer } from '@/utils/indexer-client';
+import { fetchMarketplaceEvent } from '@/utils/resale';
+import { viewFunction } from '@/utils/rpc';
 import { validateDateAndTime } from '@/utils/time';
+import { fetchWaitlistDepth } from '@/utils/waitlist';
+import type { WaitlistDepth } from '@/utils/waitlist-store';
 
 const DROP_ITEMS_PER_QUERY = 5;
+const KEY_ITEMS_PER_QUERY = 50;
+export const MAX_CONCURRENT_QUERIES = 6;
+const SUPPLY_REFRESH_INTERVAL_MS = 30_000;
 
-export type DropsByEventId = NonNullable<Awaited<ReturnType<typeof useDrops>>['data']>;
+export type DropKeyInfo = {
+  pk: string;
+  drop_id: string;
+  uses_remaining: number;
+  owner_id?: string; // The events contract until a key is bought or transferred to an account
+  metadata?: string; // Stringified key metadata, set by the events worker when the ticket is purchased
+};
 
-export function useDrops(publisherAccountId: string | undefined) {
-  const viewAccount = useNearStore((store) => store.viewAccount);
+export type TicketDrop = ReturnType<typeof mapDrop>;
 
-  const query = useQuery({
-    enabled: !!viewAccount && !!publisherAccountId,
-    queryKey: ['drops', publisherAccountId],
-    queryFn: async () => {
-      try {
-        /*
-          NOTE: We fetch all drops in groups of 5 to avoid a view call panic.
-          Each drop contains a decent amount of JSON.
-        */
+type DropWithSupply = {
+  drop: EventDrop;
+  sold: number;
+};
 
-        if (!viewAccount) throw new Error('View account has not initialized yet');
+type LoadDropsOptions = {
+  eventId: string;
+  publisherAccountId: string;
+  onProgress: (drops: DropWithSupply[], cancelled: boolean) => void;
+};
 
-        const numberOfDrops: number = await viewAccount.viewFunction({
-          contractId: KEYPOM_EVENTS_CONTRACT_ID,
-          methodName: 'get_drop_supply_for_funder',
-          args: { account_id: publisherAccountId },
-        });
+function dropsQueryKey(publisherAccountId: string | undefined, eventId: string | undefined) {
+  return ['drops', publisherAccountId, eventId];
+}
+
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, mapper: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index]!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+
+  return results;
+}
+
+function chunk<T>(items: T[], size: number) {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size),
+  );
+}
+
+function fetchDropSupply(dropId: string) {
+  return viewFunction<number>({
+    contractId: KEYPOM_EVENTS_CONTRACT_ID,
+    methodName: 'get_key_supply_for_drop',
+    args: { drop_id: dropId },
+  });
+}
+
+async function fetchReservedSupply(eventId: string): Promise<WaitlistDepth> {
+  // Tickets held for waitlist offers aren't for sale, but drops can still render without them
+  try {
+    return await fetchWaitlistDepth(eventId);
+  } catch (error) {
+    console.error(`Failed to load waitlist for event: ${eventId}`, error);
+  }
+
+  return {};
+}
+
+async function fetchIndexedDrops(publisherAccountId: string, eventId: string) {
+  const indexed = await fetchFromIndexer<{ event: FunderEventMetadata; drops: DropWithSupply[] }>(
+    `/api/events/${encodeURIComponent(publisherAccountId)}/${encodeURIComponent(eventId)}`,
+  );
+  if (!indexed) return null;
 
-        const totalQueries = Math.ceil(numberOfDrops / DROP_ITEMS_PER_QUERY);
-        const pages = Array.from({ length: totalQueries }, (_, index) => index);
-
-        const pagedDrops = await Promise.all(
-          pages.map(async (pageIndex) => {
-            const drops: EventDrop[] = await viewAccount.viewFunction({
-              contractId: KEYPOM_EVENTS_CONTRACT_ID,
-              methodName: 'get_drops_for_funder',
-              args: {
-                account_id: publisherAccountId,
-                from_index: (pageIndex * DROP_ITEMS_PER_QUERY).toString(),
-                limit: DROP_ITEMS_PER_QUERY,
-              },
-            });
-
-            const mappedDrops = await Promise.all(
-              drops.map(async (drop) => {
-                const sold: number = await viewAccount.viewFunction({
-                  contractId: KEYPOM_EVENTS_CONTRACT_ID,
-                  methodName: 'get_key_supply_for_drop',
-                  args: { drop_id: drop.drop_id },
-                });
-
-                let extra: TicketMetadataExtra | undefined;
-
-                if (drop.drop_config.nft_keys_config.token_metadata.extra) {
-                  extra = JSON.parse(drop.drop_config.nft_keys_config.token_metadata.extra) as TicketMetadataExtra;
-                }
-
-                const metadata = drop.drop_config.nft_keys_config.token_metadata;
-
-                const validatedSellThrough = extra?.salesValidThrough
-                  ? validateDateAndTime(extra.salesValidThrough)
-                  : {
-                      message: '',
-                      valid: true,
-                    };
-
-                return {
-                  ...drop,
-                  ticket: {
-                    title: metadata.title || 'General Admission',
-                    description: metadata.description,
-                    artwork: metadata.artwork,
-                    extra: extra,
-                    remaining: Math.max(0, (extra?.maxSupply || 0) - sold),
-                    sold,
-                    validatedSellThrough,
-                  },
-                };
-              }),
-            );
-
-            return mappedDrops;
+  return { drops: indexed.drops, cancelled: !!indexed.event.cancelled };
+}
+
+async function fetchEventDropIds(publisherAccountId: string, eventId: string) {
+  /*
+    The marketplace stores ticket information keyed by drop ID for every event, which
+    lets us skip paging through every drop the funder has ever created.
+  */
+
+  try {
+    const eventInfo = await fetchMarketplaceEvent(eventId);
+    return Object.keys(eventInfo.ticket_information);
+  } catch (error) {
+    console.error(`Failed to load marketplace drop IDs for event: ${eventId}`, error);
+  }
+
+  // Events that were never registered with the marketplace fall back to filtering the funder's drops
+  const numberOfDrops = await viewFunction<number>({
+    contractId: KEYPOM_EVENTS_CONTRACT_ID,
+    methodName: 'get_drop_supply_for_funder',
+    args: { account_id: publisherAccountId },
+  });
+
+  const pages = Array.from({ length: Math.ceil(numberOfDrops / DROP_ITEMS_PER_QUERY) }, (_, index) => index);
+
+  const pagedDrops = await mapWithConcurrency(pages, MAX_CONCURRENT_QUERIES, (pageIndex) =>
+    viewFunction<EventDrop[]>({
+      contractId: KEYPOM_EVENTS_CONTRACT_ID,
+      methodName: 'get_drops_for_funder',
+      args: {
+        account_id: publisherAccountId,
+        from_index: (pageIndex * DROP_ITEMS_PER_QUERY).toString(),
+        limit: DROP_ITEMS_PER_QUERY,
+      },
+    }),
+  );
+
+  return pagedDrops
+    .flat()
+    .filter((drop) => parseTicketExtra(drop)?.eventId === eventId)
+    .map((drop) => drop.drop_id);
+}
+
+async function fetchDropsFromContracts({ eventId, publisherAccountId, onProgress }: LoadDropsOptions) {
+  const [funderMetadata, dropIds] = await Promise.all([
+    fetchFunderMetadata(publisherAccountId),
+    fetchEventDropIds(publisherAccountId, eventId),
+  ]);
+
+  const cancelled = !!JSON.parse(funderMetadata)[eventId]?.cancelled;
+  const drops: DropWithSupply[] = [];
+
+  /*
+    NOTE: Each drop and its supply are separate view calls, so drops are loaded in
+    batches and every finished batch is pushed to the caller right away. This lets
+    the first tiers render while the rest of the event is still loading.
+  */
+
+  for (const batch of chunk(dropIds, MAX_CONCURRENT_QUERIES)) {
+    const loaded = await Promise.all(
+      batch.map(async (dropId): Promise<DropWithSupply> => {
+        const [drop, sold] = await Promise.all([
+          viewFunction<EventDrop>({
+            contractId: KEYPOM_EVENTS_CONTRACT_ID,
+            methodName: 'get_drop_information',
+            args: { drop_id: dropId },
           }),
-        );
+          fetchDropSupply(dropId),
+        ]);
+
+        return { drop, sold };
+      }),
+    );
+
+    drops.push(...loaded);
+    onProgress([...drops], cancelled);
+  }
+
+  return { drops, cancelled };
+}
+
+function parseTicketExtra(drop: EventDrop) {
+  const extra = drop.drop_config.nft_keys_config.token_metadata.extra;
+  return extra ? (JSON.parse(extra) as TicketMetadataExtra) : undefined;
+}
+
+function getRemaining(extra: TicketMetadataExtra | undefined, sold: number, reserved: number) {
+  return Math.max(0, (extra?.maxSupply || 0) - sold - reserved);
+}
+
+function mapDrop(
+  { drop, sold }: DropWithSupply,
+  cancelled: boolean,
+  validate: typeof validateDateAndTime,
+  waitlist: WaitlistDepth,
+) {
+  const reserved = waitlist[drop.drop_id]?.offered ?? 0;
+
+  const extra = parseTicketExtra(drop);
+  const metadata = drop.drop_config.nft_keys_config.token_metadata;
+
+  let validatedSellThrough = extra?.salesValidThrough
+    ? validate(extra.salesValidThrough)
+    : {
+        message: '',
+        valid: true,
+      };
+
+  if (cancelled) {
+    validatedSellThrough = {
+      message: 'This event has been cancelled',
+      valid: false,
+    };
+  }
+
+  return {
+    ...drop,
+    ticket: {
+      title: metadata.title || 'General Admission',
+      description: metadata.description,
+      artwork: metadata.artwork,
+      cancelled,
+      extra: extra,
+      remaining: getRemaining(extra, sold, reserved),
+      // Held for people on the waitlist who were offered a ticket
+      reserved,
+      sold,
+      validatedSellThrough,
+    },
+  };
+}
+
+function mapDrops(drops: DropWithSupply[], cancelled: boolean, waitlist: WaitlistDepth) {
+  // Tiers usually share a sale window, so each window is only validated once per load
+  const validations = new Map<string, ReturnType<typeof validateDateAndTime>>();
+
+  const validate: typeof validateDateAndTime = (date) => {
+    const key = JSON.stringify(date);
+    let validation = validations.get(key);
+
+    if (!validation) {
+      validation = validateDateAndTime(date);
+      validations.set(key, validation);
+    }
+
+    return validation;
+  };
+
+  return drops.map((drop) => mapDrop(drop, cancelled, validate, waitlist));
+}
+
+export async function refreshDropSupply(
+  queryClient: QueryClient,
+  publisherAccountId: string | undefined,
+  eventId: string | undefined,
+) {
+  /*
+    Only supply changes after an event's drops have loaded, so refreshing re-reads
+    `get_key_supply_for_drop` (and the waitlist offers holding tickets) and patches the
+    drops whose count moved instead of reloading every drop.
+  */
+
+  const queryKey = dropsQueryKey(publisherAccountId, eventId);
+  const drops = queryClient.getQueryData<TicketDrop[]>(queryKey);
+  if (!drops?.length) return 0;
+
+  const [supply, waitlist] = await Promise.all([
+    mapWithConcurrency(drops, MAX_CONCURRENT_QUERIES, (drop) => fetchDropSupply(drop.drop_id)),
+    fetchReservedSupply(eventId!),
+  ]);
+  const soldByDropId = new Map(drops.map((drop, index) => [drop.drop_id, supply[index]]));
+  let changed = 0;
 
-        const allDrops = pagedDrops.flat();
-        const dropsByEventId: Record<string, typeof allDrops> = {};
+  queryClient.setQueryData<TicketDrop[]>(queryKey, (current) =>
+    current?.map((drop) => {
+      const sold = soldByDropId.get(drop.drop_id) ?? drop.ticket.sold;
+      const reserved = waitlist[drop.drop_id]?.offered ?? 0;
+      if (sold === drop.ticket.sold && reserved === drop.ticket.reserved) return drop;
 
-        allDrops.forEach((drop) => {
-          const eventId = drop.ticket.extra?.eventId;
-          if (eventId) {
-            dropsByEventId[eventId] ??= [];
-            dropsByEventId[eventId]!.push(drop);
-          }
+      changed++;
+
+      return {
+        ...drop,
+        ticket: {
+          ...drop.ticket,
+          remaining: getRemaining(drop.ticket.extra, sold, reserved),
+          reserved,
+          sold,
+        },
+      };
+    }),
+  );
+
+  return changed;
+}
+
+export function useDrops(publisherAccountId: string | undefined, eventId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = dropsQueryKey(publisherAccountId, eventId);
+
+  const query = useQuery({
+    enabled: !!publisherAccountId && !!eventId,
+    queryKey,
+    queryFn: async () => {
+      try {
+        // The indexer serves every drop for the event and its supply in a single request
+        const [indexed, waitlist] = await Promise.all([
+          fetchIndexedDrops(publisherAccountId!, eventId!),
+          fetchReservedSupply(eventId!),
+        ]);
+        if (indexed) return mapDrops(indexed.drops, indexed.cancelled, waitlist);
+
+        const { drops, cancelled } = await fetchDropsFromContracts({
+          eventId: eventId!,
+          publisherAccountId: publisherAccountId!,
+          onProgress: (loaded, cancelled) => {
+            queryClient.setQueryData<TicketDrop[]>(queryKey, mapDrops(loaded, cancelled, waitlist));
+          },
         });
 
-        return dropsByEventId;
+        return mapDrops(drops, cancelled, waitlist);
       } catch (error) {
         handleClientError({
           title: 'Failed to load drops for event',
@@ -107,9 +316,39 @@ export function useDrops(publisherAccountId: string | undefined) {
         });
       }
 
-      return {};
+      return [];
     },
   });
 
+  useQuery({
+    enabled: query.isSuccess && !query.isFetching,
+    queryKey: ['drop-supply', publisherAccountId, eventId],
+    queryFn: () => refreshDropSupply(queryClient, publisherAccountId, eventId),
+    refetchInterval: SUPPLY_REFRESH_INTERVAL_MS,
+  });
+
   return query;
 }
+
+export async function fetchKeysForDrop(dropId: string) {
+  const numberOfKeys = await fetchDropSupply(dropId);
+
+  const totalQueries = Math.ceil(numberOfKeys / KEY_ITEMS_PER_QUERY);
+  const pages = Array.from({ length: totalQueries }, (_, index) => index);
+
+  const pagedKeys = await mapWithConcurrency(pages, MAX_CONCURRENT_QUERIES, async (pageIndex) => {
+    const keys: DropKeyInfo[] = await viewFunction({
+      contractId: KEYPOM_EVENTS_CONTRACT_ID,
+      methodName: 'get_keys_for_drop',
+      args: {
+        drop_id: dropId,
+        from_index: (pageIndex * KEY_ITEMS_PER_QUERY).toString(),
+        limit: KEY_ITEMS_PER_QUERY,
+      },
+    });
+
+    return keys;
+  });
+
+  return pagedKeys.flat();
+}
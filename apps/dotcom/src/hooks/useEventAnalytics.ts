@@ -0,0 +1,40 @@
+import { handleClientError } from '@near-pagoda/ui';
+import { useQuery } from '@tanstack/react-query';
+
+import { useWalletStore } from '@/stores/wallet';
+import { buildEventAnalytics, fetchAnalyticsEntries } from '@/utils/analytics';
+import { FunderEventMetadata } from '@/utils/helpers';
+
+import { useDrops } from './useDrops';
+
+export function useEventAnalytics(publisherAccountId: string | undefined, event: FunderEventMetadata | undefined) {
+  const drops = useDrops(publisherAccountId, event?.id);
+  const wallet = useWalletStore((store) => store.wallet);
+
+  // The organizer's wallet signs the request, since sales and revenue are only shown to them
+  const query = useQuery({
+    enabled: !!publisherAccountId && !!event && !!drops.data && !!wallet,
+    queryKey: ['event-analytics', publisherAccountId, event?.id, drops.dataUpdatedAt],
+    queryFn: async () => {
+      try {
+        const entries = await fetchAnalyticsEntries({ funderId: publisherAccountId!, eventId: event!.id, wallet });
+
+        return buildEventAnalytics({
+          eventId: event!.id,
+          drops: drops.data!,
+          entries,
+          timeZone: event!.date.timeZone ?? event!.timeZone,
+        });
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to load event analytics',
+          error,
+        });
+      }
+
+      return null;
+    },
+  });
+
+  return query;
+}
@@ -0,0 +1,34 @@
+import { handleClientError } from '@near-pagoda/ui';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchEventAttendees } from '@/utils/attendees';
+import { FunderEventMetadata } from '@/utils/helpers';
+
+import { useDrops } from './useDrops';
+
+export function useEventAttendees(
+  publisherAccountId: string | undefined,
+  event: FunderEventMetadata | undefined,
+  privateKey: CryptoKey | null,
+) {
+  const drops = useDrops(publisherAccountId, event?.id);
+
+  const query = useQuery({
+    enabled: !!event && !!drops.data,
+    queryKey: ['event-attendees', publisherAccountId, event?.id, drops.dataUpdatedAt, !!privateKey],
+    queryFn: async () => {
+      try {
+        return await fetchEventAttendees({ drops: drops.data!, privateKey });
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to load attendees',
+          error,
+        });
+      }
+
+      return [];
+    },
+  });
+
+  return query;
+}
@@ -1,21 +1,23 @@
 import { handleClientError } from '@near-pagoda/ui';
 import { useQuery } from '@tanstack/react-query';
 
-import { useNearStore } from '@/stores/near';
 import { KEYPOM_EVENTS_CONTRACT_ID } from '@/utils/config';
 import { FunderEventMetadata } from '@/utils/helpers';
+import { fetchFromIndexer } from '@/utils/indexer-client';
+import { viewFunction } from '@/utils/rpc';
 
 export function useEvents(accountId: string | undefined) {
-  const viewAccount = useNearStore((store) => store.viewAccount);
-
   const query = useQuery({
-    enabled: !!viewAccount && !!accountId,
+    enabled: !!accountId,
     queryKey: ['events', accountId],
     queryFn: async () => {
       try {
-        if (!viewAccount) throw new Error('View account has not initialized yet');
+        const indexed = await fetchFromIndexer<{ events: FunderEventMetadata[] }>(
+          `/api/events/${encodeURIComponent(accountId!)}`,
+        );
+        if (indexed) return indexed.events;
 
-        const response = await viewAccount.viewFunction({
+        const response = await viewFunction({
           contractId: KEYPOM_EVENTS_CONTRACT_ID,
           methodName: 'get_funder_info',
           args: { account_id: accountId },
@@ -39,22 +41,23 @@ export function useEvents(accountId: string | undefined) {
 }
 
 export function useEvent(accountId: string | undefined, eventId: string | undefined) {
-  const viewAccount = useNearStore((store) => store.viewAccount);
-
   const query = useQuery({
-    enabled: !!viewAccount && !!accountId && !!eventId,
+    enabled: !!accountId && !!eventId,
     queryKey: ['events', accountId, eventId],
     queryFn: async () => {
       try {
+        const indexed = await fetchFromIndexer<{ event: FunderEventMetadata }>(
+          `/api/events/${encodeURIComponent(accountId!)}/${encodeURIComponent(eventId!)}`,
+        );
+        if (indexed) return indexed.event;
+
         /*
           NOTE: As of now, we don't have a contract call to fetch a single event.
-          For now we have to list all events for an account and find a matching ID
-          on the client side.
+          When the indexer can't be reached, we have to list all events for an account
+          and find a matching ID on the client side.
         */
 
-        if (!viewAccount) throw new Error('View account has not initialized yet');
-
-        const response = await viewAccount.viewFunction({
+        const response = await viewFunction({
           contractId: KEYPOM_EVENTS_CONTRACT_ID,
           methodName: 'get_funder_info',
           args: { account_id: accountId },
@@ -0,0 +1,25 @@
+import { handleClientError } from '@near-pagoda/ui';
+import { useQuery } from '@tanstack/react-query';
+
+import { confirmPendingNearCheckout } from '@/utils/purchase';
+
+export function useNearCheckoutConfirmation(transactionHashes: string | undefined) {
+  const query = useQuery({
+    enabled: !!transactionHashes,
+    queryKey: ['near-checkout-confirmation', transactionHashes],
+    queryFn: async () => {
+      try {
+        return await confirmPendingNearCheckout(transactionHashes!.split(','));
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to confirm your NEAR checkout',
+          error,
+        });
+      }
+
+      return null;
+    },
+  });
+
+  return query;
+}
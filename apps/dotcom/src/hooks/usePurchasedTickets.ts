@@ -1,26 +1,21 @@
 import { getPubFromSecret } from '@keypom/core';
 import { handleClientError } from '@near-pagoda/ui';
 import { useQuery } from '@tanstack/react-query';
-import { Account } from 'near-api-js';
 
-import { useNearStore } from '@/stores/near';
 import { KEYPOM_EVENTS_CONTRACT_ID } from '@/utils/config';
 import { EventDrop, FunderEventMetadata, TicketMetadataExtra } from '@/utils/helpers';
+import { viewFunction } from '@/utils/rpc';
 
 export function usePurchasedTickets(secretKeys: string[]) {
-  const viewAccount = useNearStore((store) => store.viewAccount);
-
   const query = useQuery({
-    enabled: !!viewAccount && secretKeys.length > 0,
+    enabled: secretKeys.length > 0,
     queryKey: ['purchased-tickets', secretKeys.join(',')],
     queryFn: async () => {
       try {
-        if (!viewAccount) throw new Error('View account has not initialized yet');
-
-        const tickets: Awaited<ReturnType<typeof fetchDetailsForPurchasedTicket>>[] = [];
+        const tickets: PurchasedTicketDetails[] = [];
 
         for (const secretKey of secretKeys) {
-          const ticket = await fetchDetailsForPurchasedTicket(secretKey, viewAccount);
+          const ticket = await fetchDetailsForPurchasedTicket(secretKey);
           tickets.push(ticket);
         }
 
@@ -30,7 +25,7 @@ export function usePurchasedTickets(secretKeys: string[]) {
           throw new Error('No matching tickets found for secret keys');
         }
 
-        const funderInfo = await viewAccount.viewFunction({
+        const funderInfo = await viewFunction({
           contractId: KEYPOM_EVENTS_CONTRACT_ID,
           methodName: 'get_funder_info',
           args: { account_id: firstTicket.drop.funder_id },
@@ -40,10 +35,15 @@ export function usePurchasedTickets(secretKeys: string[]) {
         const event = events.find((ev) => ev.id === firstTicket.extra.eventId);
         if (!event) throw new Error('Event not found for purchased tickets');
 
+        const googleWalletUrls = await fetchGoogleWalletUrls(tickets);
+
         return {
           event,
           publisherAccountId: firstTicket.drop.funder_id,
-          tickets,
+          tickets: tickets.map((ticket, index) => ({
+            ...ticket,
+            googleWalletUrl: googleWalletUrls[index],
+          })),
         };
       } catch (error) {
         handleClientError({
@@ -59,18 +59,45 @@ export function usePurchasedTickets(secretKeys: string[]) {
   return query;
 }
 
-export async function fetchDetailsForPurchasedTicket(secretKey: string, viewAccount: Account | null | undefined) {
-  if (!viewAccount) throw new Error('View account has not initialized yet');
+type PurchasedTicketDetails = Awaited<ReturnType<typeof fetchDetailsForPurchasedTicket>>;
+
+async function fetchGoogleWalletUrls(tickets: PurchasedTicketDetails[]) {
+  /*
+    NOTE: Google Wallet links are signed server side. If signing fails, we still want to
+    show the purchased tickets, so we return no links instead of throwing.
+  */
+
+  try {
+    const response = await fetch('/api/wallet/google', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      // The server loads the event and tiers from the contract, so only the ticket keys are sent
+      body: JSON.stringify({ secretKeys: tickets.map((ticket) => ticket.secretKey) }),
+    });
+
+    if (!response.ok) throw new Error(`Google Wallet request failed with status: ${response.status}`);
+
+    const data: { saveUrls: string[] } = await response.json();
+    return data.saveUrls;
+  } catch (error) {
+    console.error('Failed to load Google Wallet links', error);
+  }
+
+  return [];
+}
 
+export async function fetchDetailsForPurchasedTicket(secretKey: string) {
   const publicKey = getPubFromSecret(secretKey);
 
-  const keyInfo: { drop_id: string; uses_remaining: number } = await viewAccount.viewFunction({
+  const keyInfo: { drop_id: string; uses_remaining: number } = await viewFunction({
     contractId: KEYPOM_EVENTS_CONTRACT_ID,
     methodName: 'get_key_information',
     args: { key: publicKey },
   });
 
-  const drop: EventDrop = await viewAccount.viewFunction({
+  const drop: EventDrop = await viewFunction({
     contractId: KEYPOM_EVENTS_CONTRACT_ID,
     methodName: 'get_drop_information',
     args: { drop_id: keyInfo.drop_id },
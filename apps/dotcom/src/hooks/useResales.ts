@@ -0,0 +1,63 @@
+import { handleClientError } from '@near-pagoda/ui';
+import { useQuery } from '@tanstack/react-query';
+
+import {
+  calculateMaxResalePrice,
+  calculateResaleProceeds,
+  fetchMarketplaceEvent,
+  fetchResaleListings,
+  ResaleListing,
+} from '@/utils/resale';
+
+export type ResaleListingWithTerms = ResaleListing & {
+  maxPrice: string;
+  organizerRoyalty: string;
+};
+
+export type ResalesByDropId = Record<string, ResaleListingWithTerms[]>;
+
+export function useResales(eventId: string | undefined) {
+  const query = useQuery({
+    enabled: !!eventId,
+    queryKey: ['resales', eventId],
+    queryFn: async () => {
+      try {
+        const [eventInfo, listings] = await Promise.all([
+          fetchMarketplaceEvent(eventId!),
+          fetchResaleListings(eventId!),
+        ]);
+        const resalesByDropId: ResalesByDropId = {};
+
+        // Grouped by drop so listings can be shown beside each tier's primary inventory from useDrops()
+        listings.forEach((listing) => {
+          const maxPrice = calculateMaxResalePrice(eventInfo, listing.drop_id);
+
+          // Listings above a cap that the organizer has since lowered can't be bought
+          if (BigInt(listing.price) > maxPrice) return;
+
+          resalesByDropId[listing.drop_id] ??= [];
+          resalesByDropId[listing.drop_id]!.push({
+            ...listing,
+            maxPrice: maxPrice.toString(),
+            organizerRoyalty: calculateResaleProceeds(eventInfo, BigInt(listing.price)).organizerRoyalty.toString(),
+          });
+        });
+
+        Object.values(resalesByDropId).forEach((dropListings) => {
+          dropListings.sort((a, b) => (BigInt(a.price) < BigInt(b.price) ? -1 : 1));
+        });
+
+        return resalesByDropId;
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to load resale tickets',
+          error,
+        });
+      }
+
+      return {};
+    },
+  });
+
+  return query;
+}
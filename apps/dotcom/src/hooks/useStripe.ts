@@ -5,6 +5,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { useNearStore } from '@/stores/near';
 import { useStripeStore } from '@/stores/stripe';
 import { EVENTS_WORKER_BASE, KEYPOM_MARKETPLACE_CONTRACT_ID } from '@/utils/config';
+import { viewFunction } from '@/utils/rpc';
 
 export function useStripe(accountId: string | undefined, stripeCheckout: boolean) {
   const viewAccount = useNearStore((store) => store.viewAccount);
@@ -17,7 +18,7 @@ export function useStripe(accountId: string | undefined, stripeCheckout: boolean
       try {
         if (!viewAccount) throw new Error('View account has not initialized yet');
 
-        let stripeAccountId = await viewAccount.viewFunction({
+        let stripeAccountId = await viewFunction({
           contractId: KEYPOM_MARKETPLACE_CONTRACT_ID,
           methodName: 'get_stripe_id_for_account',
           args: { account_id: accountId },
@@ -0,0 +1,67 @@
+import { handleClientError } from '@near-pagoda/ui';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchWaitlistDepth, validateWaitlistOffer, verifyWaitlistEntry } from '@/utils/waitlist';
+
+export function useWaitlistDepth(eventId: string | undefined) {
+  const query = useQuery({
+    enabled: !!eventId,
+    queryKey: ['waitlist-depth', eventId],
+    queryFn: async () => {
+      try {
+        return await fetchWaitlistDepth(eventId!);
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to load waitlist',
+          error,
+        });
+      }
+
+      return null;
+    },
+  });
+
+  return query;
+}
+
+export function useWaitlistOffer(offerToken: string | undefined) {
+  const query = useQuery({
+    enabled: !!offerToken,
+    queryKey: ['waitlist-offer', offerToken],
+    queryFn: async () => {
+      try {
+        return await validateWaitlistOffer(offerToken!);
+      } catch (error) {
+        handleClientError({
+          title: 'Waitlist offer is no longer available',
+          error,
+        });
+      }
+
+      return null;
+    },
+  });
+
+  return query;
+}
+
+export function useWaitlistVerification(verifyToken: string | undefined) {
+  const query = useQuery({
+    enabled: !!verifyToken,
+    queryKey: ['waitlist-verification', verifyToken],
+    queryFn: async () => {
+      try {
+        return await verifyWaitlistEntry(verifyToken!);
+      } catch (error) {
+        handleClientError({
+          title: 'Failed to confirm your waitlist spot',
+          error,
+        });
+      }
+
+      return null;
+    },
+  });
+
+  return query;
+}
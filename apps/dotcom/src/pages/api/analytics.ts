@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { getAnalyticsLogStore } from '@/utils/analytics-log';
+import { authenticateOrganizer } from '@/utils/organizer-auth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { funderId, eventId } = req.query;
+  if (typeof funderId !== 'string' || typeof eventId !== 'string') {
+    return res.status(400).json({ message: 'funderId and eventId query params are required' });
+  }
+
+  // Sales and revenue are only shown to the organizer, entries are recorded by checkouts and check-ins
+  if ((await authenticateOrganizer(req.headers)) !== funderId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const entries = await getAnalyticsLogStore().listEntries(funderId, eventId);
+  return res.status(200).json({ entries });
+}
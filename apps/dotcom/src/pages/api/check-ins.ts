@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { getAnalyticsLogStore } from '@/utils/analytics-log';
+import { getCheckInLogStore } from '@/utils/check-in-log';
+import { createCheckInMessage, verifyTicketKeySignature } from '@/utils/keys';
+import { fetchTicketFromJsonRpc } from '@/utils/rpc';
+
+const MAX_SIGNATURE_AGE_MS = 5 * 60_000;
+
+async function recordCheckInAnalytics(checkInEventId: string, publicKey: string) {
+  // Analytics are best effort, so a failure here never holds up the door
+  try {
+    // Passes with several admissions are checked in once per entry, as "<eventId>:<entryId>"
+    const ticket = await fetchTicketFromJsonRpc(publicKey);
+    if (!ticket || checkInEventId.split(':')[0] !== ticket.event.id) return;
+
+    await getAnalyticsLogStore().recordEntry({
+      id: `check-in:${checkInEventId}:${publicKey}`,
+      type: 'check-in',
+      funderId: ticket.drop.funder_id,
+      eventId: ticket.event.id,
+      dropId: ticket.drop.drop_id,
+      quantity: 1,
+      publicKey,
+      recordedAt: Date.now(),
+    });
+  } catch (error) {
+    console.error(`Failed to record check-in analytics: ${publicKey}`, error);
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getCheckInLogStore();
+
+  if (req.method === 'GET') {
+    const { eventId, publicKey } = req.query;
+    if (typeof eventId !== 'string' || typeof publicKey !== 'string') {
+      return res.status(400).json({ message: 'eventId and publicKey query params are required' });
+    }
+
+    const checkIn = await store.findCheckIn(eventId, publicKey);
+    return res.status(200).json({ checkIn });
+  }
+
+  if (req.method === 'POST') {
+    const { eventId, publicKey, deviceId, signedAt, signature } = req.body ?? {};
+    if (
+      typeof eventId !== 'string' ||
+      typeof publicKey !== 'string' ||
+      typeof deviceId !== 'string' ||
+      typeof signedAt !== 'number' ||
+      typeof signature !== 'string'
+    ) {
+      return res.status(400).json({ message: 'eventId, publicKey, deviceId, signedAt and signature are required' });
+    }
+
+    /*
+      Ticket public keys can be read on-chain, so scanners prove they scanned the ticket by
+      signing the check-in with the secret key from its QR code.
+    */
+
+    if (Math.abs(Date.now() - signedAt) > MAX_SIGNATURE_AGE_MS) {
+      return res.status(401).json({ message: 'Check-in signature has expired' });
+    }
+    if (!verifyTicketKeySignature(publicKey, createCheckInMessage(eventId, publicKey, signedAt), signature)) {
+      return res.status(401).json({ message: 'Invalid check-in signature' });
+    }
+
+    const result = await store.recordCheckIn({
+      eventId,
+      publicKey,
+      deviceId,
+      checkedInAt: Date.now(),
+    });
+
+    if (result.recorded) await recordCheckInAnalytics(eventId, publicKey);
+
+    return res.status(200).json(result);
+  }
+
+  res.setHeader('Allow', 'GET, POST');
+  return res.status(405).json({ message: 'Method not allowed' });
+}
@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { completeCheckout, expireCheckout } from '@/utils/checkout';
+import { getCheckoutStore } from '@/utils/checkout-store';
+import { EVENTS_WORKER_SECRET } from '@/utils/config';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  // Called by the events worker once Stripe reports a checkout session as paid or expired
+  if (!EVENTS_WORKER_SECRET) {
+    return res.status(503).json({ message: 'Checkout is disabled until EVENTS_WORKER_SECRET is configured' });
+  }
+
+  if (req.headers.authorization !== `Bearer ${EVENTS_WORKER_SECRET}`) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const { checkoutId, status } = req.body ?? {};
+  if (typeof checkoutId !== 'string' || (status !== 'completed' && status !== 'expired')) {
+    return res.status(400).json({ message: 'checkoutId and a status of completed or expired are required' });
+  }
+
+  if (!(await getCheckoutStore().find(checkoutId))) {
+    return res.status(404).json({ message: 'Checkout not found' });
+  }
+
+  // Stripe can deliver the same event more than once, only the first confirmation changes anything
+  const checkout = status === 'completed' ? await completeCheckout(checkoutId) : await expireCheckout(checkoutId);
+
+  return res.status(200).json({ updated: !!checkout });
+}
@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { CheckoutError, createCheckout, createNearCheckout } from '@/utils/checkout';
+import { EVENTS_WORKER_SECRET, PROMO_CODE_SECRET } from '@/utils/config';
+import { authenticateOrganizer } from '@/utils/organizer-auth';
+import { getPromoCodeClientKey, getPromoCodeStore, MAX_PROMO_CODE_LOOKUPS } from '@/utils/promo-code-store';
+
+function isCartItem(item: unknown) {
+  const { dropId, quantity } = (item ?? {}) as Record<string, unknown>;
+  return typeof dropId === 'string' && Number.isInteger(quantity) && (quantity as number) >= 0;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { funderId, eventId, email, accountId, paymentMethod, items, promoCode, waitlistOfferToken, buyerAnswers } =
+    req.body ?? {};
+  if (
+    typeof funderId !== 'string' ||
+    typeof eventId !== 'string' ||
+    (paymentMethod !== undefined && paymentMethod !== 'near') ||
+    // Tickets bought with NEAR go to the wallet, every other purchase is sent by email
+    (paymentMethod === 'near' ? typeof accountId !== 'string' : typeof email !== 'string' || !email.includes('@')) ||
+    (email !== undefined && typeof email !== 'string') ||
+    !Array.isArray(items) ||
+    !items.every(isCartItem) ||
+    (accountId !== undefined && typeof accountId !== 'string') ||
+    (promoCode !== undefined && typeof promoCode !== 'string') ||
+    (waitlistOfferToken !== undefined && typeof waitlistOfferToken !== 'string') ||
+    (buyerAnswers !== undefined && typeof buyerAnswers !== 'string')
+  ) {
+    return res
+      .status(400)
+      .json({ message: 'funderId, eventId, items and an email (or accountId when paying with NEAR) are required' });
+  }
+
+  // NEAR checkouts never reach the events worker, the buyer's wallet pays the contract directly
+  if (paymentMethod !== 'near' && !EVENTS_WORKER_SECRET) {
+    return res.status(503).json({ message: 'Checkout is disabled until EVENTS_WORKER_SECRET is configured' });
+  }
+
+  // NEAR checkouts hold the limits of the buyer's account, so the buyer signs in with the same NEP-413 token as organizers
+  if (paymentMethod === 'near' && (await authenticateOrganizer(req.headers)) !== accountId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (promoCode && !PROMO_CODE_SECRET) {
+    return res.status(503).json({ message: 'Promo codes are disabled until PROMO_CODE_SECRET is configured' });
+  }
+
+  // A checkout tells the buyer whether its code exists, so it counts toward the same limit as GET /api/promo-codes
+  if (promoCode) {
+    const clientKey = getPromoCodeClientKey(req.headers, req.socket.remoteAddress);
+    if ((await getPromoCodeStore().recordLookup(eventId, clientKey, Date.now())) > MAX_PROMO_CODE_LOOKUPS) {
+      return res.status(429).json({ message: 'Too many promo code attempts, please try again later' });
+    }
+  }
+
+  try {
+    const request = { funderId, eventId, email, accountId, items, promoCode, waitlistOfferToken, buyerAnswers };
+    const result = paymentMethod === 'near' ? await createNearCheckout(request) : await createCheckout(request);
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { CheckoutError, confirmNearCheckout } from '@/utils/checkout';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  // Called by the buyer's browser once their wallet has sent the transactions, which are verified on-chain
+  const { checkoutId, transactionHashes } = req.body ?? {};
+  if (
+    typeof checkoutId !== 'string' ||
+    !Array.isArray(transactionHashes) ||
+    !transactionHashes.every((hash) => typeof hash === 'string')
+  ) {
+    return res.status(400).json({ message: 'checkoutId and transactionHashes are required' });
+  }
+
+  try {
+    const checkout = await confirmNearCheckout(checkoutId, transactionHashes);
+    return res.status(200).json({ status: checkout?.status ?? null });
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    throw error;
+  }
+}
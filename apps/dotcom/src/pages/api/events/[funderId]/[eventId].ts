@@ -0,0 +1,67 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { sendJsonWithEtag } from '@/utils/etag';
+import { FunderNotIndexedError, getIndexerStore, loadFunderSnapshot, refreshIndexedFunder } from '@/utils/indexer';
+import { revalidateEventPages } from '@/utils/seo';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { funderId, eventId } = req.query;
+  if (typeof funderId !== 'string' || typeof eventId !== 'string') {
+    return res.status(400).json({ message: 'funderId and eventId are required' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const snapshot = await loadFunderSnapshot(funderId);
+      const indexedEvent = snapshot.events.find(({ event }) => event.id === eventId);
+
+      if (!indexedEvent) {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+
+      return sendJsonWithEtag(req, res, {
+        ...indexedEvent,
+        drops: snapshot.drops.filter((drop) => drop.eventId === eventId),
+        indexedAt: snapshot.indexedAt,
+      });
+    } catch (error) {
+      if (error instanceof FunderNotIndexedError) {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+
+      console.error('Failed to load indexed event', error);
+      return res.status(500).json({ message: 'Failed to load indexed event' });
+    }
+  }
+
+  if (req.method === 'POST') {
+    /*
+      Called after tickets are sold so the event's public page doesn't wait for the next
+      poll. Refreshes are throttled per funder and only the pages that changed are rebuilt.
+    */
+
+    try {
+      const result = await refreshIndexedFunder(funderId);
+
+      if (!result) {
+        return res.status(429).json({ message: 'Event was refreshed recently' });
+      }
+
+      const store = getIndexerStore();
+      const revalidated = await revalidateEventPages(res, await store.listChangedEvents(funderId));
+      await store.clearChangedEvents(revalidated);
+
+      return res.status(200).json({ revalidated: revalidated.some((event) => event.eventId === eventId) });
+    } catch (error) {
+      if (error instanceof FunderNotIndexedError) {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+
+      console.error('Failed to refresh indexed event', error);
+      return res.status(500).json({ message: 'Failed to refresh indexed event' });
+    }
+  }
+
+  res.setHeader('Allow', 'GET, POST');
+  return res.status(405).json({ message: 'Method not allowed' });
+}
@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { sendJsonWithEtag } from '@/utils/etag';
+import { FunderNotIndexedError, loadFunderSnapshot } from '@/utils/indexer';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { funderId } = req.query;
+  if (typeof funderId !== 'string') {
+    return res.status(400).json({ message: 'funderId is required' });
+  }
+
+  try {
+    const snapshot = await loadFunderSnapshot(funderId);
+
+    return sendJsonWithEtag(req, res, {
+      events: snapshot.events.map(({ event }) => event),
+      indexedAt: snapshot.indexedAt,
+    });
+  } catch (error) {
+    if (error instanceof FunderNotIndexedError) {
+      return res.status(404).json({ message: 'Funder not found' });
+    }
+
+    console.error('Failed to load indexed events', error);
+    return res.status(500).json({ message: 'Failed to load indexed events' });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { INDEXER_SECRET } from '@/utils/config';
+import { getIndexerStore, pollIndexedFunders } from '@/utils/indexer';
+import { revalidateEventPages } from '@/utils/seo';
+import { issueWaitlistOffers } from '@/utils/waitlist-store';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  // Meant to be called on a schedule (such as a cron job) to keep every indexed funder fresh
+  if (!INDEXER_SECRET) {
+    return res.status(503).json({ message: 'Polling is disabled until INDEXER_SECRET is configured' });
+  }
+
+  if (req.headers.authorization !== `Bearer ${INDEXER_SECRET}`) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const { indexed, failed, changedEvents } = await pollIndexedFunders();
+
+  // Public event pages are statically generated, so any event whose details or sales changed is rebuilt
+  const revalidated = await revalidateEventPages(res, changedEvents);
+  // Pages that failed to rebuild stay queued for the next poll
+  await getIndexerStore().clearChangedEvents(revalidated);
+
+  // Fresh snapshots show when refunds or supply increases free up spots for people on a waitlist
+  const waitlist = await issueWaitlistOffers();
+
+  return res.status(200).json({ indexed, failed, revalidated: revalidated.length, waitlist });
+}
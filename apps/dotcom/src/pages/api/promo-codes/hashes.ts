@@ -0,0 +1,42 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { PROMO_CODE_SECRET } from '@/utils/config';
+import { authenticateOrganizer } from '@/utils/organizer-auth';
+import { hashPromoCode } from '@/utils/promo-code-store';
+import { MIN_PROMO_CODE_LENGTH, normalizePromoCode } from '@/utils/promo-codes';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { funderId, eventId, codes } = req.body ?? {};
+  if (
+    typeof funderId !== 'string' ||
+    typeof eventId !== 'string' ||
+    !Array.isArray(codes) ||
+    !codes.every((code) => typeof code === 'string')
+  ) {
+    return res.status(400).json({ message: 'funderId, eventId and codes are required' });
+  }
+
+  if (!PROMO_CODE_SECRET) {
+    return res.status(503).json({ message: 'Promo codes are disabled until PROMO_CODE_SECRET is configured' });
+  }
+
+  // Anyone holding hashes could check guesses against them, so only the event's organizer gets them
+  const organizerId = await authenticateOrganizer(req.headers);
+  if (!organizerId || organizerId !== funderId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const tooShort = (codes as string[]).find((code) => normalizePromoCode(code).length < MIN_PROMO_CODE_LENGTH);
+  if (tooShort !== undefined) {
+    return res.status(400).json({ message: `Promo codes must be at least ${MIN_PROMO_CODE_LENGTH} characters` });
+  }
+
+  return res.status(200).json({
+    codeHashes: (codes as string[]).map((code) => hashPromoCode(funderId, eventId, code)),
+  });
+}
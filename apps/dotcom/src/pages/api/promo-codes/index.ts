@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { PROMO_CODE_SECRET } from '@/utils/config';
+import {
+  findEventPromoCode,
+  getPromoCodeClientKey,
+  getPromoCodeStore,
+  MAX_PROMO_CODE_LOOKUPS,
+} from '@/utils/promo-code-store';
+import { AppliedPromoCode, getPromoCodeError, normalizePromoCode, PromoCodeMetadata } from '@/utils/promo-codes';
+import { fetchEventFromJsonRpc } from '@/utils/rpc';
+
+async function loadPromoCode(funderId: string, eventId: string, code: string) {
+  // Read straight from the contract so codes added a moment ago work right away
+  const event = await fetchEventFromJsonRpc(funderId, eventId);
+  if (!event || event.cancelled) return null;
+
+  return findEventPromoCode(funderId, event, code);
+}
+
+function toAppliedPromoCode(
+  promoCode: PromoCodeMetadata,
+  code: string,
+  remainingUses: number | null,
+): AppliedPromoCode {
+  // The hash is left out, buyers only need the terms to preview their discount
+  return {
+    code: normalizePromoCode(code),
+    discountType: promoCode.discountType,
+    amount: promoCode.amount,
+    maxUses: promoCode.maxUses,
+    expiresAt: promoCode.expiresAt,
+    dropIds: promoCode.dropIds,
+    unlocksDropIds: promoCode.unlocksDropIds,
+    remainingUses,
+  };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  /*
+    Codes are only validated here so the buyer can preview their cart. They're applied (and their
+    uses reserved) by POST /api/checkout, which prices the cart on the server.
+  */
+
+  if (req.method === 'GET') {
+    const { funderId, eventId, code } = req.query;
+
+    if (typeof funderId !== 'string' || typeof eventId !== 'string' || typeof code !== 'string') {
+      return res.status(400).json({ message: 'funderId, eventId and code query params are required' });
+    }
+
+    if (!PROMO_CODE_SECRET) {
+      return res.status(503).json({ message: 'Promo codes are disabled until PROMO_CODE_SECRET is configured' });
+    }
+
+    const clientKey = getPromoCodeClientKey(req.headers, req.socket.remoteAddress);
+    if ((await getPromoCodeStore().recordLookup(eventId, clientKey, Date.now())) > MAX_PROMO_CODE_LOOKUPS) {
+      return res.status(429).json({ message: 'Too many promo code attempts, please try again later' });
+    }
+
+    const promoCode = await loadPromoCode(funderId, eventId, code);
+    if (!promoCode) return res.status(404).json({ message: 'Promo code not found' });
+
+    const uses = await getPromoCodeStore().countUses(eventId, promoCode.codeHash);
+    const error = getPromoCodeError(promoCode, uses);
+    if (error) return res.status(410).json({ message: error });
+
+    return res.status(200).json({
+      promoCode: toAppliedPromoCode(promoCode, code, promoCode.maxUses === undefined ? null : promoCode.maxUses - uses),
+    });
+  }
+
+  res.setHeader('Allow', 'GET');
+  return res.status(405).json({ message: 'Method not allowed' });
+}
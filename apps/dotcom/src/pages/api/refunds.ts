@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { EVENTS_WORKER_BASE, EVENTS_WORKER_SECRET } from '@/utils/config';
+import { isEventCancelled } from '@/utils/event';
+import { authenticateOrganizer } from '@/utils/organizer-auth';
+import { fetchEventFromJsonRpc } from '@/utils/rpc';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  if (!EVENTS_WORKER_SECRET) {
+    return res.status(503).json({ message: 'Refunds are disabled until EVENTS_WORKER_SECRET is configured' });
+  }
+
+  const { funderId, eventId, dropIds } = req.body ?? {};
+  if (
+    typeof funderId !== 'string' ||
+    typeof eventId !== 'string' ||
+    !Array.isArray(dropIds) ||
+    !dropIds.every((dropId) => typeof dropId === 'string')
+  ) {
+    return res.status(400).json({ message: 'funderId, eventId and dropIds are required' });
+  }
+
+  if ((await authenticateOrganizer(req.headers)) !== funderId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  // Refunds are only issued once the cancellation is on-chain, so sales have stopped for good
+  const event = await fetchEventFromJsonRpc(funderId, eventId);
+  if (!event) {
+    return res.status(404).json({ message: 'Event not found' });
+  }
+  if (!isEventCancelled(event)) {
+    return res.status(409).json({ message: 'Only cancelled events can be refunded' });
+  }
+
+  const response = await fetch(`${EVENTS_WORKER_BASE}/stripe/refund-event`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${EVENTS_WORKER_SECRET}`,
+    },
+    body: JSON.stringify({ eventId, funderId, dropIds }),
+  });
+
+  if (!response.ok) {
+    console.error('Refunding event failed', response.status, await response.text());
+    return res.status(502).json({ message: 'Refunding ticket holders failed' });
+  }
+
+  const data: { refunded: number } = await response.json();
+  return res.status(200).json({ refunded: data.refunded });
+}
@@ -0,0 +1,96 @@
+import { getPubFromSecret } from '@keypom/core';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { EVENTS_WORKER_SECRET } from '@/utils/config';
+import { createTransferMessage, verifyTicketKeySignature } from '@/utils/keys';
+import { fetchTicketFromJsonRpc } from '@/utils/rpc';
+import type { TicketTransferRecipient } from '@/utils/transfer';
+import { getTransferLogStore, sendTransferredTicket } from '@/utils/transfer-log';
+
+const MAX_SIGNATURE_AGE_MS = 5 * 60_000;
+
+function parseRecipient(recipient: unknown): TicketTransferRecipient | null {
+  const { email, accountId } = (recipient ?? {}) as Record<string, unknown>;
+  if (typeof email === 'string' && email.includes('@')) return { email };
+  if (typeof accountId === 'string' && accountId) return { accountId };
+  return null;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getTransferLogStore();
+
+  if (req.method === 'GET') {
+    const { publicKey } = req.query;
+    if (typeof publicKey !== 'string') {
+      return res.status(400).json({ message: 'publicKey query param is required' });
+    }
+
+    const transfer = await store.findTransfer(publicKey);
+    return res.status(200).json({ transfer });
+  }
+
+  if (req.method === 'POST') {
+    const { eventId, oldPublicKey, newPublicKey, ticketKey, signedAt, signature } = req.body ?? {};
+    const recipient = parseRecipient(req.body?.recipient);
+    if (
+      typeof eventId !== 'string' ||
+      typeof oldPublicKey !== 'string' ||
+      typeof newPublicKey !== 'string' ||
+      typeof ticketKey !== 'string' ||
+      typeof signedAt !== 'number' ||
+      typeof signature !== 'string' ||
+      !recipient
+    ) {
+      return res.status(400).json({
+        message: 'eventId, oldPublicKey, newPublicKey, ticketKey, recipient, signedAt and signature are required',
+      });
+    }
+
+    // Only whoever held the ticket before the transfer can sign for its old key
+    if (Math.abs(Date.now() - signedAt) > MAX_SIGNATURE_AGE_MS) {
+      return res.status(401).json({ message: 'Transfer signature has expired' });
+    }
+    if (
+      !verifyTicketKeySignature(
+        oldPublicKey,
+        createTransferMessage(eventId, oldPublicKey, newPublicKey, signedAt),
+        signature,
+      )
+    ) {
+      return res.status(401).json({ message: 'Invalid transfer signature' });
+    }
+    if (getPubFromSecret(ticketKey) !== newPublicKey) {
+      return res.status(400).json({ message: 'ticketKey does not match newPublicKey' });
+    }
+
+    // The new key has to exist on-chain for the event, so only transfers that happened are recorded
+    const ticket = await fetchTicketFromJsonRpc(newPublicKey);
+    if (ticket?.event.id !== eventId) {
+      return res.status(409).json({ message: 'Transferred ticket not found' });
+    }
+
+    const transfer = await store.recordTransfer({
+      eventId,
+      oldPublicKey,
+      newPublicKey,
+      recipientType: 'accountId' in recipient ? 'account' : 'email',
+      transferredAt: Date.now(),
+    });
+
+    let delivered = false;
+
+    if (EVENTS_WORKER_SECRET) {
+      try {
+        await sendTransferredTicket({ recipient, ticket, ticketKey });
+        delivered = true;
+      } catch (error) {
+        console.error('Failed to deliver transferred ticket', error);
+      }
+    }
+
+    return res.status(200).json({ transfer, delivered });
+  }
+
+  res.setHeader('Allow', 'GET, POST');
+  return res.status(405).json({ message: 'Method not allowed' });
+}
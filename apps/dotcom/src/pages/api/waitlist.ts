@@ -0,0 +1,121 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { EVENTS_WORKER_SECRET } from '@/utils/config';
+import { FunderNotIndexedError, loadFunderSnapshot } from '@/utils/indexer';
+import type { WaitlistOffer } from '@/utils/waitlist';
+import { getWaitlistStore, sendWaitlistVerification, WaitlistEntry } from '@/utils/waitlist-store';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toWaitlistOffer(entry: WaitlistEntry): WaitlistOffer {
+  // Offer links are shared by email, so the buyer's address is never sent back
+  return {
+    funderId: entry.funderId,
+    eventId: entry.eventId,
+    dropId: entry.dropId,
+    offerToken: entry.offerToken!,
+    expiresAt: entry.offerExpiresAt!,
+  };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getWaitlistStore();
+
+  if (req.method === 'GET') {
+    const { eventId, offerToken } = req.query;
+
+    if (typeof offerToken === 'string') {
+      const entry = await store.findOffer(offerToken);
+      if (!entry) return res.status(404).json({ message: 'Waitlist offer not found' });
+
+      if (entry.status === 'purchased') {
+        return res.status(410).json({ message: 'This waitlist offer has already been used' });
+      }
+      if (entry.status === 'claimed' && (entry.claimExpiresAt ?? 0) > Date.now()) {
+        return res.status(409).json({ message: 'A checkout for this waitlist offer is still in progress' });
+      }
+      if ((entry.status !== 'offered' && entry.status !== 'claimed') || (entry.offerExpiresAt ?? 0) <= Date.now()) {
+        return res.status(410).json({ message: 'This waitlist offer has expired' });
+      }
+
+      return res.status(200).json({ offer: toWaitlistOffer(entry) });
+    }
+
+    if (typeof eventId !== 'string') {
+      return res.status(400).json({ message: 'eventId or offerToken query param is required' });
+    }
+
+    const depth = await store.countByDrop(eventId, Date.now());
+    return res.status(200).json({ depth });
+  }
+
+  if (req.method === 'POST') {
+    const { funderId, eventId, dropId, email } = req.body ?? {};
+    if (
+      typeof funderId !== 'string' ||
+      typeof eventId !== 'string' ||
+      typeof dropId !== 'string' ||
+      typeof email !== 'string' ||
+      !EMAIL_PATTERN.test(email)
+    ) {
+      return res.status(400).json({ message: 'funderId, eventId, dropId and a valid email are required' });
+    }
+
+    if (!EVENTS_WORKER_SECRET) {
+      return res.status(503).json({ message: 'The waitlist is disabled until EVENTS_WORKER_SECRET is configured' });
+    }
+
+    try {
+      const snapshot = await loadFunderSnapshot(funderId);
+      const indexedEvent = snapshot.events.find(({ event }) => event.id === eventId);
+      const drop = snapshot.drops.find((indexed) => indexed.drop.drop_id === dropId && indexed.eventId === eventId);
+
+      if (!indexedEvent || !drop) {
+        return res.status(404).json({ message: 'Ticket not found for event' });
+      }
+      if (indexedEvent.event.cancelled) {
+        return res.status(410).json({ message: 'This event has been cancelled' });
+      }
+
+      const { entry } = await store.join({ funderId, eventId, dropId, email: email.toLowerCase() });
+
+      // Joining again before verifying resends the email, in case the first one failed or got lost
+      if (entry.status === 'unverified' && (await store.claimVerificationEmail(entry.id, Date.now()))) {
+        const ticketType = drop.drop.drop_config.nft_keys_config.token_metadata.title || 'General Admission';
+
+        try {
+          await sendWaitlistVerification(entry, indexedEvent.event.name, ticketType);
+        } catch (error) {
+          await store.releaseVerificationEmail(entry.id);
+          throw error;
+        }
+      }
+
+      // The same response either way, so the endpoint doesn't reveal who is already on the waitlist
+      return res.status(200).json({ verificationSent: true });
+    } catch (error) {
+      if (error instanceof FunderNotIndexedError) {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+
+      console.error('Failed to join waitlist', error);
+      return res.status(500).json({ message: 'Failed to join waitlist' });
+    }
+  }
+
+  if (req.method === 'PUT') {
+    // Opened from the link in the verification email
+    const { verifyToken } = req.body ?? {};
+    if (typeof verifyToken !== 'string') {
+      return res.status(400).json({ message: 'verifyToken is required' });
+    }
+
+    const verified = await store.verify(verifyToken);
+    if (!verified) return res.status(404).json({ message: 'This waitlist link is invalid' });
+
+    return res.status(200).json({ status: verified.entry.status, position: verified.position });
+  }
+
+  res.setHeader('Allow', 'GET, POST, PUT');
+  return res.status(405).json({ message: 'Method not allowed' });
+}
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { createAppleWalletPasses } from '@/utils/apple-wallet';
+import { convertToSafeFilename } from '@/utils/file';
+import {
+  loadEventDataForWallet,
+  MAX_WALLET_PASS_TICKETS,
+  parseWalletPassSecretKeys,
+  WalletPassTicketError,
+} from '@/utils/wallet-passes';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Secret keys are sent in the body since query strings end up in access and proxy logs
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const secretKeys = parseWalletPassSecretKeys(req.body);
+  if (!secretKeys) {
+    return res.status(400).json({ message: `secretKeys must list 1 to ${MAX_WALLET_PASS_TICKETS} ticket keys` });
+  }
+
+  try {
+    const eventData = await loadEventDataForWallet(secretKeys);
+    const { buffer, contentType, extension } = await createAppleWalletPasses(eventData);
+    const filename = convertToSafeFilename(eventData.event.name) || 'ticket';
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${extension}"`);
+    return res.status(200).send(buffer);
+  } catch (error) {
+    if (error instanceof WalletPassTicketError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    console.error('Failed to generate Apple Wallet pass', error);
+    return res.status(500).json({ message: 'Failed to generate Apple Wallet pass' });
+  }
+}
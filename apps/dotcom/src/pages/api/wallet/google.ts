@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { createSaveToWalletUrl } from '@/utils/google-wallet';
+import {
+  loadEventDataForWallet,
+  MAX_WALLET_PASS_TICKETS,
+  parseWalletPassSecretKeys,
+  WalletPassTicketError,
+} from '@/utils/wallet-passes';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const secretKeys = parseWalletPassSecretKeys(req.body);
+  if (!secretKeys) {
+    return res.status(400).json({ message: `secretKeys must list 1 to ${MAX_WALLET_PASS_TICKETS} ticket keys` });
+  }
+
+  try {
+    const { event, tickets } = await loadEventDataForWallet(secretKeys);
+
+    // Each ticket gets its own link so attendees can save tickets individually
+    const saveUrls = tickets.map((ticket) =>
+      createSaveToWalletUrl(event, [
+        {
+          secretKey: ticket.secretKey,
+          metadata: { title: ticket.title, description: ticket.description, artwork: ticket.artwork },
+        },
+      ]),
+    );
+
+    return res.status(200).json({ saveUrls });
+  } catch (error) {
+    if (error instanceof WalletPassTicketError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    console.error('Failed to create Google Wallet links', error);
+    return res.status(500).json({ message: 'Failed to create Google Wallet links' });
+  }
+}
@@ -0,0 +1,125 @@
+import { Button, Card, Flex, Grid, Section, Text } from '@near-pagoda/ui';
+import { DownloadSimple } from '@phosphor-icons/react';
+import { useRouter } from 'next/router';
+
+import { SeriesChart } from '@/components/analytics/SeriesChart';
+import { useEventAnalytics } from '@/hooks/useEventAnalytics';
+import { useEvent } from '@/hooks/useEvents';
+import { useDefaultLayout } from '@/hooks/useLayout';
+import { useWaitlistDepth } from '@/hooks/useWaitlist';
+import { useWalletStore } from '@/stores/wallet';
+import { exportEventAnalytics, formatNearRevenue, formatRate } from '@/utils/analytics';
+import { formatDollar } from '@/utils/dollar';
+import { parseEventIdQueryParam } from '@/utils/event';
+import { NextPageWithLayout } from '@/utils/types';
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <Card>
+    <Text size="text-s">{label}</Text>
+    <Text size="text-l" weight={600}>
+      {value}
+    </Text>
+  </Card>
+);
+
+const EventAnalyticsPage: NextPageWithLayout = () => {
+  const router = useRouter();
+  const { publisherAccountId, eventId } = parseEventIdQueryParam(router.query.id);
+  const account = useWalletStore((store) => store.account);
+  const isOrganizer = !!account && account.accountId === publisherAccountId;
+
+  const event = useEvent(isOrganizer ? publisherAccountId : undefined, eventId);
+  const analytics = useEventAnalytics(isOrganizer ? publisherAccountId : undefined, event.data ?? undefined);
+  const waitlist = useWaitlistDepth(isOrganizer ? eventId : undefined);
+
+  if (!isOrganizer) {
+    return (
+      <Section>
+        <Text>Sign in with the account that published this event to view its analytics.</Text>
+      </Section>
+    );
+  }
+
+  if (!event.data || !analytics.data) {
+    return (
+      <Section>
+        <Text>Loading analytics...</Text>
+      </Section>
+    );
+  }
+
+  const { totals, tiers, checkInSeries } = analytics.data;
+
+  return (
+    <Section>
+      <Flex direction="column" gap="l">
+        <Flex align="center" justify="space-between">
+          <Text as="h1">{event.data.name}</Text>
+          <Button
+            label="Export JSON"
+            iconLeft={<DownloadSimple />}
+            variant="secondary"
+            onClick={() => exportEventAnalytics(analytics.data!, event.data!.name)}
+          />
+        </Flex>
+
+        <Grid columns="1fr 1fr 1fr 1fr" gap="m" tablet={{ columns: '1fr 1fr' }} phone={{ columns: '1fr' }}>
+          <Stat label="Tickets sold" value={totals.sold.toString()} />
+          <Stat label="Sell-through" value={formatRate(totals.sellThroughRate)} />
+          <Stat label="Attendance" value={formatRate(totals.attendanceRate)} />
+          <Stat
+            label="Gross revenue"
+            value={`${formatDollar(totals.revenueFiat)} + ${formatNearRevenue(totals.revenueNear)}`}
+          />
+        </Grid>
+
+        <Card>
+          <Text as="h3">Sales over time</Text>
+          <SeriesChart series={tiers.map((tier) => ({ label: tier.title, points: tier.series }))} />
+        </Card>
+
+        <Card>
+          <Text as="h3">Check-ins</Text>
+          <SeriesChart series={[{ label: 'Checked in', points: checkInSeries }]} />
+        </Card>
+
+        <Card>
+          <Text as="h3">Tiers</Text>
+          {tiers.map((tier) => (
+            <Flex key={tier.dropId} justify="space-between" gap="m">
+              <Text>{tier.title}</Text>
+              <Text size="text-s">
+                {tier.sold} sold · {formatRate(tier.sellThroughRate)} sell-through · {formatRate(tier.attendanceRate)}{' '}
+                attended · {formatDollar(tier.revenueFiat)} + {formatNearRevenue(tier.revenueNear)}
+              </Text>
+            </Flex>
+          ))}
+        </Card>
+
+        {waitlist.data && Object.keys(waitlist.data).length > 0 && (
+          <Card>
+            <Text as="h3">Waitlist</Text>
+            {tiers
+              .filter((tier) => waitlist.data![tier.dropId])
+              .map((tier) => {
+                const depth = waitlist.data![tier.dropId]!;
+
+                return (
+                  <Flex key={tier.dropId} justify="space-between" gap="m">
+                    <Text>{tier.title}</Text>
+                    <Text size="text-s">
+                      {depth.waiting} waiting · {depth.offered} open offers · {depth.purchased} bought from waitlist
+                    </Text>
+                  </Flex>
+                );
+              })}
+          </Card>
+        )}
+      </Flex>
+    </Section>
+  );
+};
+
+EventAnalyticsPage.getLayout = useDefaultLayout;
+
+export default EventAnalyticsPage;
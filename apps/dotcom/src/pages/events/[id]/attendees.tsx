@@ -0,0 +1,121 @@
+import { Button, Card, Flex, handleClientError, Input, Section, Text } from '@near-pagoda/ui';
+import { DownloadSimple, LockKeyOpen } from '@phosphor-icons/react';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+
+import { useEventAttendees } from '@/hooks/useEventAttendees';
+import { useEvent } from '@/hooks/useEvents';
+import { useDefaultLayout } from '@/hooks/useLayout';
+import { useWalletStore } from '@/stores/wallet';
+import { exportEventAttendees, formatCheckInStatus } from '@/utils/attendees';
+import { parseEventIdQueryParam } from '@/utils/event';
+import { unlockEventPrivateKey } from '@/utils/questions';
+import { NextPageWithLayout } from '@/utils/types';
+
+const EventAttendeesPage: NextPageWithLayout = () => {
+  const router = useRouter();
+  const { publisherAccountId, eventId } = parseEventIdQueryParam(router.query.id);
+  const account = useWalletStore((store) => store.account);
+  const isOrganizer = !!account && account.accountId === publisherAccountId;
+  const [passphrase, setPassphrase] = useState('');
+  const [privateKey, setPrivateKey] = useState<CryptoKey | null>(null);
+
+  const event = useEvent(isOrganizer ? publisherAccountId : undefined, eventId);
+  const attendees = useEventAttendees(
+    isOrganizer ? publisherAccountId : undefined,
+    event.data ?? undefined,
+    privateKey,
+  );
+
+  async function unlockAnswers() {
+    if (!event.data) return;
+
+    try {
+      setPrivateKey(await unlockEventPrivateKey(event.data, passphrase));
+    } catch (error) {
+      handleClientError({ title: 'Failed to unlock answers', error });
+    }
+  }
+
+  if (!isOrganizer) {
+    return (
+      <Section>
+        <Text>Sign in with the account that published this event to view its attendees.</Text>
+      </Section>
+    );
+  }
+
+  if (!event.data || !attendees.data) {
+    return (
+      <Section>
+        <Text>Loading attendees...</Text>
+      </Section>
+    );
+  }
+
+  const hasQuestions = !!event.data.questions?.length;
+
+  return (
+    <Section>
+      <Flex direction="column" gap="l">
+        <Text as="h1">{event.data.name} Attendees</Text>
+
+        {hasQuestions && !privateKey && (
+          <Card>
+            <Text size="text-s">Enter the event&apos;s passphrase to include question answers in exports.</Text>
+            <Flex align="end" gap="m">
+              <Input
+                label="Passphrase"
+                name="passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <Button label="Unlock" iconLeft={<LockKeyOpen />} variant="secondary" onClick={unlockAnswers} />
+            </Flex>
+          </Card>
+        )}
+
+        <Flex gap="m" wrap>
+          <Button
+            label="CSV"
+            iconLeft={<DownloadSimple />}
+            variant="secondary"
+            onClick={() => exportEventAttendees(event.data!, attendees.data!, 'csv')}
+          />
+          <Button
+            label="Excel CSV"
+            iconLeft={<DownloadSimple />}
+            variant="secondary"
+            onClick={() => exportEventAttendees(event.data!, attendees.data!, 'xlsx-csv')}
+          />
+          <Button
+            label="Door List PDF"
+            iconLeft={<DownloadSimple />}
+            variant="affirmative"
+            onClick={() => exportEventAttendees(event.data!, attendees.data!, 'pdf')}
+          />
+        </Flex>
+
+        <Card>
+          <Text size="text-s">
+            {attendees.data.length} tickets · {attendees.data.filter((attendee) => attendee.entriesUsed > 0).length}{' '}
+            checked in
+          </Text>
+          {attendees.data.map((attendee) => (
+            <Flex key={attendee.publicKey} justify="space-between" gap="m">
+              <Text>{attendee.email ?? attendee.publicKey.replace('ed25519:', '').slice(0, 12)}</Text>
+              <Text size="text-s">
+                {attendee.tier} · {formatCheckInStatus(attendee)}
+              </Text>
+            </Flex>
+          ))}
+        </Card>
+      </Flex>
+    </Section>
+  );
+};
+
+EventAttendeesPage.getLayout = useDefaultLayout;
+
+export default EventAttendeesPage;
@@ -0,0 +1,175 @@
+import { Flex, Section, Text } from '@near-pagoda/ui';
+import type { GetStaticPaths, GetStaticProps } from 'next';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+
+import { WaitlistForm } from '@/components/waitlist/WaitlistForm';
+import { useDefaultLayout } from '@/hooks/useLayout';
+import { useNearCheckoutConfirmation } from '@/hooks/useNearCheckout';
+import { useWaitlistOffer, useWaitlistVerification } from '@/hooks/useWaitlist';
+import { displayEventDate } from '@/utils/date';
+import { formatTicketPrice } from '@/utils/dollar';
+import { parseEventIdQueryParam } from '@/utils/event';
+import type { FunderEventMetadata, TicketMetadataExtra } from '@/utils/helpers';
+import { type IndexedDrop, loadFunderSnapshot } from '@/utils/indexer';
+import { fetchEventFromJsonRpc } from '@/utils/rpc';
+import { buildEventSeo, type EventSeo } from '@/utils/seo';
+import { NextPageWithLayout } from '@/utils/types';
+
+// Pages are also rebuilt on demand when the indexer sees sales change, this is only a backstop
+const REVALIDATE_SECONDS = 300;
+
+type Props = {
+  event: FunderEventMetadata;
+  drops: IndexedDrop[];
+  seo: EventSeo;
+};
+
+async function loadEvent(publisherAccountId: string, eventId: string) {
+  try {
+    const snapshot = await loadFunderSnapshot(publisherAccountId);
+    const indexedEvent = snapshot.events.find(({ event }) => event.id === eventId);
+
+    if (indexedEvent) {
+      return { event: indexedEvent.event, drops: snapshot.drops.filter((drop) => drop.eventId === eventId) };
+    }
+  } catch (error) {
+    console.error(`Failed to load indexed event: ${eventId}`, error);
+  }
+
+  /*
+    Events created since the funder was last indexed aren't in the snapshot yet, and the indexer
+    may be down. The page can still render without ticket tiers until the next poll rebuilds it.
+  */
+
+  const event = await fetchEventFromJsonRpc(publisherAccountId, eventId);
+  return event ? { event, drops: [] } : null;
+}
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  // Events are generated on their first request and cached after that
+  return { paths: [], fallback: 'blocking' };
+};
+
+export const getStaticProps: GetStaticProps<Props> = async ({ params }) => {
+  const { publisherAccountId, eventId } = parseEventIdQueryParam(params?.id);
+  if (!publisherAccountId || !eventId) return { notFound: true };
+
+  const loaded = await loadEvent(publisherAccountId, eventId);
+  if (!loaded) return { notFound: true, revalidate: REVALIDATE_SECONDS };
+
+  return {
+    props: {
+      ...loaded,
+      // Props have to be serializable, so optional JSON-LD fields that are undefined are dropped
+      seo: JSON.parse(JSON.stringify(buildEventSeo(publisherAccountId, loaded.event, loaded.drops))) as EventSeo,
+    },
+    revalidate: REVALIDATE_SECONDS,
+  };
+};
+
+const EventPage: NextPageWithLayout<Props> = ({ event, drops, seo }) => {
+  const router = useRouter();
+  const { dateAndTime } = displayEventDate(event);
+
+  // Waitlist offer emails link back here with the offer's token
+  const offerToken = typeof router.query.waitlistOffer === 'string' ? router.query.waitlistOffer : undefined;
+  const waitlistOffer = useWaitlistOffer(offerToken);
+  const offeredDrop = drops.find((drop) => drop.drop.drop_id === waitlistOffer.data?.dropId);
+
+  // And the email sent when joining the waitlist links back with the entry's verification token
+  const verifyToken = typeof router.query.waitlistVerify === 'string' ? router.query.waitlistVerify : undefined;
+  const waitlistVerification = useWaitlistVerification(verifyToken);
+
+  // Wallets that redirect to sign return here with the hashes of the NEAR checkout's transactions
+  const transactionHashes =
+    typeof router.query.transactionHashes === 'string' ? router.query.transactionHashes : undefined;
+  const nearCheckout = useNearCheckoutConfirmation(transactionHashes);
+
+  return (
+    <>
+      <Head>
+        <title>{`${seo.title} | Divvy`}</title>
+        <meta name="description" content={seo.description} />
+        <link rel="canonical" href={seo.url} />
+
+        <meta property="og:type" content="website" />
+        <meta property="og:title" content={seo.title} />
+        <meta property="og:description" content={seo.description} />
+        <meta property="og:url" content={seo.url} />
+        {seo.imageUrl && <meta property="og:image" content={seo.imageUrl} />}
+
+        <meta name="twitter:card" content={seo.imageUrl ? 'summary_large_image' : 'summary'} />
+        <meta name="twitter:title" content={seo.title} />
+        <meta name="twitter:description" content={seo.description} />
+        {seo.imageUrl && <meta name="twitter:image" content={seo.imageUrl} />}
+
+        <script
+          type="application/ld+json"
+          // Escaping "<" keeps event text from closing the script tag early
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(seo.jsonLd).replace(/</g, '\\u003c') }}
+        />
+      </Head>
+
+      <Section>
+        <Flex direction="column" gap="l">
+          {seo.imageUrl && <img src={seo.imageUrl} alt={event.name} style={{ width: '100%', borderRadius: '6px' }} />}
+
+          <Flex direction="column" gap="s">
+            <Text as="h1">{event.name}</Text>
+            {event.cancelled && <Text color="red-10">This event has been cancelled</Text>}
+            <Text>{dateAndTime}</Text>
+            <Text>{event.location}</Text>
+          </Flex>
+
+          {event.description && <Text>{event.description}</Text>}
+
+          {waitlistOffer.data && offeredDrop && (
+            <Text color="violet-11">
+              A {offeredDrop.drop.drop_config.nft_keys_config.token_metadata.title || 'General Admission'} ticket is
+              being held for you until {new Date(waitlistOffer.data.expiresAt).toLocaleString()}.
+            </Text>
+          )}
+
+          {waitlistVerification.data?.position && (
+            <Text color="violet-11">
+              You&apos;re #{waitlistVerification.data.position} on the waitlist. We&apos;ll email you a time-limited
+              offer if a ticket frees up.
+            </Text>
+          )}
+
+          {nearCheckout.data === 'completed' && <Text color="violet-11">Your tickets were purchased.</Text>}
+
+          {drops.length > 0 && (
+            <Flex direction="column" gap="s">
+              <Text as="h2">Tickets</Text>
+              {drops.map((drop) => {
+                const metadata = drop.drop.drop_config.nft_keys_config.token_metadata;
+                const extra = metadata.extra ? (JSON.parse(metadata.extra) as TicketMetadataExtra) : undefined;
+                if (extra?.hidden) return null;
+
+                const soldOut = !!extra?.maxSupply && drop.sold >= extra.maxSupply;
+
+                return (
+                  <Flex key={drop.drop.drop_id} direction="column" gap="s">
+                    <Flex justify="space-between">
+                      <Text>{metadata.title || 'General Admission'}</Text>
+                      <Text>{soldOut ? 'Sold out' : formatTicketPrice(extra?.priceFiat)}</Text>
+                    </Flex>
+                    {soldOut && !event.cancelled && (
+                      <WaitlistForm funderId={drop.drop.funder_id} eventId={event.id} dropId={drop.drop.drop_id} />
+                    )}
+                  </Flex>
+                );
+              })}
+            </Flex>
+          )}
+        </Flex>
+      </Section>
+    </>
+  );
+};
+
+EventPage.getLayout = useDefaultLayout;
+
+export default EventPage;
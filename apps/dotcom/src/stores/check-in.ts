@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+
+import type { QueuedScanCounts } from '@/utils/check-in-queue';
+
+type CheckInStore = {
+  counts: QueuedScanCounts;
+  isProcessing: boolean;
+
+  setCounts: (counts: QueuedScanCounts) => void;
+  setIsProcessing: (isProcessing: boolean) => void;
+};
+
+export const useCheckInStore = create<CheckInStore>((set) => ({
+  counts: {
+    pending: 0,
+    claimed: 0,
+    failed: 0,
+  },
+  isProcessing: false,
+
+  setCounts: (counts) => set({ counts }),
+  setIsProcessing: (isProcessing) => set({ isProcessing }),
+}));
@@ -4,8 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { create } from 'zustand';
 
 import { EVENTS_WORKER_BASE, KEYPOM_MARKETPLACE_CONTRACT_ID } from '@/utils/config';
-
-import { useNearStore } from './near';
+import { viewFunction } from '@/utils/rpc';
 
 type StripeStore = {
   stripeAccountId: string | null;
@@ -41,17 +40,14 @@ export const useStripeStore = create<StripeStore>((set) => ({
   },
 
   useStripe: (accountId: string | undefined, attemptToConnect: boolean) => {
-    const viewAccount = useNearStore((store) => store.viewAccount);
     const setStripeAccountId = useStripeStore((store) => store.setStripeAccountId);
 
     const query: any = useQuery({
-      enabled: !!viewAccount && !!accountId && attemptToConnect,
+      enabled: !!accountId && attemptToConnect,
       queryKey: ['stripe', accountId],
       queryFn: async () => {
         try {
-          if (!viewAccount) throw new Error('View account has not initialized yet');
-
-          let stripeAccountId = await viewAccount.viewFunction({
+          let stripeAccountId = await viewFunction({
             contractId: KEYPOM_MARKETPLACE_CONTRACT_ID,
             methodName: 'get_stripe_id_for_account',
             args: { account_id: accountId },
@@ -0,0 +1,100 @@
+import { DateTime } from 'luxon';
+import { describe, expect, it } from 'vitest';
+
+import { getEntriesUsed, hasBeenScanned, resolveAdmissionEntry } from './admissions';
+import type { DateAndTimeInfo, TicketMetadataExtra } from './helpers';
+
+const createWindow = (startDate: string, endDate: string, timeZone: string): DateAndTimeInfo => ({
+  startDate: DateTime.fromISO(startDate, { zone: timeZone }).toMillis(),
+  startTime: DateTime.fromISO(startDate).toFormat('HH:mm'),
+  endDate: DateTime.fromISO(endDate, { zone: timeZone }).toMillis(),
+  endTime: DateTime.fromISO(endDate).toFormat('HH:mm'),
+  timeZone,
+});
+
+const at = (isoTime: string) => DateTime.fromISO(isoTime) as DateTime<true>;
+
+const createExtra = (extra: Partial<TicketMetadataExtra>): TicketMetadataExtra => ({
+  eventId: '1714000000000',
+  dateCreated: '1714000000000',
+  salesValidThrough: createWindow('2026-03-01T09:00', '2026-03-06T09:00', 'America/Los_Angeles'),
+  ...extra,
+});
+
+describe('getEntriesUsed', () => {
+  it('counts the uses taken from the admissions plus the key that is kept alive', () => {
+    const single = createExtra({});
+    expect(getEntriesUsed(single, 2)).toBe(0);
+    expect(getEntriesUsed(single, 1)).toBe(1);
+    expect(hasBeenScanned(single, 1)).toBe(true);
+
+    const pass = createExtra({ admissions: 3 });
+    expect(getEntriesUsed(pass, 4)).toBe(0);
+    expect(getEntriesUsed(pass, 2)).toBe(2);
+    expect(getEntriesUsed(pass, 1)).toBe(3);
+    expect(hasBeenScanned(pass, 4)).toBe(false);
+  });
+
+  it('never goes below zero for keys with extra uses', () => {
+    expect(getEntriesUsed(createExtra({ admissions: 2 }), 10)).toBe(0);
+  });
+});
+
+describe('resolveAdmissionEntry', () => {
+  it("doesn't need an entry id for single admission tickets", () => {
+    expect(resolveAdmissionEntry(createExtra({}), 2)).toEqual({ entry: { number: 1, total: 1 }, entryId: null });
+  });
+
+  it('gives each entry of a per-entry pass its own id', () => {
+    const extra = createExtra({ admissions: 3 });
+
+    expect(resolveAdmissionEntry(extra, 4)).toEqual({ entry: { number: 1, total: 3 }, entryId: 'entry-1' });
+    expect(resolveAdmissionEntry(extra, 3)).toEqual({ entry: { number: 2, total: 3 }, entryId: 'entry-2' });
+  });
+
+  it('starts each day of a per-day pass at midnight in the event zone', () => {
+    const extra = createExtra({
+      admissions: 3,
+      admissionRule: 'per-day',
+      passValidThrough: createWindow('2026-03-06T00:00', '2026-03-09T23:59', 'America/Los_Angeles'),
+    });
+
+    // 23:30 on the 7th in Los Angeles is already the 8th in UTC
+    expect(resolveAdmissionEntry(extra, 4, at('2026-03-08T07:30:00Z')).entryId).toBe('2026-03-07');
+    expect(resolveAdmissionEntry(extra, 4, at('2026-03-08T08:30:00Z')).entryId).toBe('2026-03-08');
+
+    // Midnight moves with the offset, on the 8th clocks spring forward in Los Angeles
+    expect(resolveAdmissionEntry(extra, 4, at('2026-03-09T06:30:00Z')).entryId).toBe('2026-03-08');
+    expect(resolveAdmissionEntry(extra, 4, at('2026-03-09T07:30:00Z')).entryId).toBe('2026-03-09');
+  });
+
+  it('falls back to the sales window zone for per-day passes without a pass window', () => {
+    const extra = createExtra({
+      admissions: 2,
+      admissionRule: 'per-day',
+      salesValidThrough: createWindow('2026-03-01T09:00', '2026-03-06T09:00', 'Australia/Sydney'),
+    });
+
+    expect(resolveAdmissionEntry(extra, 3, at('2026-03-07T13:30:00Z')).entryId).toBe('2026-03-08');
+  });
+
+  it('admits series passes into the session that is on', () => {
+    const timeZone = 'Europe/London';
+    const extra = createExtra({
+      sessions: [
+        { id: 'week-1', date: createWindow('2026-03-02T18:00', '2026-03-02T21:00', timeZone) },
+        { id: 'week-2', date: createWindow('2026-03-09T18:00', '2026-03-09T21:00', timeZone) },
+      ],
+    });
+
+    expect(resolveAdmissionEntry(extra, 2, at('2026-03-09T19:00:00Z'))).toEqual({
+      entry: { number: 2, total: 2 },
+      entryId: 'week-2',
+    });
+    expect(resolveAdmissionEntry(extra, 3, at('2026-03-05T19:00:00Z'))).toEqual({
+      entry: { number: 1, total: 2 },
+      entryId: null,
+      message: 'No session for this ticket is on right now',
+    });
+  });
+});
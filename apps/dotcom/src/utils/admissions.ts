@@ -0,0 +1,55 @@
+import { DateTime } from 'luxon';
+
+import type { TicketMetadataExtra } from './helpers';
+import { findCurrentSession } from './recurrence';
+
+export type AdmissionRule = 'per-entry' | 'per-day' | 'per-session';
+
+export function getTotalAdmissions(extra: TicketMetadataExtra) {
+  return extra.admissions ?? extra.sessions?.length ?? 1;
+}
+
+export function getAdmissionRule(extra: TicketMetadataExtra): AdmissionRule {
+  return extra.admissionRule ?? (extra.sessions ? 'per-session' : 'per-entry');
+}
+
+export function getEntriesUsed(extra: TicketMetadataExtra, usesRemaining: number) {
+  /*
+    Keys are created with one use per admission plus an extra use so the key and its
+    metadata aren't deleted after the last scan.
+  */
+
+  return Math.max(0, getTotalAdmissions(extra) + 1 - usesRemaining);
+}
+
+export function hasBeenScanned(extra: TicketMetadataExtra, usesRemaining: number) {
+  return getEntriesUsed(extra, usesRemaining) > 0;
+}
+
+export function resolveAdmissionEntry(extra: TicketMetadataExtra, usesRemaining: number, now = DateTime.now()) {
+  const total = getTotalAdmissions(extra);
+  const entriesUsed = getEntriesUsed(extra, usesRemaining);
+  const entry = { number: entriesUsed + 1, total };
+
+  // Single admission tickets don't need an entry id since they can only be checked in once
+  if (total === 1) {
+    return { entry, entryId: null };
+  }
+
+  switch (getAdmissionRule(extra)) {
+    case 'per-session': {
+      const session = findCurrentSession(extra.sessions ?? [], now);
+      if (!session) return { entry, entryId: null, message: 'No session for this ticket is on right now' };
+      return { entry, entryId: session.id };
+    }
+
+    case 'per-day': {
+      // Calendar days are counted in the event's zone so every door agrees on when a day starts
+      const zone = extra.passValidThrough?.timeZone ?? extra.salesValidThrough.timeZone ?? 'local';
+      return { entry, entryId: now.setZone(zone).toISODate() };
+    }
+
+    case 'per-entry':
+      return { entry, entryId: `entry-${entry.number}` };
+  }
+}
@@ -0,0 +1,102 @@
+import { neon } from '@neondatabase/serverless';
+
+import { DATABASE_URL } from './config';
+
+/*
+  NOTE: This module is server only. It records ticket purchases and check-ins as they
+  happen so organizers can see sales over time, which the contracts don't keep track of.
+  Purchases are recorded when their checkout completes and check-ins once their signature
+  is verified, never from figures a browser sends.
+*/
+
+export type AnalyticsEntryType = 'purchase' | 'check-in';
+
+export type AnalyticsPaymentMethod = 'free' | 'stripe' | 'near';
+
+export type AnalyticsEntry = {
+  id: string; // Unique per purchase or check-in so retries are only counted once
+  type: AnalyticsEntryType;
+  funderId: string;
+  eventId: string;
+  dropId: string;
+  quantity: number;
+  amountFiat?: number; // Dollars, total for the purchase after any promo code discount
+  amountNear?: string; // Yocto, total for the purchase
+  paymentMethod?: AnalyticsPaymentMethod;
+  publicKey?: string; // Set for check-ins so attendance counts each ticket once
+  recordedAt: number; // Milliseconds from Unix Epoch
+};
+
+export interface AnalyticsLogStore {
+  recordEntry: (entry: AnalyticsEntry) => Promise<{ recorded: boolean }>;
+  listEntries: (funderId: string, eventId: string) => Promise<AnalyticsEntry[]>;
+}
+
+export function createMemoryAnalyticsLogStore(): AnalyticsLogStore {
+  const entries = new Map<string, AnalyticsEntry>();
+
+  return {
+    recordEntry: async (entry) => {
+      if (entries.has(entry.id)) return { recorded: false };
+
+      entries.set(entry.id, entry);
+      return { recorded: true };
+    },
+
+    listEntries: async (funderId, eventId) => {
+      return [...entries.values()]
+        .filter((entry) => entry.funderId === funderId && entry.eventId === eventId)
+        .sort((a, b) => a.recordedAt - b.recordedAt);
+    },
+  };
+}
+
+export function createNeonAnalyticsLogStore(databaseUrl: string): AnalyticsLogStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= sql`
+      create table if not exists analytics_entries (
+        id text primary key,
+        funder_id text not null,
+        event_id text not null,
+        entry text not null,
+        recorded_at bigint not null
+      )
+    `;
+    return tablePromise;
+  };
+
+  return {
+    recordEntry: async (entry) => {
+      await ensureTable();
+
+      const rows = await sql`
+        insert into analytics_entries (id, funder_id, event_id, entry, recorded_at)
+        values (${entry.id}, ${entry.funderId}, ${entry.eventId}, ${JSON.stringify(entry)}, ${entry.recordedAt})
+        on conflict (id) do nothing
+        returning id
+      `;
+
+      return { recorded: rows.length > 0 };
+    },
+
+    listEntries: async (funderId, eventId) => {
+      await ensureTable();
+      const rows = (await sql`
+        select entry from analytics_entries
+        where funder_id = ${funderId} and event_id = ${eventId}
+        order by recorded_at asc
+      `) as { entry: string }[];
+      return rows.map((row) => JSON.parse(row.entry) as AnalyticsEntry);
+    },
+  };
+}
+
+let store: AnalyticsLogStore | null = null;
+
+export function getAnalyticsLogStore() {
+  store ??= DATABASE_URL ? createNeonAnalyticsLogStore(DATABASE_URL) : createMemoryAnalyticsLogStore();
+  return store;
+}
@@ -0,0 +1,174 @@
+import { DateTime } from 'luxon';
+import { formatNearAmount } from 'near-api-js/lib/utils/format';
+
+import type { TicketDrop } from '@/hooks/useDrops';
+
+import type { AnalyticsEntry } from './analytics-log';
+import { convertToSafeFilename, downloadFile } from './file';
+import { getOrganizerAuthHeader } from './organizer-auth';
+import type { WalletStore } from './types';
+
+export type AnalyticsSeriesPoint = {
+  date: string; // ISO date (YYYY-MM-DD) in the event's time zone
+  quantity: number;
+  cumulative: number;
+};
+
+export type TierAnalytics = {
+  dropId: string;
+  title: string;
+  sold: number;
+  capacity: number | null;
+  sellThroughRate: number | null; // 0 - 1, null for tiers without a max supply
+  checkedIn: number;
+  attendanceRate: number | null; // 0 - 1, null until a ticket has been sold
+  revenueFiat: number; // Dollars
+  revenueNear: string; // Yocto
+  series: AnalyticsSeriesPoint[];
+};
+
+export type EventAnalytics = {
+  eventId: string;
+  generatedAt: string;
+  totals: Omit<TierAnalytics, 'dropId' | 'title' | 'series'>;
+  tiers: TierAnalytics[];
+  checkInSeries: AnalyticsSeriesPoint[];
+};
+
+type BuildEventAnalyticsOptions = {
+  eventId: string;
+  drops: TicketDrop[];
+  entries: AnalyticsEntry[];
+  timeZone?: string;
+};
+
+export async function fetchAnalyticsEntries({
+  funderId,
+  eventId,
+  wallet,
+}: {
+  funderId: string;
+  eventId: string;
+  wallet: WalletStore['wallet'];
+}) {
+  const response = await fetch(
+    `/api/analytics?funderId=${encodeURIComponent(funderId)}&eventId=${encodeURIComponent(eventId)}`,
+    {
+      headers: {
+        Authorization: await getOrganizerAuthHeader({ accountId: funderId, wallet }),
+      },
+    },
+  );
+
+  if (!response.ok) throw new Error(`Analytics request failed with status: ${response.status}`);
+
+  const data: { entries: AnalyticsEntry[] } = await response.json();
+  return data.entries;
+}
+
+function buildSeries(entries: AnalyticsEntry[], timeZone: string) {
+  const quantityByDate = new Map<string, number>();
+
+  entries.forEach((entry) => {
+    const date = DateTime.fromMillis(entry.recordedAt, { zone: timeZone }).toISODate()!;
+    quantityByDate.set(date, (quantityByDate.get(date) ?? 0) + entry.quantity);
+  });
+
+  let cumulative = 0;
+
+  return [...quantityByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, quantity]): AnalyticsSeriesPoint => {
+      cumulative += quantity;
+      return { date, quantity, cumulative };
+    });
+}
+
+function divide(numerator: number, denominator: number | null) {
+  return denominator ? numerator / denominator : null;
+}
+
+function countUniqueCheckIns(entries: AnalyticsEntry[]) {
+  // Passes with several admissions are checked in once per entry, but the holder only counts once
+  return new Set(entries.map((entry) => entry.publicKey ?? entry.id)).size;
+}
+
+function buildTierAnalytics(drop: TicketDrop, entries: AnalyticsEntry[], timeZone: string): TierAnalytics {
+  const purchases = entries.filter((entry) => entry.type === 'purchase' && entry.dropId === drop.drop_id);
+  const checkIns = entries.filter((entry) => entry.type === 'check-in' && entry.dropId === drop.drop_id);
+
+  const sold = drop.ticket.sold;
+  const capacity = drop.ticket.extra?.maxSupply || null;
+  const checkedIn = countUniqueCheckIns(checkIns);
+
+  /*
+    NOTE: Revenue is what checkouts actually charged, discounts included. Tickets bought by
+    calling the marketplace contract directly never go through a checkout, so they count
+    towards sold but not towards revenue.
+  */
+
+  const revenueFiat = Math.round(purchases.reduce((total, entry) => total + (entry.amountFiat ?? 0), 0) * 100) / 100;
+  const revenueNear = purchases.reduce((total, entry) => total + BigInt(entry.amountNear ?? '0'), BigInt(0));
+
+  return {
+    dropId: drop.drop_id,
+    title: drop.ticket.title,
+    sold,
+    capacity,
+    sellThroughRate: divide(sold, capacity),
+    checkedIn,
+    attendanceRate: divide(checkedIn, sold),
+    revenueFiat,
+    revenueNear: revenueNear.toString(),
+    series: buildSeries(purchases, timeZone),
+  };
+}
+
+export function buildEventAnalytics({ eventId, drops, entries, timeZone = 'local' }: BuildEventAnalyticsOptions) {
+  const tiers = drops.map((drop) => buildTierAnalytics(drop, entries, timeZone));
+
+  const sold = tiers.reduce((total, tier) => total + tier.sold, 0);
+  const checkedIn = tiers.reduce((total, tier) => total + tier.checkedIn, 0);
+
+  // Sell-through is only meaningful if every tier has a max supply
+  const capacity = tiers.every((tier) => tier.capacity)
+    ? tiers.reduce((total, tier) => total + tier.capacity!, 0)
+    : null;
+
+  const analytics: EventAnalytics = {
+    eventId,
+    generatedAt: new Date().toISOString(),
+    totals: {
+      sold,
+      capacity,
+      sellThroughRate: divide(sold, capacity),
+      checkedIn,
+      attendanceRate: divide(checkedIn, sold),
+      revenueFiat: tiers.reduce((total, tier) => total + tier.revenueFiat, 0),
+      revenueNear: tiers.reduce((total, tier) => total + BigInt(tier.revenueNear), BigInt(0)).toString(),
+    },
+    tiers,
+    checkInSeries: buildSeries(
+      entries.filter((entry) => entry.type === 'check-in'),
+      timeZone,
+    ),
+  };
+
+  return analytics;
+}
+
+export function formatRate(rate: number | null) {
+  return rate === null ? 'N/A' : `${Math.round(rate * 100)}%`;
+}
+
+export function formatNearRevenue(yocto: string) {
+  return `${formatNearAmount(yocto, 2)} NEAR`;
+}
+
+export function exportEventAnalytics(analytics: EventAnalytics, eventName: string) {
+  downloadFile(
+    JSON.stringify(analytics, null, 2),
+    `${convertToSafeFilename(eventName)}-analytics.json`,
+    'application/json',
+  );
+}
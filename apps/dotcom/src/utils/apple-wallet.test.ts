@@ -0,0 +1,136 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import JSZip from 'jszip';
+import { KeyPair } from 'near-api-js';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { createAppleWalletPass, createAppleWalletPasses } from './apple-wallet';
+import type { FunderEventMetadata } from './helpers';
+import type { EventDataForWallet } from './wallet';
+
+vi.hoisted(() => {
+  // Read by config.ts when the module is imported
+  process.env.APPLE_WALLET_TEAM_IDENTIFIER = 'TESTTEAM';
+});
+
+const event: FunderEventMetadata = {
+  id: '1717013187496',
+  name: 'Rooftop Jazz',
+  location: '1 Harbor St',
+  date: {
+    startDate: Date.UTC(2030, 5, 1),
+    startTime: '19:00',
+    endDate: Date.UTC(2030, 5, 1),
+    endTime: '22:00',
+    timeZone: 'America/New_York',
+  },
+  timeZone: 'America/New_York',
+  artwork: '',
+  dateCreated: '1717013187496',
+};
+
+function createTicket(title: string): EventDataForWallet['tickets'][number] {
+  return {
+    title,
+    description: `${title} admission`,
+    secretKey: KeyPair.fromRandom('ed25519').toString(),
+    extra: { eventId: event.id, dateCreated: event.dateCreated } as EventDataForWallet['tickets'][number]['extra'],
+  };
+}
+
+describe('createAppleWalletPass', () => {
+  let directory: string;
+  let certificate: { pem: string };
+  let certificatePem: string;
+
+  beforeAll(() => {
+    // A throwaway self-signed certificate stands in for the Apple issued pass certificate
+    directory = mkdtempSync(path.join(tmpdir(), 'apple-wallet-'));
+    const keyPath = path.join(directory, 'key.pem');
+    const certPath = path.join(directory, 'cert.pem');
+
+    execFileSync(
+      'openssl',
+      [
+        'req',
+        '-x509',
+        '-newkey',
+        'rsa:2048',
+        '-nodes',
+        '-keyout',
+        keyPath,
+        '-out',
+        certPath,
+        '-days',
+        '1',
+        '-subj',
+        '/CN=Pass Type ID: pass.com.pagoda.ticketing/OU=TESTTEAM/O=Pagoda Ticketing Test',
+      ],
+      { stdio: 'pipe' },
+    );
+
+    certificatePem = readFileSync(certPath, 'utf8');
+    certificate = { pem: `${certificatePem}${readFileSync(keyPath, 'utf8')}` };
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('signs an event ticket pass with the secret key as its QR barcode', async () => {
+    const ticket = createTicket('VIP');
+    const buffer = await createAppleWalletPass({ event, ticket }, certificate);
+    const zip = await JSZip.loadAsync(buffer);
+    const pass = JSON.parse(await zip.file('pass.json')!.async('string'));
+
+    expect(pass.barcodes[0]).toMatchObject({ format: 'PKBarcodeFormatQR', message: ticket.secretKey });
+    expect(pass.eventTicket.primaryFields).toContainEqual(
+      expect.objectContaining({ key: 'event', value: 'Rooftop Jazz' }),
+    );
+    expect(pass.eventTicket.secondaryFields).toContainEqual(
+      expect.objectContaining({ key: 'venue', value: '1 Harbor St' }),
+    );
+    expect(pass.eventTicket.auxiliaryFields).toContainEqual(expect.objectContaining({ key: 'tier', value: 'VIP' }));
+    expect(pass.serialNumber).toBe(
+      KeyPair.fromString(ticket.secretKey).getPublicKey().toString().replace('ed25519:', ''),
+    );
+
+    expect(zip.file('manifest.json')).toBeTruthy();
+    expect(zip.file('signature')).toBeTruthy();
+    expect(zip.file('icon@2x.png')).toBeTruthy();
+  });
+
+  it('signs the manifest with the configured certificate', async () => {
+    const buffer = await createAppleWalletPass({ event, ticket: createTicket('General Admission') }, certificate);
+    const zip = await JSZip.loadAsync(buffer);
+    const manifest = await zip.file('manifest.json')!.async('nodebuffer');
+    const signature = await zip.file('signature')!.async('nodebuffer');
+
+    const manifestPath = path.join(directory, 'manifest.json');
+    const signaturePath = path.join(directory, 'signature');
+    writeFileSync(manifestPath, manifest);
+    writeFileSync(signaturePath, signature);
+
+    // Throws if the detached PKCS #7 signature doesn't match the manifest (the chain itself is self-signed)
+    expect(() =>
+      execFileSync(
+        'openssl',
+        ['smime', '-verify', '-binary', '-noverify', '-inform', 'DER', '-in', signaturePath, '-content', manifestPath],
+        { stdio: 'pipe' },
+      ),
+    ).not.toThrow();
+  });
+
+  it('bundles several tickets into a .pkpasses file', async () => {
+    const result = await createAppleWalletPasses(
+      { event, tickets: [createTicket('VIP'), createTicket('General Admission')] },
+      certificate,
+    );
+    const zip = await JSZip.loadAsync(result.buffer);
+
+    expect(result.extension).toBe('pkpasses');
+    expect(Object.keys(zip.files).sort()).toEqual(['ticket-1.pkpass', 'ticket-2.pkpass']);
+  });
+});
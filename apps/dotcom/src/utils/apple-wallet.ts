@@ -0,0 +1,139 @@
+import { getPubFromSecret } from '@keypom/core';
+import { Template } from '@walletpass/pass-js';
+import type { ImageDensity, ImageType } from '@walletpass/pass-js/dist/lib/images';
+import JSZip from 'jszip';
+import path from 'path';
+
+import {
+  APPLE_WALLET_CERTIFICATE_PASSWORD,
+  APPLE_WALLET_CERTIFICATE_PEM,
+  APPLE_WALLET_PASS_TYPE_IDENTIFIER,
+  APPLE_WALLET_TEAM_IDENTIFIER,
+} from './config';
+import { displayEventDate, parseEventDate } from './date';
+import type { EventDataForWallet } from './wallet';
+
+/*
+  NOTE: This module is server only since it signs passes with our Apple Wallet certificate.
+*/
+
+const APPLE_WALLET_IMAGES_PATH = path.join(process.cwd(), 'public', 'images', 'apple-wallet');
+const APPLE_WALLET_IMAGE_TYPES: ImageType[] = ['icon', 'logo', 'thumbnail'];
+const APPLE_WALLET_IMAGE_DENSITIES: ImageDensity[] = ['1x', '2x', '3x'];
+
+type AppleWalletCertificate = {
+  pem: string;
+  password?: string;
+};
+
+const templatePromises = new Map<string, Promise<Template>>();
+
+async function loadTemplate({ pem, password }: AppleWalletCertificate) {
+  const template = new Template('eventTicket', {
+    passTypeIdentifier: APPLE_WALLET_PASS_TYPE_IDENTIFIER,
+    teamIdentifier: APPLE_WALLET_TEAM_IDENTIFIER,
+    organizationName: 'Pagoda Ticketing',
+    backgroundColor: 'rgb(255, 255, 255)',
+    foregroundColor: 'rgb(0, 0, 0)',
+    labelColor: 'rgb(111, 110, 119)',
+    sharingProhibited: true,
+  });
+
+  // Our assets use an explicit @1x suffix, which images.load() doesn't recognize
+  for (const imageType of APPLE_WALLET_IMAGE_TYPES) {
+    for (const density of APPLE_WALLET_IMAGE_DENSITIES) {
+      await template.images.add(imageType, path.join(APPLE_WALLET_IMAGES_PATH, `${imageType}@${density}.png`), density);
+    }
+  }
+
+  template.setCertificate(pem, password);
+
+  return template;
+}
+
+function getTemplate(certificate?: AppleWalletCertificate) {
+  const resolvedCertificate = certificate ?? {
+    pem: APPLE_WALLET_CERTIFICATE_PEM ?? '',
+    password: APPLE_WALLET_CERTIFICATE_PASSWORD || undefined,
+  };
+
+  if (!resolvedCertificate.pem) {
+    throw new Error('Apple Wallet certificate is not configured');
+  }
+
+  let templatePromise = templatePromises.get(resolvedCertificate.pem);
+
+  if (!templatePromise) {
+    templatePromise = loadTemplate(resolvedCertificate);
+    templatePromise.catch(() => templatePromises.delete(resolvedCertificate.pem));
+    templatePromises.set(resolvedCertificate.pem, templatePromise);
+  }
+
+  return templatePromise;
+}
+
+export async function createAppleWalletPass(
+  { event, ticket }: { event: EventDataForWallet['event']; ticket: EventDataForWallet['tickets'][number] },
+  certificate?: AppleWalletCertificate,
+) {
+  const template = await getTemplate(certificate);
+  const publicKey = getPubFromSecret(ticket.secretKey);
+  const { dateAndTime } = displayEventDate(event);
+
+  const pass = template.createPass({
+    serialNumber: publicKey.replace('ed25519:', ''),
+    description: `${event.name} - ${ticket.title}`,
+    groupingIdentifier: event.id,
+    relevantDate: parseEventDate(event),
+    barcodes: [
+      {
+        format: 'PKBarcodeFormatQR',
+        message: ticket.secretKey,
+        messageEncoding: 'iso-8859-1',
+      },
+    ],
+  });
+
+  pass.primaryFields.add({ key: 'event', label: 'Event', value: event.name });
+  pass.secondaryFields.add({ key: 'venue', label: 'Venue', value: event.location });
+  pass.secondaryFields.add({ key: 'date', label: 'Date', value: dateAndTime });
+  pass.auxiliaryFields.add({ key: 'tier', label: 'Ticket', value: ticket.title });
+
+  if (ticket.description) {
+    pass.backFields.add({ key: 'description', label: 'Ticket Details', value: ticket.description });
+  }
+
+  return await pass.asBuffer();
+}
+
+export async function createAppleWalletPasses(data: EventDataForWallet, certificate?: AppleWalletCertificate) {
+  /*
+    A single ticket is returned as a .pkpass file. Multiple tickets are returned as a .pkpasses
+    bundle (a ZIP of .pkpass files), which Apple Wallet imports as a group.
+  */
+
+  if (data.tickets.length === 0) {
+    throw new Error('No tickets were provided');
+  }
+
+  if (data.tickets.length === 1) {
+    return {
+      buffer: await createAppleWalletPass({ event: data.event, ticket: data.tickets[0]! }, certificate),
+      contentType: 'application/vnd.apple.pkpass',
+      extension: 'pkpass',
+    };
+  }
+
+  const zip = new JSZip();
+
+  for (let i = 0; i < data.tickets.length; i++) {
+    const buffer = await createAppleWalletPass({ event: data.event, ticket: data.tickets[i]! }, certificate);
+    zip.file(`ticket-${i + 1}.pkpass`, buffer);
+  }
+
+  return {
+    buffer: await zip.generateAsync({ type: 'nodebuffer' }),
+    contentType: 'application/vnd.apple.pkpasses',
+    extension: 'pkpasses',
+  };
+}
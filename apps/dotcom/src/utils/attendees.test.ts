@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { type Attendee, buildAttendeeRows, formatCheckInStatus } from './attendees';
+import type { FunderEventMetadata } from './helpers';
+
+vi.mock('@/hooks/useDrops', () => ({}));
+
+const EVENT: FunderEventMetadata = {
+  id: '1714000000000',
+  name: 'Meetup',
+  location: 'Brooklyn, NY',
+  date: { startDate: 1_700_000_000_000, startTime: '18:00', endDate: 1_700_000_000_000, endTime: '21:00' },
+  artwork: '',
+  dateCreated: '1714000000000',
+  questions: [
+    { question: 'Dietary restrictions', required: false },
+    { question: 'Company', required: true },
+  ],
+};
+
+const createAttendee = (attendee: Partial<Attendee>): Attendee => ({
+  publicKey: 'ed25519:ticket',
+  dropId: '1714000000000-ga',
+  tier: 'General Admission',
+  email: 'fan@example.com',
+  entriesUsed: 0,
+  totalAdmissions: 1,
+  answers: null,
+  ...attendee,
+});
+
+describe('buildAttendeeRows', () => {
+  it('adds a column per question in the order they were asked', () => {
+    const rows = buildAttendeeRows(EVENT, [
+      createAttendee({ answers: { Company: 'Pagoda', 'Dietary restrictions': 'Vegan' }, entriesUsed: 1 }),
+      createAttendee({ publicKey: 'ed25519:second', email: null, answers: { Company: 'Near' } }),
+    ]);
+
+    expect(rows).toEqual([
+      [
+        'Tier',
+        'Email',
+        'Checked In',
+        'Entries Used',
+        'Total Entries',
+        'Ticket Public Key',
+        'Dietary restrictions',
+        'Company',
+      ],
+      ['General Admission', 'fan@example.com', 'Yes', '1', '1', 'ed25519:ticket', 'Vegan', 'Pagoda'],
+      ['General Admission', '', 'No', '0', '1', 'ed25519:second', '', 'Near'],
+    ]);
+  });
+
+  it('leaves answers blank when they could not be decrypted', () => {
+    const [, row] = buildAttendeeRows(EVENT, [createAttendee({ answers: null })]);
+    expect(row!.slice(-2)).toEqual(['', '']);
+  });
+
+  it('only adds the fixed columns for events without questions', () => {
+    const [header] = buildAttendeeRows({ ...EVENT, questions: undefined }, [createAttendee({})]);
+    expect(header).toHaveLength(6);
+  });
+});
+
+describe('formatCheckInStatus', () => {
+  it('counts entries for passes with several admissions', () => {
+    expect(formatCheckInStatus(createAttendee({ totalAdmissions: 3, entriesUsed: 2 }))).toBe('2 of 3 entries used');
+    expect(formatCheckInStatus(createAttendee({ entriesUsed: 1 }))).toBe('Checked in');
+    expect(formatCheckInStatus(createAttendee({}))).toBe('Not checked in');
+  });
+});
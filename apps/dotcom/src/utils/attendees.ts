@@ -0,0 +1,143 @@
+import { fetchKeysForDrop, mapWithConcurrency, MAX_CONCURRENT_QUERIES, type TicketDrop } from '@/hooks/useDrops';
+
+import { getEntriesUsed, getTotalAdmissions } from './admissions';
+import { toCsv } from './csv';
+import { convertToSafeFilename, downloadFile } from './file';
+import type { FunderEventMetadata } from './helpers';
+import { createTablePdf } from './pdf';
+import { BuyerAnswers, decryptBuyerAnswers } from './questions';
+
+export type Attendee = {
+  publicKey: string;
+  dropId: string;
+  tier: string;
+  email: string | null;
+  entriesUsed: number;
+  totalAdmissions: number;
+  answers: BuyerAnswers | null;
+};
+
+export type AttendeeExportFormat = 'csv' | 'xlsx-csv' | 'pdf';
+
+type KeyMetadata = {
+  email?: string;
+  purchaseEmail?: string;
+  questions?: string; // Encrypted answers
+};
+
+type FetchEventAttendeesOptions = {
+  drops: TicketDrop[];
+  privateKey: CryptoKey | null;
+};
+
+function parseKeyMetadata(metadata: string | undefined): KeyMetadata {
+  try {
+    return metadata ? (JSON.parse(metadata) as KeyMetadata) : {};
+  } catch (error) {
+    console.error('Failed to parse key metadata', error);
+  }
+
+  return {};
+}
+
+export async function fetchEventAttendees({ drops, privateKey }: FetchEventAttendeesOptions) {
+  const keysByDrop = await mapWithConcurrency(drops, MAX_CONCURRENT_QUERIES, (drop) => fetchKeysForDrop(drop.drop_id));
+
+  return await Promise.all(
+    keysByDrop.flatMap((keys, index) => {
+      const drop = drops[index]!;
+
+      return keys.map(async (key): Promise<Attendee> => {
+        const metadata = parseKeyMetadata(key.metadata);
+        let answers: BuyerAnswers | null = null;
+
+        // Answers can only be read once the organizer has unlocked the event's private key
+        if (privateKey && metadata.questions) {
+          try {
+            answers = await decryptBuyerAnswers(metadata.questions, privateKey);
+          } catch (error) {
+            console.error(`Failed to decrypt answers for key: ${key.pk}`, error);
+          }
+        }
+
+        return {
+          publicKey: key.pk,
+          dropId: key.drop_id,
+          tier: drop.ticket.title,
+          email: metadata.purchaseEmail ?? metadata.email ?? null,
+          entriesUsed: drop.ticket.extra ? getEntriesUsed(drop.ticket.extra, key.uses_remaining) : 0,
+          totalAdmissions: drop.ticket.extra ? getTotalAdmissions(drop.ticket.extra) : 1,
+          answers,
+        };
+      });
+    }),
+  );
+}
+
+export function formatCheckInStatus({ entriesUsed, totalAdmissions }: Attendee) {
+  if (totalAdmissions > 1) return `${entriesUsed} of ${totalAdmissions} entries used`;
+  return entriesUsed > 0 ? 'Checked in' : 'Not checked in';
+}
+
+export function buildAttendeeRows(event: FunderEventMetadata, attendees: Attendee[]) {
+  const questions = event.questions?.map((question) => question.question) ?? [];
+
+  return [
+    ['Tier', 'Email', 'Checked In', 'Entries Used', 'Total Entries', 'Ticket Public Key', ...questions],
+    ...attendees.map((attendee) => [
+      attendee.tier,
+      attendee.email ?? '',
+      attendee.entriesUsed > 0 ? 'Yes' : 'No',
+      attendee.entriesUsed.toString(),
+      attendee.totalAdmissions.toString(),
+      attendee.publicKey,
+      ...questions.map((question) => attendee.answers?.[question] ?? ''),
+    ]),
+  ];
+}
+
+function buildDoorList(event: FunderEventMetadata, attendees: Attendee[]) {
+  // Sorted by email so door staff can find attendees quickly on paper
+  const sorted = [...attendees].sort(
+    (a, b) => (a.email ?? '~').localeCompare(b.email ?? '~') || a.tier.localeCompare(b.tier),
+  );
+  const firstQuestion = event.questions?.[0]?.question;
+
+  return createTablePdf({
+    title: `${event.name} - Door List`,
+    subtitle: `${attendees.length} tickets · ${event.location} · Printed ${new Date().toLocaleString()}`,
+    columns: [
+      { header: 'In', width: 24 },
+      { header: 'Email', width: 170 },
+      { header: 'Tier', width: 110 },
+      { header: 'Status', width: 100 },
+      { header: firstQuestion ?? 'Ticket', width: 128 },
+    ],
+    rows: sorted.map((attendee) => [
+      attendee.entriesUsed > 0 ? '[x]' : '[ ]',
+      attendee.email ?? '',
+      attendee.tier,
+      formatCheckInStatus(attendee),
+      firstQuestion ? (attendee.answers?.[firstQuestion] ?? '') : attendee.publicKey.replace('ed25519:', ''),
+    ]),
+  });
+}
+
+export function exportEventAttendees(event: FunderEventMetadata, attendees: Attendee[], format: AttendeeExportFormat) {
+  const filename = `${convertToSafeFilename(event.name)}-attendees`;
+
+  switch (format) {
+    case 'csv':
+      return downloadFile(toCsv(buildAttendeeRows(event, attendees)), `${filename}.csv`, 'text/csv');
+
+    case 'xlsx-csv':
+      return downloadFile(
+        toCsv(buildAttendeeRows(event, attendees), { excel: true }),
+        `${filename}-excel.csv`,
+        'text/csv;charset=utf-8',
+      );
+
+    case 'pdf':
+      return downloadFile(buildDoorList(event, attendees), `${filename}-door-list.pdf`, 'application/pdf');
+  }
+}
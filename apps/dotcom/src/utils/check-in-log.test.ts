@@ -0,0 +1,61 @@
+import { KeyPair } from 'near-api-js';
+import { describe, expect, it } from 'vitest';
+
+import { createMemoryCheckInLogStore } from './check-in-log';
+import { createCheckInMessage, signWithTicketKey, verifyTicketKeySignature } from './keys';
+
+describe('createMemoryCheckInLogStore', () => {
+  it('records the first check-in for a ticket', async () => {
+    const store = createMemoryCheckInLogStore();
+    const entry = { eventId: 'event', publicKey: 'ed25519:ticket', deviceId: 'door-1', checkedInAt: 1_000 };
+
+    await expect(store.recordCheckIn(entry)).resolves.toEqual({ recorded: true, checkIn: entry });
+    await expect(store.findCheckIn('event', 'ed25519:ticket')).resolves.toEqual(entry);
+  });
+
+  it('reports the earlier check-in when another door scans the same ticket', async () => {
+    const store = createMemoryCheckInLogStore();
+    const first = { eventId: 'event', publicKey: 'ed25519:ticket', deviceId: 'door-1', checkedInAt: 1_000 };
+
+    await store.recordCheckIn(first);
+    const result = await store.recordCheckIn({ ...first, deviceId: 'door-2', checkedInAt: 5_000 });
+
+    expect(result).toEqual({ recorded: false, checkIn: first });
+  });
+
+  it('keeps check-ins for each event and pass entry separate', async () => {
+    const store = createMemoryCheckInLogStore();
+    const entry = { eventId: 'event:day-1', publicKey: 'ed25519:ticket', deviceId: 'door-1', checkedInAt: 1_000 };
+
+    await store.recordCheckIn(entry);
+    const nextDay = await store.recordCheckIn({ ...entry, eventId: 'event:day-2' });
+
+    expect(nextDay.recorded).toBe(true);
+    await expect(store.findCheckIn('other-event', 'ed25519:ticket')).resolves.toBeNull();
+  });
+});
+
+describe('check-in signatures', () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const secretKey = keyPair.toString();
+  const publicKey = keyPair.getPublicKey().toString();
+
+  it('verifies check-ins signed with the ticket secret key', () => {
+    const message = createCheckInMessage('event', publicKey, 1_000);
+    expect(verifyTicketKeySignature(publicKey, message, signWithTicketKey(secretKey, message))).toBe(true);
+  });
+
+  it('rejects signatures from another key or for another check-in', () => {
+    const message = createCheckInMessage('event', publicKey, 1_000);
+    const otherSecretKey = KeyPair.fromRandom('ed25519').toString();
+
+    expect(verifyTicketKeySignature(publicKey, message, signWithTicketKey(otherSecretKey, message))).toBe(false);
+    expect(
+      verifyTicketKeySignature(
+        publicKey,
+        createCheckInMessage('other-event', publicKey, 1_000),
+        signWithTicketKey(secretKey, message),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { neon } from '@neondatabase/serverless';
+
+import { DATABASE_URL } from './config';
+
+/*
+  NOTE: This module is server only. It backs the shared check-in log that every
+  scanner writes to before admitting an attendee, so two doors can't both admit
+  the same ticket while its on-chain claim is still pending.
+*/
+
+export type CheckInLogEntry = {
+  eventId: string;
+  publicKey: string;
+  deviceId: string;
+  checkedInAt: number; // Milliseconds from Unix Epoch
+};
+
+export type RecordCheckInResult = {
+  // False when an earlier check-in already exists for the ticket
+  recorded: boolean;
+  checkIn: CheckInLogEntry;
+};
+
+export interface CheckInLogStore {
+  recordCheckIn: (entry: CheckInLogEntry) => Promise<RecordCheckInResult>;
+  findCheckIn: (eventId: string, publicKey: string) => Promise<CheckInLogEntry | null>;
+}
+
+export function createMemoryCheckInLogStore(): CheckInLogStore {
+  const checkIns = new Map<string, CheckInLogEntry>();
+  const keyFor = (eventId: string, publicKey: string) => `${eventId}:${publicKey}`;
+
+  return {
+    recordCheckIn: async (entry) => {
+      const key = keyFor(entry.eventId, entry.publicKey);
+      const existing = checkIns.get(key);
+
+      if (existing) {
+        return { recorded: false, checkIn: existing };
+      }
+
+      checkIns.set(key, entry);
+      return { recorded: true, checkIn: entry };
+    },
+
+    findCheckIn: async (eventId, publicKey) => {
+      return checkIns.get(keyFor(eventId, publicKey)) ?? null;
+    },
+  };
+}
+
+type CheckInRow = {
+  event_id: string;
+  public_key: string;
+  device_id: string;
+  checked_in_at: string;
+};
+
+function rowToCheckIn(row: CheckInRow): CheckInLogEntry {
+  return {
+    eventId: row.event_id,
+    publicKey: row.public_key,
+    deviceId: row.device_id,
+    checkedInAt: Number(row.checked_in_at),
+  };
+}
+
+export function createNeonCheckInLogStore(databaseUrl: string): CheckInLogStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= sql`
+      create table if not exists check_ins (
+        event_id text not null,
+        public_key text not null,
+        device_id text not null,
+        checked_in_at bigint not null,
+        primary key (event_id, public_key)
+      )
+    `;
+    return tablePromise;
+  };
+
+  const findCheckIn: CheckInLogStore['findCheckIn'] = async (eventId, publicKey) => {
+    await ensureTable();
+    const rows = (await sql`
+      select * from check_ins where event_id = ${eventId} and public_key = ${publicKey}
+    `) as CheckInRow[];
+    return rows[0] ? rowToCheckIn(rows[0]) : null;
+  };
+
+  return {
+    recordCheckIn: async (entry) => {
+      await ensureTable();
+
+      const inserted = (await sql`
+        insert into check_ins (event_id, public_key, device_id, checked_in_at)
+        values (${entry.eventId}, ${entry.publicKey}, ${entry.deviceId}, ${entry.checkedInAt})
+        on conflict (event_id, public_key) do nothing
+        returning *
+      `) as CheckInRow[];
+
+      if (inserted[0]) {
+        return { recorded: true, checkIn: rowToCheckIn(inserted[0]) };
+      }
+
+      const existing = await findCheckIn(entry.eventId, entry.publicKey);
+      if (!existing) throw new Error('Check-in conflict reported, but no existing check-in was found');
+
+      return { recorded: false, checkIn: existing };
+    },
+
+    findCheckIn,
+  };
+}
+
+let store: CheckInLogStore | null = null;
+
+export function getCheckInLogStore() {
+  /*
+    NOTE: The in-memory store is only shared between scanners hitting the same server
+    instance. Configure DATABASE_URL for deployments with more than one instance.
+  */
+
+  store ??= DATABASE_URL ? createNeonCheckInLogStore(DATABASE_URL) : createMemoryCheckInLogStore();
+  return store;
+}
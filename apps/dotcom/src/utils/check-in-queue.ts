@@ -0,0 +1,116 @@
+const DB_NAME = 'check-in-queue';
+const DB_VERSION = 1;
+const SCANS_STORE = 'scans';
+
+export type QueuedScanStatus = 'pending' | 'claimed' | 'failed';
+
+export type QueuedScan = {
+  secretKey: string;
+  eventId: string;
+  entryId?: string; // Set for passes with several admissions, such as the day or session being entered
+  scannedAt: number; // Milliseconds from Unix Epoch
+  status: QueuedScanStatus;
+  attempts: number;
+  nextAttemptAt: number; // Milliseconds from Unix Epoch
+  claimedAt?: number;
+  lastError?: string;
+};
+
+export type QueuedScanCounts = Record<QueuedScanStatus, number>;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(SCANS_STORE)) {
+          const store = database.createObjectStore(SCANS_STORE, { keyPath: 'secretKey' });
+          store.createIndex('status', 'status');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    databasePromise.catch(() => {
+      // Allow the next call to try opening the database again
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>) {
+  const database = await openDatabase();
+
+  return await new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(SCANS_STORE, mode);
+    const request = createRequest(transaction.objectStore(SCANS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function findQueuedScan(secretKey: string) {
+  const scan = await runRequest<QueuedScan | undefined>('readonly', (store) => store.get(secretKey));
+  return scan ?? null;
+}
+
+export async function loadQueuedScans(status?: QueuedScanStatus) {
+  return await runRequest<QueuedScan[]>('readonly', (store) =>
+    status ? store.index('status').getAll(status) : store.getAll(),
+  );
+}
+
+export async function saveQueuedScan(scan: QueuedScan) {
+  await runRequest('readwrite', (store) => store.put(scan));
+}
+
+export async function enqueueScan({
+  eventId,
+  secretKey,
+  entryId,
+}: {
+  eventId: string;
+  secretKey: string;
+  entryId?: string;
+}) {
+  const now = Date.now();
+
+  const scan: QueuedScan = {
+    secretKey,
+    eventId,
+    entryId,
+    scannedAt: now,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+
+  await saveQueuedScan(scan);
+
+  return scan;
+}
+
+export async function countQueuedScans(eventId?: string) {
+  const scans = await loadQueuedScans();
+
+  const counts: QueuedScanCounts = {
+    pending: 0,
+    claimed: 0,
+    failed: 0,
+  };
+
+  scans.forEach((scan) => {
+    if (eventId && scan.eventId !== eventId) return;
+    counts[scan.status]++;
+  });
+
+  return counts;
+}
@@ -0,0 +1,199 @@
+import { neon } from '@neondatabase/serverless';
+
+import { DATABASE_URL } from './config';
+
+/*
+  NOTE: This module is server only. Every purchase starts as a checkout priced on the server.
+  Stripe sessions are created from the stored lines, so a buyer can't change what they're charged,
+  and whatever the checkout holds (such as promo code uses) is given back if it never completes.
+*/
+
+// Stripe requires checkout sessions to stay open for at least 30 minutes
+export const CHECKOUT_TTL_MS = 35 * 60_000;
+// Holds are kept a little longer than the checkout so a late payment confirmation still finds them
+export const CHECKOUT_HOLD_GRACE_MS = 15 * 60_000;
+
+export type CheckoutLine = {
+  dropId: string;
+  title: string;
+  quantity: number;
+  unitPriceFiat: number; // Dollars, after any promo code discount
+  unitPriceNear: string; // Yocto, for checkouts paid with NEAR
+  promoApplied: boolean;
+};
+
+export type CheckoutStatus = 'pending' | 'completed' | 'expired';
+
+export type Checkout = {
+  id: string;
+  funderId: string;
+  eventId: string;
+  email: string | null;
+  accountId: string | null;
+  paymentMethod: 'free' | 'stripe' | 'near';
+  lines: CheckoutLine[];
+  status: CheckoutStatus;
+  createdAt: number; // Milliseconds from Unix Epoch
+  expiresAt: number; // Milliseconds from Unix Epoch
+};
+
+export interface CheckoutStore {
+  create: (checkout: Checkout) => Promise<void>;
+  find: (id: string) => Promise<Checkout | null>;
+  // Both return the checkout only when it was still pending, so follow up work runs once
+  complete: (id: string) => Promise<Checkout | null>;
+  expire: (id: string) => Promise<Checkout | null>;
+  // Records the NEAR transaction as paying for the checkout, false when another checkout already claimed it
+  claimTransaction: (transactionHash: string, checkoutId: string) => Promise<boolean>;
+}
+
+export function getCheckoutHoldExpiry(checkout: Pick<Checkout, 'expiresAt'>) {
+  return checkout.expiresAt + CHECKOUT_HOLD_GRACE_MS;
+}
+
+export function createMemoryCheckoutStore(): CheckoutStore {
+  const checkouts = new Map<string, Checkout>();
+  const transactions = new Map<string, string>();
+
+  const transition = async (id: string, status: CheckoutStatus) => {
+    const checkout = checkouts.get(id);
+    if (checkout?.status !== 'pending') return null;
+
+    const updated = { ...checkout, status };
+    checkouts.set(id, updated);
+    return updated;
+  };
+
+  return {
+    create: async (checkout) => {
+      checkouts.set(checkout.id, checkout);
+    },
+
+    find: async (id) => {
+      return checkouts.get(id) ?? null;
+    },
+
+    complete: (id) => transition(id, 'completed'),
+
+    expire: (id) => transition(id, 'expired'),
+
+    claimTransaction: async (transactionHash, checkoutId) => {
+      if (!transactions.has(transactionHash)) transactions.set(transactionHash, checkoutId);
+      return transactions.get(transactionHash) === checkoutId;
+    },
+  };
+}
+
+type CheckoutRow = {
+  id: string;
+  funder_id: string;
+  event_id: string;
+  email: string | null;
+  account_id: string | null;
+  payment_method: Checkout['paymentMethod'];
+  lines: CheckoutLine[];
+  status: CheckoutStatus;
+  created_at: string;
+  expires_at: string;
+};
+
+function rowToCheckout(row: CheckoutRow): Checkout {
+  return {
+    id: row.id,
+    funderId: row.funder_id,
+    eventId: row.event_id,
+    email: row.email,
+    accountId: row.account_id,
+    paymentMethod: row.payment_method,
+    lines: row.lines,
+    status: row.status,
+    createdAt: Number(row.created_at),
+    expiresAt: Number(row.expires_at),
+  };
+}
+
+export function createNeonCheckoutStore(databaseUrl: string): CheckoutStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= Promise.all([
+      sql`
+        create table if not exists checkouts (
+          id text primary key,
+          funder_id text not null,
+          event_id text not null,
+          email text,
+          account_id text,
+          payment_method text not null,
+          lines jsonb not null,
+          status text not null,
+          created_at bigint not null,
+          expires_at bigint not null
+        )
+      `,
+      sql`
+        create table if not exists checkout_transactions (
+          transaction_hash text primary key,
+          checkout_id text not null
+        )
+      `,
+    ]);
+    return tablePromise;
+  };
+
+  const transition = async (id: string, status: CheckoutStatus) => {
+    await ensureTable();
+    const rows = (await sql`
+      update checkouts set status = ${status}
+      where id = ${id} and status = 'pending'
+      returning *
+    `) as CheckoutRow[];
+    return rows[0] ? rowToCheckout(rows[0]) : null;
+  };
+
+  return {
+    create: async (checkout) => {
+      await ensureTable();
+      await sql`
+        insert into checkouts (id, funder_id, event_id, email, account_id, payment_method, lines, status, created_at, expires_at)
+        values (
+          ${checkout.id}, ${checkout.funderId}, ${checkout.eventId}, ${checkout.email}, ${checkout.accountId},
+          ${checkout.paymentMethod}, ${JSON.stringify(checkout.lines)}, ${checkout.status},
+          ${checkout.createdAt}, ${checkout.expiresAt}
+        )
+      `;
+    },
+
+    find: async (id) => {
+      await ensureTable();
+      const rows = (await sql`
+        select * from checkouts where id = ${id}
+      `) as CheckoutRow[];
+      return rows[0] ? rowToCheckout(rows[0]) : null;
+    },
+
+    complete: (id) => transition(id, 'completed'),
+
+    expire: (id) => transition(id, 'expired'),
+
+    claimTransaction: async (transactionHash, checkoutId) => {
+      await ensureTable();
+      // A conflicting insert returns the checkout that claimed the transaction first
+      const rows = (await sql`
+        insert into checkout_transactions (transaction_hash, checkout_id)
+        values (${transactionHash}, ${checkoutId})
+        on conflict (transaction_hash) do update set transaction_hash = excluded.transaction_hash
+        returning checkout_id
+      `) as { checkout_id: string }[];
+      return rows[0]?.checkout_id === checkoutId;
+    },
+  };
+}
+
+let store: CheckoutStore | null = null;
+
+export function getCheckoutStore() {
+  store ??= DATABASE_URL ? createNeonCheckoutStore(DATABASE_URL) : createMemoryCheckoutStore();
+  return store;
+}
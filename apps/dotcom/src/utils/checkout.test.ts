@@ -0,0 +1,414 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
+import type { EventDrop, FunderEventMetadata, TicketMetadataExtra } from './helpers';
+import type { PromoCodeMetadata } from './promo-codes';
+
+vi.mock('./config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./config')>()),
+  DATABASE_URL: undefined,
+  EVENTS_WORKER_SECRET: 'worker-secret',
+  PROMO_CODE_SECRET: 'promo-secret',
+}));
+
+vi.mock('@/hooks/useDrops', () => ({}));
+vi.mock('./rpc', () => ({
+  fetchBlockTimestamp: vi.fn(),
+  fetchEventFromJsonRpc: vi.fn(),
+  fetchTransactionStatus: vi.fn(),
+  viewFunction: vi.fn(),
+}));
+
+const FUNDER_ID = 'organizer.near';
+const EVENT_ID = '1714000000000';
+
+const createDrop = (dropId: string, extra: Partial<TicketMetadataExtra>): EventDrop => ({
+  drop_id: dropId,
+  deposit_per_use: '0',
+  funder_id: FUNDER_ID,
+  drop_config: {
+    nft_keys_config: {
+      token_metadata: { title: dropId, extra: JSON.stringify({ eventId: EVENT_ID, dateCreated: '0', ...extra }) },
+    },
+  },
+});
+
+const DROPS = [
+  createDrop('ga', { priceFiat: '0', maxSupply: 100, limitPerUser: 2 }),
+  createDrop('vip', { priceFiat: '50', maxSupply: 10, limitPerUser: 2 }),
+  createDrop('backstage', { priceFiat: '80', hidden: true }),
+  createDrop('workshop', { priceFiat: '0', maxSupply: 20, limitPerUser: 1 }),
+];
+
+describe('createCheckout', () => {
+  const workerFetch = vi.fn();
+  let supply: Record<string, number> = {};
+
+  // The stores are module singletons, so every test starts with fresh modules
+  const loadCheckout = async (promoCodes: Omit<PromoCodeMetadata, 'codeHash'>[] = []) => {
+    vi.resetModules();
+    const rpc = await import('./rpc');
+    const { hashPromoCode, getPromoCodeStore } = await import('./promo-code-store');
+    const { getWaitlistStore } = await import('./waitlist-store');
+    const { getAnalyticsLogStore } = await import('./analytics-log');
+
+    const event: FunderEventMetadata = {
+      id: EVENT_ID,
+      name: 'Meetup',
+      location: 'Brooklyn, NY',
+      date: { startDate: 1_700_000_000_000, startTime: '18:00', endDate: 1_700_000_000_000, endTime: '21:00' },
+      artwork: '',
+      dateCreated: EVENT_ID,
+      nearCheckout: true,
+      promoCodes: promoCodes.map((promoCode, index) => ({
+        ...promoCode,
+        codeHash: hashPromoCode(FUNDER_ID, EVENT_ID, `CODE${index}`),
+      })),
+    };
+
+    vi.mocked(rpc.fetchEventFromJsonRpc).mockResolvedValue(event);
+    vi.mocked(rpc.viewFunction).mockImplementation(async ({ methodName, args }: any) => {
+      if (methodName === 'get_drop_information') return DROPS.find((drop) => drop.drop_id === args.drop_id) ?? null;
+      if (methodName === 'get_key_supply_for_drop') return supply[args.drop_id] ?? 0;
+      if (methodName === 'get_stripe_id_for_account') return 'acct_1234567890';
+      throw new Error(`Unexpected view call: ${methodName}`);
+    });
+
+    const checkout = await import('./checkout');
+    // Loading near-api-js installs its own fetch, so the worker mock is stubbed afterwards
+    vi.stubGlobal('fetch', workerFetch);
+
+    return {
+      ...checkout,
+      rpc,
+      promoCodeStore: getPromoCodeStore(),
+      waitlistStore: getWaitlistStore(),
+      analyticsLogStore: getAnalyticsLogStore(),
+      hashPromoCode,
+    };
+  };
+
+  const stripePayloads = () =>
+    workerFetch.mock.calls
+      .filter(([url]) => String(url).endsWith('/stripe/create-checkout-session'))
+      .map(([, init]) => JSON.parse(init.body));
+
+  const request = { funderId: FUNDER_ID, eventId: EVENT_ID, email: 'buyer@example.com' };
+
+  beforeEach(() => {
+    supply = {};
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    workerFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/purchase-free-tickets')) {
+        const { ticketAmount } = JSON.parse(init.body as string);
+        return Response.json({
+          tickets: Array.from({ length: ticketAmount }, (_, index) => ({ secret_key: `sk${index}` })),
+        });
+      }
+      return Response.json({ stripe_url: 'https://checkout.stripe.com/session' });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('charges the prices of the drops on-chain with the discount applied on the server', async () => {
+    const { createCheckout } = await loadCheckout([{ discountType: 'percent', amount: 20 }]);
+
+    const result = await createCheckout({
+      ...request,
+      items: [
+        { dropId: 'ga', quantity: 2 },
+        { dropId: 'vip', quantity: 1 },
+        { dropId: 'vip', quantity: 1 },
+      ],
+      promoCode: 'code0',
+    });
+
+    expect(result.purchases).toEqual([
+      { dropId: 'ga', secretKey: 'sk0' },
+      { dropId: 'ga', secretKey: 'sk1' },
+    ]);
+    expect(result.checkout).toEqual({ dropIds: ['vip'], stripeUrl: 'https://checkout.stripe.com/session' });
+
+    const [payload] = stripePayloads();
+    expect(payload.lineItems).toEqual([expect.objectContaining({ ticketAmount: 2, unitPriceFiat: 40 })]);
+    expect(payload).toMatchObject({ promoCode: 'CODE0', checkoutId: expect.any(String) });
+    expect(workerFetch.mock.calls[0]![1].headers.Authorization).toBe('Bearer worker-secret');
+  });
+
+  it('only sells hidden tiers with a code that unlocks them', async () => {
+    const { createCheckout, CheckoutError } = await loadCheckout([
+      { discountType: 'fixed', amount: 0, unlocksDropIds: ['backstage'] },
+    ]);
+
+    const checkout = createCheckout({ ...request, items: [{ dropId: 'backstage', quantity: 1 }] });
+    await expect(checkout).rejects.toBeInstanceOf(CheckoutError);
+    await expect(checkout).rejects.toMatchObject({ status: 403 });
+
+    await expect(
+      createCheckout({ ...request, items: [{ dropId: 'backstage', quantity: 1 }], promoCode: 'CODE0' }),
+    ).resolves.toMatchObject({ checkout: { dropIds: ['backstage'] } });
+  });
+
+  it('holds promo code uses until the checkout completes or expires', async () => {
+    const { createCheckout, completeCheckout, expireCheckout, promoCodeStore, hashPromoCode } = await loadCheckout([
+      { discountType: 'percent', amount: 50, maxUses: 2 },
+    ]);
+    const codeHash = hashPromoCode(FUNDER_ID, EVENT_ID, 'CODE0');
+    const buy = () => createCheckout({ ...request, items: [{ dropId: 'vip', quantity: 2 }], promoCode: 'CODE0' });
+
+    await buy();
+    await expect(buy()).rejects.toMatchObject({ status: 410, message: 'This promo code has reached its usage limit' });
+
+    // An abandoned checkout gives its uses back
+    await expireCheckout(stripePayloads()[0].checkoutId);
+    await expect(promoCodeStore.countUses(EVENT_ID, codeHash)).resolves.toBe(0);
+
+    // So does one whose confirmation never arrives, once its hold runs out
+    await buy();
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 60_000);
+    await expect(promoCodeStore.countUses(EVENT_ID, codeHash)).resolves.toBe(0);
+
+    await buy();
+    await completeCheckout(stripePayloads()[2].checkoutId);
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 60_000);
+    await expect(promoCodeStore.countUses(EVENT_ID, codeHash)).resolves.toBe(2);
+  });
+
+  it('gives back the held uses when the worker fails', async () => {
+    const { createCheckout, promoCodeStore, hashPromoCode } = await loadCheckout([
+      { discountType: 'percent', amount: 50, maxUses: 2 },
+    ]);
+    workerFetch.mockResolvedValue(new Response('Stripe is unavailable', { status: 502 }));
+
+    await expect(
+      createCheckout({ ...request, items: [{ dropId: 'vip', quantity: 2 }], promoCode: 'CODE0' }),
+    ).rejects.toMatchObject({ status: 502 });
+    await expect(promoCodeStore.countUses(EVENT_ID, hashPromoCode(FUNDER_ID, EVENT_ID, 'CODE0'))).resolves.toBe(0);
+  });
+
+  it('holds the last ticket for a waitlist offer until its checkout is paid for', async () => {
+    const { createCheckout, completeCheckout, expireCheckout, waitlistStore } = await loadCheckout();
+    supply = { vip: 9 };
+
+    const { entry } = await waitlistStore.join({
+      funderId: FUNDER_ID,
+      eventId: EVENT_ID,
+      dropId: 'vip',
+      email: 'fan@example.com',
+    });
+    await waitlistStore.verify(entry.verifyToken!);
+    const [offer] = await waitlistStore.issueOffers('vip', 1, Date.now() + 60 * 60_000);
+    const buyOffer = () =>
+      createCheckout({ ...request, items: [{ dropId: 'vip', quantity: 1 }], waitlistOfferToken: offer!.offerToken });
+
+    await expect(createCheckout({ ...request, items: [{ dropId: 'vip', quantity: 1 }] })).rejects.toMatchObject({
+      status: 409,
+    });
+
+    await buyOffer();
+    await expect(buyOffer()).rejects.toMatchObject({ status: 410 });
+
+    // An abandoned checkout hands the offer back to its holder
+    await expireCheckout(stripePayloads()[0].checkoutId);
+    await expect(waitlistStore.findOffer(offer!.offerToken!)).resolves.toMatchObject({ status: 'offered' });
+
+    // Once paid for, the ticket stays reserved until it has had time to be minted
+    await buyOffer();
+    await completeCheckout(stripePayloads()[1].checkoutId);
+    await expect(waitlistStore.findOffer(offer!.offerToken!)).resolves.toMatchObject({ status: 'purchased' });
+    await expect(waitlistStore.countReserved('vip', Date.now(), Date.now())).resolves.toBe(1);
+    await expect(buyOffer()).rejects.toMatchObject({ status: 410 });
+  });
+
+  it('records sales at the price charged once their checkout completes', async () => {
+    const { createCheckout, completeCheckout, expireCheckout, analyticsLogStore } = await loadCheckout([
+      { discountType: 'percent', amount: 20 },
+    ]);
+    const listPurchases = () => analyticsLogStore.listEntries(FUNDER_ID, EVENT_ID);
+
+    await createCheckout({ ...request, items: [{ dropId: 'vip', quantity: 1 }] });
+    await expireCheckout(stripePayloads()[0].checkoutId);
+
+    await createCheckout({
+      ...request,
+      items: [
+        { dropId: 'ga', quantity: 1 },
+        { dropId: 'vip', quantity: 2 },
+      ],
+      promoCode: 'CODE0',
+    });
+    await expect(listPurchases()).resolves.toEqual([
+      expect.objectContaining({ dropId: 'ga', quantity: 1, paymentMethod: 'free' }),
+    ]);
+
+    await completeCheckout(stripePayloads()[1].checkoutId);
+    await expect(listPurchases()).resolves.toEqual([
+      expect.objectContaining({ dropId: 'ga', quantity: 1, paymentMethod: 'free' }),
+      expect.objectContaining({ dropId: 'vip', quantity: 2, paymentMethod: 'stripe', amountFiat: 80 }),
+    ]);
+  });
+
+  it('holds purchase limits with the checkout and gives them all back when it fails', async () => {
+    const { createCheckout, completeCheckout } = await loadCheckout();
+
+    await createCheckout({ ...request, items: [{ dropId: 'vip', quantity: 2 }] });
+    await completeCheckout(stripePayloads()[0].checkoutId);
+
+    // Plus addressing reaches the same inbox, so it counts as the same buyer
+    const overLimit = createCheckout({
+      ...request,
+      email: 'Buyer+2@example.com',
+      items: [
+        { dropId: 'ga', quantity: 2 },
+        { dropId: 'vip', quantity: 1 },
+      ],
+    });
+    await expect(overLimit).rejects.toMatchObject({
+      status: 409,
+      message: 'You have already purchased the maximum of 2 ticket(s) for: vip',
+    });
+
+    // The tier that was held before the failing one is released with it
+    await expect(createCheckout({ ...request, items: [{ dropId: 'ga', quantity: 2 }] })).resolves.toMatchObject({
+      purchases: [expect.anything(), expect.anything()],
+    });
+  });
+
+  it('keeps the free tiers issued before the worker failed and releases the rest', async () => {
+    const { createCheckout, analyticsLogStore } = await loadCheckout();
+    const defaultWorker = workerFetch.getMockImplementation()!;
+    workerFetch.mockImplementation(async (url: string, init: RequestInit) =>
+      String(init.body).includes('workshop') ? new Response('Unavailable', { status: 502 }) : defaultWorker(url, init),
+    );
+
+    await expect(
+      createCheckout({
+        ...request,
+        items: [
+          { dropId: 'ga', quantity: 2 },
+          { dropId: 'workshop', quantity: 1 },
+          { dropId: 'vip', quantity: 1 },
+        ],
+      }),
+    ).rejects.toMatchObject({ status: 502 });
+    expect(stripePayloads()).toHaveLength(0);
+
+    await expect(analyticsLogStore.listEntries(FUNDER_ID, EVENT_ID)).resolves.toEqual([
+      expect.objectContaining({ dropId: 'ga', quantity: 2, paymentMethod: 'free' }),
+    ]);
+
+    // The issued tickets count towards the limit, the tier that failed doesn't
+    workerFetch.mockImplementation(defaultWorker);
+    await expect(createCheckout({ ...request, items: [{ dropId: 'ga', quantity: 1 }] })).rejects.toMatchObject({
+      status: 409,
+    });
+    await expect(
+      createCheckout({
+        ...request,
+        items: [
+          { dropId: 'workshop', quantity: 1 },
+          { dropId: 'vip', quantity: 2 },
+        ],
+      }),
+    ).resolves.toMatchObject({ purchases: [expect.anything()] });
+  });
+
+  it('only counts NEAR checkouts once their transactions are verified on-chain', async () => {
+    const { createNearCheckout, confirmNearCheckout, rpc } = await loadCheckout();
+    const nearRequest = {
+      funderId: FUNDER_ID,
+      eventId: EVENT_ID,
+      accountId: 'buyer.near',
+      items: [{ dropId: 'vip', quantity: 2 }],
+    };
+    const transaction = (signerId: string, keys = 2) => ({
+      status: { SuccessValue: '' },
+      transaction: {
+        hash: 'tx',
+        signer_id: signerId,
+        receiver_id: KEYPOM_MARKETPLACE_CONTRACT_ID,
+        actions: [
+          {
+            FunctionCall: {
+              method_name: 'buy_initial_sale',
+              args: btoa(JSON.stringify({ event_id: EVENT_ID, drop_id: 'vip', new_keys: Array(keys).fill({}) })),
+              deposit: '0',
+            },
+          },
+        ],
+      },
+      transaction_outcome: { block_hash: 'block' },
+      receipts_outcome: [],
+    });
+    vi.mocked(rpc.fetchBlockTimestamp).mockImplementation(async () => Date.now());
+
+    const first = await createNearCheckout(nearRequest);
+    await expect(createNearCheckout(nearRequest)).rejects.toMatchObject({ status: 409 });
+
+    // A transaction signed by someone else doesn't confirm the checkout, so its hold is given back
+    vi.mocked(rpc.fetchTransactionStatus).mockResolvedValue(transaction('someone-else.near'));
+    await expect(confirmNearCheckout(first.checkoutId, ['tx'])).resolves.toMatchObject({ status: 'expired' });
+
+    const second = await createNearCheckout(nearRequest);
+    vi.mocked(rpc.fetchTransactionStatus).mockResolvedValue(transaction('buyer.near'));
+    await expect(confirmNearCheckout(second.checkoutId, ['tx'])).resolves.toMatchObject({ status: 'completed' });
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 60_000);
+    await expect(createNearCheckout(nearRequest)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('only confirms NEAR checkouts with new transactions minting the quantity held', async () => {
+    const { createNearCheckout, confirmNearCheckout, rpc } = await loadCheckout();
+    const nearRequest = {
+      funderId: FUNDER_ID,
+      eventId: EVENT_ID,
+      accountId: 'buyer.near',
+      items: [{ dropId: 'vip', quantity: 1 }],
+    };
+    const transaction = (keys: number) => ({
+      status: { SuccessValue: '' },
+      transaction: {
+        hash: 'tx',
+        signer_id: 'buyer.near',
+        receiver_id: KEYPOM_MARKETPLACE_CONTRACT_ID,
+        actions: [
+          {
+            FunctionCall: {
+              method_name: 'buy_initial_sale',
+              args: btoa(JSON.stringify({ event_id: EVENT_ID, drop_id: 'vip', new_keys: Array(keys).fill({}) })),
+              deposit: '0',
+            },
+          },
+        ],
+      },
+      transaction_outcome: { block_hash: 'block' },
+      receipts_outcome: [],
+    });
+    vi.mocked(rpc.fetchTransactionStatus).mockResolvedValue(transaction(1));
+
+    // A purchase made before the checkout was opened can't pay for it
+    const stale = await createNearCheckout(nearRequest);
+    vi.mocked(rpc.fetchBlockTimestamp).mockResolvedValue(Date.now() - 60_000);
+    await expect(confirmNearCheckout(stale.checkoutId, ['old-tx'])).resolves.toMatchObject({ status: 'expired' });
+
+    vi.mocked(rpc.fetchBlockTimestamp).mockImplementation(async () => Date.now());
+
+    // Minting more or fewer tickets than the checkout holds doesn't match it either
+    const mismatched = await createNearCheckout(nearRequest);
+    vi.mocked(rpc.fetchTransactionStatus).mockResolvedValue(transaction(2));
+    await expect(confirmNearCheckout(mismatched.checkoutId, ['tx-2'])).resolves.toMatchObject({ status: 'expired' });
+
+    vi.mocked(rpc.fetchTransactionStatus).mockResolvedValue(transaction(1));
+    const first = await createNearCheckout(nearRequest);
+    await expect(confirmNearCheckout(first.checkoutId, ['tx-1'])).resolves.toMatchObject({ status: 'completed' });
+
+    // The same transaction can't confirm a second checkout
+    const second = await createNearCheckout(nearRequest);
+    await expect(confirmNearCheckout(second.checkoutId, ['tx-1'])).resolves.toMatchObject({ status: 'expired' });
+  });
+});
@@ -0,0 +1,681 @@
+import { parseNearAmount } from 'near-api-js/lib/utils/format';
+import { v4 as uuidv4 } from 'uuid';
+
+import { getAnalyticsLogStore } from './analytics-log';
+import { Checkout, CHECKOUT_TTL_MS, CheckoutLine, getCheckoutHoldExpiry, getCheckoutStore } from './checkout-store';
+import {
+  CLOUDFLARE_IPFS,
+  EVENTS_WORKER_BASE,
+  EVENTS_WORKER_SECRET,
+  HOSTNAME,
+  KEYPOM_EVENTS_CONTRACT_ID,
+  KEYPOM_MARKETPLACE_CONTRACT_ID,
+} from './config';
+import type { EventDrop, FunderEventMetadata, TicketMetadataExtra } from './helpers';
+import { findEventPromoCode, getPromoCodeStore } from './promo-code-store';
+import {
+  applyPromoDiscount,
+  getPromoCodeError,
+  isPromoCodeApplicable,
+  isTicketUnlocked,
+  normalizePromoCode,
+  PromoCodeMetadata,
+} from './promo-codes';
+import type { CartItem, PurchaseTicketsResult } from './purchase';
+import { getPurchaseLedgerStore } from './purchase-ledger';
+import { getBuyerKeys, getPurchaseLimitError } from './purchase-limits';
+import {
+  fetchBlockTimestamp,
+  fetchEventFromJsonRpc,
+  fetchTransactionStatus,
+  TransactionStatusView,
+  viewFunction,
+} from './rpc';
+import { validateDateAndTime } from './time';
+import { getWaitlistStore, isActiveOffer, WaitlistEntry } from './waitlist-store';
+
+/*
+  NOTE: This module is server only. Carts are priced and checked here, from the drops on-chain,
+  instead of trusting the prices and tiers a buyer's browser sends.
+*/
+
+export class CheckoutError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CheckoutError';
+    this.status = status;
+  }
+}
+
+export type CheckoutRequest = {
+  funderId: string;
+  eventId: string;
+  // Required unless paying with NEAR, where the tickets are bought by the wallet itself
+  email?: string;
+  // The signed in account, if any. Required when paying with NEAR.
+  accountId?: string;
+  items: CartItem[];
+  promoCode?: string;
+  // From a waitlist offer email, lets its holder buy the ticket held for them
+  waitlistOfferToken?: string;
+  // Encrypted with the event's public key, see encryptBuyerAnswers()
+  buyerAnswers?: string;
+};
+
+type CheckoutDrop = {
+  drop: EventDrop;
+  extra: TicketMetadataExtra | undefined;
+  sold: number;
+  // Held for waitlist offers and their checkouts, see WaitlistStore.countReserved()
+  reserved: number;
+};
+
+type TicketInfoPayload = {
+  location: string;
+  eventName: string;
+  ticketType: string;
+  eventDate: string;
+  ticketOwner: string | undefined;
+  eventId: string;
+  dropId: string;
+  funderId: string;
+  event_image_url: string;
+  ticket_image_url: string;
+};
+
+type PurchaseWorkerPayload = {
+  name: string | null;
+  ticketAmount: number;
+  buyerAnswers: string | undefined;
+  ticket_info: TicketInfoPayload;
+  purchaseEmail: string;
+  stripeAccountId: string | undefined;
+  baseUrl: string;
+};
+
+/*
+  Payload for POST stripe/create-checkout-session. Version 2 sends one Stripe line item per paid
+  drop in lineItems, each with its own quantity and discounted price. Version 1 only knew about
+  a single drop at full price, in the top level ticketAmount and ticket_info.
+
+  NOTE: The top level fields are still sent (copied from the first line item) until every worker
+  deployment reads lineItems. A version 1 worker ignores lineItems and the discount, so carts with
+  several paid tiers or a promo code are only charged correctly once the worker is upgraded.
+*/
+
+type StripeCheckoutWorkerPayload = PurchaseWorkerPayload & {
+  payloadVersion: 2;
+  lineItems: {
+    ticketAmount: number;
+    ticket_info: TicketInfoPayload;
+    // Dollars per ticket after the promo code's discount, priced by this app and never by the browser
+    unitPriceFiat: number;
+  }[];
+  promoCode?: string;
+  // The worker reports the session's outcome to POST /api/checkout/confirm with this ID
+  checkoutId: string;
+  // Milliseconds from Unix Epoch, the Stripe session must expire by then
+  expiresAt: number;
+};
+
+function parseTicketExtra(drop: EventDrop) {
+  const extra = drop.drop_config.nft_keys_config.token_metadata.extra;
+  return extra ? (JSON.parse(extra) as TicketMetadataExtra) : undefined;
+}
+
+function isFreeTier(extra: TicketMetadataExtra | undefined) {
+  return (!extra?.priceFiat || extra.priceFiat === '0') && (!extra?.priceNear || extra.priceNear === '0');
+}
+
+async function loadCheckoutDrops(
+  funderId: string,
+  eventId: string,
+  dropIds: string[],
+  waitlistOffer: WaitlistEntry | null,
+) {
+  // Supply is read fresh from the contract since the indexer can be a few seconds behind
+  const now = Date.now();
+
+  return await Promise.all(
+    dropIds.map(async (dropId): Promise<CheckoutDrop> => {
+      const [drop, sold] = await Promise.all([
+        viewFunction<EventDrop | null>({
+          contractId: KEYPOM_EVENTS_CONTRACT_ID,
+          methodName: 'get_drop_information',
+          args: { drop_id: dropId },
+        }).catch(() => null),
+        viewFunction<number>({
+          contractId: KEYPOM_EVENTS_CONTRACT_ID,
+          methodName: 'get_key_supply_for_drop',
+          args: { drop_id: dropId },
+        }).catch(() => 0),
+      ]);
+
+      const extra = drop ? parseTicketExtra(drop) : undefined;
+      if (!drop || drop.funder_id !== funderId || extra?.eventId !== eventId) {
+        throw new CheckoutError(`Matching drop not found for id: ${dropId}`, 404);
+      }
+
+      // The ticket held for the buyer's own offer is theirs to buy
+      const reserved = extra?.maxSupply
+        ? (await getWaitlistStore().countReserved(dropId, now, now)) - (waitlistOffer?.dropId === dropId ? 1 : 0)
+        : 0;
+
+      return { drop, extra, sold, reserved };
+    }),
+  );
+}
+
+export function priceCheckoutLines(drops: CheckoutDrop[], items: CartItem[], promoCode: PromoCodeMetadata | null) {
+  const free: CheckoutLine[] = [];
+  const paid: CheckoutLine[] = [];
+
+  // The same tier listed twice is checked against its limits as a single line
+  const quantities = new Map<string, number>();
+  items.forEach(({ dropId, quantity = 0 }) => quantities.set(dropId, (quantities.get(dropId) ?? 0) + quantity));
+
+  for (const [dropId, quantity] of quantities) {
+    if (!quantity) continue;
+
+    const checkoutDrop = drops.find(({ drop }) => drop.drop_id === dropId);
+    if (!checkoutDrop) throw new CheckoutError(`Matching drop not found for id: ${dropId}`, 404);
+
+    const { drop, extra, sold, reserved } = checkoutDrop;
+    const title = drop.drop_config.nft_keys_config.token_metadata.title || 'General Admission';
+
+    if (!isTicketUnlocked({ drop_id: drop.drop_id, ticket: { extra } }, promoCode)) {
+      throw new CheckoutError(`A promo code is required to purchase: ${title}`, 403);
+    }
+
+    if (extra?.salesValidThrough) {
+      const { valid, message } = validateDateAndTime(extra.salesValidThrough);
+      if (!valid) throw new CheckoutError(`${message}: ${title}`, 409);
+    }
+
+    const limitError = extra?.limitPerUser ? getPurchaseLimitError(title, extra.limitPerUser, 0, quantity) : null;
+    if (limitError) throw new CheckoutError(limitError, 409);
+
+    if (extra?.maxSupply) {
+      const available = Math.max(0, extra.maxSupply - sold - reserved);
+      if (quantity > available) {
+        throw new CheckoutError(
+          available
+            ? `Only ${available} ticket(s) are left for: ${title}`
+            : `${title} is sold out. Join the waitlist to be offered a ticket if one frees up.`,
+          409,
+        );
+      }
+    }
+
+    const line: CheckoutLine = {
+      dropId: drop.drop_id,
+      title,
+      quantity,
+      unitPriceFiat: applyPromoDiscount(extra?.priceFiat, promoCode, drop.drop_id),
+      unitPriceNear: parseNearAmount(extra?.priceNear || '0') ?? '0',
+      // Unlocking a hidden tier counts as a use of the code even if it has no discount
+      promoApplied:
+        !!promoCode &&
+        ((isPromoCodeApplicable(promoCode, drop.drop_id) && !isFreeTier(extra)) ||
+          !!promoCode.unlocksDropIds?.includes(drop.drop_id)),
+    };
+
+    if (isFreeTier(extra)) {
+      free.push(line);
+    } else {
+      paid.push(line);
+    }
+  }
+
+  return { free, paid };
+}
+
+function buildTicketInfo(event: FunderEventMetadata, drop: EventDrop): TicketInfoPayload {
+  const metadata = drop.drop_config.nft_keys_config.token_metadata;
+  const eventImageUrl = event.artwork ? `${CLOUDFLARE_IPFS}/${event.artwork}` : '';
+  const ticketImageUrl = metadata.artwork ? `${CLOUDFLARE_IPFS}/${metadata.artwork}` : eventImageUrl;
+
+  return {
+    location: event.location,
+    eventName: event.name,
+    ticketType: metadata.title,
+    eventDate: JSON.stringify(event.date),
+    ticketOwner: undefined, // If signed in, this is signed in account, otherwise its undefined
+    eventId: event.id,
+    dropId: drop.drop_id,
+    funderId: drop.funder_id,
+    event_image_url: eventImageUrl,
+    ticket_image_url: ticketImageUrl,
+  };
+}
+
+async function postToWorker(path: string, payload: PurchaseWorkerPayload | StripeCheckoutWorkerPayload) {
+  // Only this app can ask the worker to issue tickets or open a checkout session
+  const response = await fetch(`${EVENTS_WORKER_BASE}/${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${EVENTS_WORKER_SECRET}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    console.error(`Events worker request to ${path} failed with status: ${response.status}`);
+    throw new CheckoutError('Request to purchase ticket(s) failed', 502);
+  }
+
+  return await response.json();
+}
+
+async function holdPromoCode(checkout: Checkout, promoCode: PromoCodeMetadata | null) {
+  const quantity = checkout.lines.reduce((total, line) => total + (line.promoApplied ? line.quantity : 0), 0);
+  if (!promoCode || !quantity) return;
+
+  const result = await getPromoCodeStore().reserve({
+    checkoutId: checkout.id,
+    eventId: checkout.eventId,
+    codeHash: promoCode.codeHash,
+    quantity,
+    maxUses: promoCode.maxUses,
+    expiresAt: getCheckoutHoldExpiry(checkout),
+  });
+
+  if (!result.reserved) {
+    throw new CheckoutError(getPromoCodeError(promoCode, result.uses, quantity) ?? 'Promo code is unavailable', 410);
+  }
+}
+
+async function holdWaitlistOffer(checkout: Checkout, waitlistOffer: WaitlistEntry | null) {
+  if (!waitlistOffer?.offerToken || !checkout.lines.some((line) => line.dropId === waitlistOffer.dropId)) return;
+
+  // The offer stays held, and counted against the supply, until the checkout completes or expires
+  const claimed = await getWaitlistStore().claimOffer(
+    waitlistOffer.offerToken,
+    checkout.id,
+    getCheckoutHoldExpiry(checkout),
+  );
+  if (!claimed) throw new CheckoutError('This waitlist offer has expired or was already used', 410);
+}
+
+async function holdPurchaseLimits(checkout: Checkout, drops: CheckoutDrop[]) {
+  /*
+    Limits are tracked per email address. The account is only a key for NEAR checkouts, which
+    are confirmed with transactions signed by it, so nobody can use up another account's limit.
+  */
+
+  const buyerKeys = getBuyerKeys({
+    email: checkout.email ?? undefined,
+    accountId: checkout.paymentMethod === 'near' ? (checkout.accountId ?? undefined) : undefined,
+  });
+
+  for (const { dropId, title, quantity } of checkout.lines) {
+    const limit = drops.find(({ drop }) => drop.drop_id === dropId)?.extra?.limitPerUser;
+    if (!limit) continue;
+
+    const result = await getPurchaseLedgerStore().reserve({
+      checkoutId: checkout.id,
+      dropId,
+      buyerKeys,
+      quantity,
+      limit,
+      expiresAt: getCheckoutHoldExpiry(checkout),
+    });
+
+    if (!result.reserved) {
+      throw new CheckoutError(
+        getPurchaseLimitError(title, limit, result.purchased, quantity) ?? 'Purchase limit reached',
+        409,
+      );
+    }
+  }
+}
+
+async function recordPurchaseAnalytics(checkout: Checkout, dropIds: string[]) {
+  // Analytics are best effort, so a failure here never affects the purchase
+  try {
+    for (const { dropId, quantity, unitPriceFiat, unitPriceNear } of checkout.lines) {
+      if (!dropIds.includes(dropId)) continue;
+
+      await getAnalyticsLogStore().recordEntry({
+        id: `purchase:${checkout.id}:${dropId}`,
+        type: 'purchase',
+        funderId: checkout.funderId,
+        eventId: checkout.eventId,
+        dropId,
+        quantity,
+        amountFiat: checkout.paymentMethod === 'stripe' ? Math.round(unitPriceFiat * quantity * 100) / 100 : undefined,
+        amountNear:
+          checkout.paymentMethod === 'near' ? (BigInt(unitPriceNear) * BigInt(quantity)).toString() : undefined,
+        paymentMethod: checkout.paymentMethod,
+        recordedAt: Date.now(),
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to record analytics for checkout: ${checkout.id}`, error);
+  }
+}
+
+export async function completeCheckout(checkoutId: string, purchasedDropIds?: string[]) {
+  // Every tier in the checkout counts as purchased unless told otherwise
+  const checkout = await getCheckoutStore().complete(checkoutId);
+  if (checkout) {
+    await getPromoCodeStore().finalize(checkoutId);
+    await getWaitlistStore().completeClaim(checkoutId);
+    await getPurchaseLedgerStore().finalize(checkoutId);
+    await recordPurchaseAnalytics(checkout, purchasedDropIds ?? checkout.lines.map((line) => line.dropId));
+  }
+  return checkout;
+}
+
+export async function expireCheckout(checkoutId: string) {
+  const checkout = await getCheckoutStore().expire(checkoutId);
+  if (checkout) {
+    await getPromoCodeStore().release(checkoutId);
+    await getWaitlistStore().releaseClaim(checkoutId);
+    await getPurchaseLedgerStore().release(checkoutId);
+  }
+  return checkout;
+}
+
+async function prepareCheckout(request: CheckoutRequest) {
+  const { funderId, eventId } = request;
+
+  const event = await fetchEventFromJsonRpc(funderId, eventId);
+  if (!event) throw new CheckoutError('Event not found', 404);
+  if (event.cancelled) {
+    throw new CheckoutError('Tickets can no longer be purchased since this event has been cancelled', 410);
+  }
+
+  let promoCode: PromoCodeMetadata | null = null;
+
+  if (request.promoCode) {
+    promoCode = findEventPromoCode(funderId, event, request.promoCode);
+    if (!promoCode) throw new CheckoutError('Promo code not found', 404);
+
+    // Usage is checked atomically while reserving, so only the expiry is checked up front
+    const expiredError = getPromoCodeError({ ...promoCode, maxUses: undefined }, 0);
+    if (expiredError) throw new CheckoutError(expiredError, 410);
+  }
+
+  let waitlistOffer: WaitlistEntry | null = null;
+
+  if (request.waitlistOfferToken) {
+    const entry = await getWaitlistStore().findOffer(request.waitlistOfferToken);
+    if (!entry || entry.funderId !== funderId || entry.eventId !== eventId || !isActiveOffer(entry, Date.now())) {
+      throw new CheckoutError('This waitlist offer has expired or was already used', 410);
+    }
+
+    // Buying some other tier leaves the offer open until it expires
+    if (request.items.some((item) => item.dropId === entry.dropId && item.quantity)) waitlistOffer = entry;
+  }
+
+  const drops = await loadCheckoutDrops(
+    funderId,
+    eventId,
+    [...new Set(request.items.map((item) => item.dropId))],
+    waitlistOffer,
+  );
+  const { free, paid } = priceCheckoutLines(drops, request.items, promoCode);
+
+  if (!free.length && !paid.length) {
+    throw new CheckoutError(
+      'No tickets were purchased. A ticket with quantity of 1 or greater is required for purchasing.',
+    );
+  }
+
+  return { event, promoCode, waitlistOffer, drops, free, paid };
+}
+
+async function openCheckouts(
+  request: CheckoutRequest,
+  { promoCode, waitlistOffer, drops }: Awaited<ReturnType<typeof prepareCheckout>>,
+  linesByPaymentMethod: [Checkout['paymentMethod'], CheckoutLine[]][],
+) {
+  /*
+    Promo code uses, the buyer's waitlist offer and their purchase limits are held until the
+    checkout completes or expires. Anything held by a checkout that fails to open is given back.
+  */
+
+  const now = Date.now();
+  const checkouts = linesByPaymentMethod
+    .filter(([, lines]) => lines.length)
+    .map(
+      ([paymentMethod, lines]): Checkout => ({
+        id: uuidv4(),
+        funderId: request.funderId,
+        eventId: request.eventId,
+        email: request.email?.trim() || null,
+        accountId: request.accountId ?? null,
+        paymentMethod,
+        lines,
+        status: 'pending',
+        createdAt: now,
+        expiresAt: now + CHECKOUT_TTL_MS,
+      }),
+    );
+
+  const releaseAll = () => Promise.all(checkouts.map((checkout) => expireCheckout(checkout.id)));
+
+  try {
+    for (const checkout of checkouts) {
+      await getCheckoutStore().create(checkout);
+      await holdPromoCode(checkout, promoCode);
+      await holdWaitlistOffer(checkout, waitlistOffer);
+      await holdPurchaseLimits(checkout, drops);
+    }
+  } catch (error) {
+    await releaseAll();
+    throw error;
+  }
+
+  return { checkouts, releaseAll };
+}
+
+export async function createCheckout(request: CheckoutRequest): Promise<PurchaseTicketsResult> {
+  const email = request.email?.trim();
+  if (!email) throw new CheckoutError('An email address is required to send the tickets to');
+
+  const prepared = await prepareCheckout(request);
+  const { event, drops, free, paid } = prepared;
+
+  /*
+    Free tickets are issued right away while paid tickets wait on Stripe, so each gets its own
+    checkout. Every free tier is issued by its own worker request, so each also gets its own
+    checkout that completes as soon as its tickets are issued.
+  */
+
+  const { checkouts, releaseAll } = await openCheckouts(request, prepared, [
+    ...free.map((line): [Checkout['paymentMethod'], CheckoutLine[]] => ['free', [line]]),
+    ['stripe', paid],
+  ]);
+  const freeCheckouts = checkouts.filter((checkout) => checkout.paymentMethod === 'free');
+  const stripeCheckout = checkouts.find((checkout) => checkout.paymentMethod === 'stripe');
+
+  const dropsById = new Map(drops.map(({ drop }) => [drop.drop_id, drop]));
+  const basePayload = {
+    name: null,
+    buyerAnswers: request.buyerAnswers,
+    purchaseEmail: email,
+    stripeAccountId: undefined,
+    baseUrl: HOSTNAME,
+  };
+
+  const purchases: PurchaseTicketsResult['purchases'] = [];
+
+  try {
+    for (const freeCheckout of freeCheckouts) {
+      const { dropId, quantity } = freeCheckout.lines[0]!;
+      const data = await postToWorker('purchase-free-tickets', {
+        ...basePayload,
+        ticketAmount: quantity,
+        ticket_info: buildTicketInfo(event, dropsById.get(dropId)!),
+      });
+
+      data.tickets.forEach((ticket: { secret_key: string }) =>
+        purchases.push({ dropId, secretKey: ticket.secret_key }),
+      );
+      await completeCheckout(freeCheckout.id);
+    }
+  } catch (error) {
+    // Completed checkouts aren't expired, so tiers issued before the failure stay sold
+    await releaseAll();
+    throw error;
+  }
+
+  let checkout: PurchaseTicketsResult['checkout'] = null;
+
+  if (stripeCheckout) {
+    try {
+      const stripeAccountId = await viewFunction({
+        contractId: KEYPOM_MARKETPLACE_CONTRACT_ID,
+        methodName: 'get_stripe_id_for_account',
+        args: { account_id: request.funderId },
+      });
+
+      const lineItems = stripeCheckout.lines.map(({ dropId, quantity, unitPriceFiat }) => ({
+        ticketAmount: quantity,
+        ticket_info: buildTicketInfo(event, dropsById.get(dropId)!),
+        unitPriceFiat,
+      }));
+
+      const data = await postToWorker('stripe/create-checkout-session', {
+        ...basePayload,
+        stripeAccountId,
+        payloadVersion: 2,
+        lineItems,
+        // Version 1 fields, see StripeCheckoutWorkerPayload
+        ticketAmount: lineItems[0]!.ticketAmount,
+        ticket_info: lineItems[0]!.ticket_info,
+        promoCode:
+          request.promoCode && stripeCheckout.lines.some((line) => line.promoApplied)
+            ? normalizePromoCode(request.promoCode)
+            : undefined,
+        checkoutId: stripeCheckout.id,
+        expiresAt: stripeCheckout.expiresAt,
+      });
+
+      checkout = {
+        dropIds: stripeCheckout.lines.map((line) => line.dropId),
+        stripeUrl: data.stripe_url,
+      };
+    } catch (error) {
+      await expireCheckout(stripeCheckout.id);
+      throw error;
+    }
+  }
+
+  return { purchases, checkout };
+}
+
+export async function createNearCheckout(request: CheckoutRequest) {
+  /*
+    NOTE: Tickets bought with NEAR are paid for by the buyer's wallet calling the marketplace
+    contract directly, so this checkout only holds the buyer's waitlist offer and limits while
+    they sign. It completes once the signed transactions are verified by confirmNearCheckout().
+    The caller has to check that request.accountId signed the request, see authenticateOrganizer().
+    The contract doesn't know about any of this, so an account calling it directly can still
+    buy past the limits tracked here.
+  */
+
+  if (!request.accountId) throw new CheckoutError('A wallet is required to checkout with NEAR');
+  if (request.promoCode) throw new CheckoutError('Promo codes can only be applied to checkouts by card');
+
+  const prepared = await prepareCheckout(request);
+  if (!prepared.event.nearCheckout) {
+    throw new CheckoutError('This event does not support checkout with NEAR', 409);
+  }
+
+  const { checkouts } = await openCheckouts(request, prepared, [['near', [...prepared.free, ...prepared.paid]]]);
+  const checkout = checkouts[0]!;
+
+  return { checkoutId: checkout.id, expiresAt: checkout.expiresAt };
+}
+
+function isTransactionStatusFailed(status: TransactionStatusView) {
+  // The transaction itself can succeed while one of its receipts, such as minting the tickets, fails
+  const statuses = [status.status, ...status.receipts_outcome.map((receipt) => receipt.outcome.status)];
+  return statuses.some((executionStatus) => !!executionStatus.Failure);
+}
+
+function parseInitialSaleArgs(args: string) {
+  try {
+    return JSON.parse(Buffer.from(args, 'base64').toString()) as {
+      event_id?: string;
+      drop_id?: string;
+      new_keys?: unknown[];
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function confirmNearCheckout(checkoutId: string, transactionHashes: string[]) {
+  const checkout = await getCheckoutStore().find(checkoutId);
+  if (!checkout || checkout.paymentMethod !== 'near' || !checkout.accountId) {
+    throw new CheckoutError('Checkout not found', 404);
+  }
+  if (checkout.status !== 'pending') return null;
+
+  /*
+    Only successful purchases of this checkout's tiers, signed by its account after the checkout
+    was opened and minting the quantity it holds, count. Each transaction can only confirm one
+    checkout, so a purchase can't be replayed to complete another.
+  */
+
+  const purchasedDropIds = new Set<string>();
+
+  for (const transactionHash of transactionHashes) {
+    let status: TransactionStatusView | null;
+    // When the block including the transaction was produced, in milliseconds from Unix Epoch
+    let signedAt = 0;
+
+    try {
+      status = await fetchTransactionStatus(transactionHash, checkout.accountId);
+      if (status) signedAt = await fetchBlockTimestamp(status.transaction_outcome.block_hash);
+    } catch (error) {
+      console.error(`Failed to load NEAR checkout transaction: ${transactionHash}`, error);
+      throw new CheckoutError('Failed to verify the checkout transactions, please try again', 502);
+    }
+
+    if (!status) throw new CheckoutError(`Transaction not found: ${transactionHash}`, 404);
+
+    const functionCall = status.transaction.actions[0]?.FunctionCall;
+    if (
+      !functionCall ||
+      status.transaction.signer_id !== checkout.accountId ||
+      status.transaction.receiver_id !== KEYPOM_MARKETPLACE_CONTRACT_ID ||
+      functionCall.method_name !== 'buy_initial_sale' ||
+      isTransactionStatusFailed(status)
+    ) {
+      continue;
+    }
+
+    const args = parseInitialSaleArgs(functionCall.args);
+    const line = checkout.lines.find((checkoutLine) => checkoutLine.dropId === args?.drop_id);
+    if (
+      !line ||
+      args?.event_id !== checkout.eventId ||
+      args.new_keys?.length !== line.quantity ||
+      signedAt < checkout.createdAt
+    ) {
+      continue;
+    }
+
+    if (await getCheckoutStore().claimTransaction(transactionHash, checkoutId)) {
+      purchasedDropIds.add(line.dropId);
+    }
+  }
+
+  /*
+    When only some tiers went through, the whole checkout still counts towards the buyer's
+    limits. Erring that way can't let anyone buy past a limit. Only the tiers that went through
+    are recorded as sales.
+  */
+
+  return purchasedDropIds.size
+    ? await completeCheckout(checkoutId, [...purchasedDropIds])
+    : await expireCheckout(checkoutId);
+}
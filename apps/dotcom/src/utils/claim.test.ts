@@ -0,0 +1,109 @@
+import { openToast } from '@near-pagoda/ui';
+import { KeyPair } from 'near-api-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useCheckInStore } from '@/stores/check-in';
+
+import type { QueuedScan } from './check-in-queue';
+import { processClaimQueue, retryFailedClaims } from './claim';
+import { withKeySignedAccount } from './keys';
+
+const scans = new Map<string, QueuedScan>();
+
+vi.mock('@near-pagoda/ui', () => ({ openToast: vi.fn() }));
+vi.mock('@/hooks/usePurchasedTickets', () => ({}));
+vi.mock('./transfer', () => ({}));
+vi.mock('./rpc', () => ({ viewFunction: vi.fn(async () => ({ required_gas: '20000000000000' })) }));
+vi.mock('./keys', () => ({ withKeySignedAccount: vi.fn() }));
+vi.mock('./check-in-queue', () => ({
+  loadQueuedScans: async (status?: string) => [...scans.values()].filter((scan) => !status || scan.status === status),
+  saveQueuedScan: async (scan: QueuedScan) => {
+    scans.set(scan.secretKey, scan);
+  },
+  countQueuedScans: async () => ({ pending: 0, claimed: 0, failed: 0 }),
+}));
+
+const options = { keyStore: {}, near: {} } as Parameters<typeof processClaimQueue>[0];
+
+describe('processClaimQueue', () => {
+  const secretKey = KeyPair.fromRandom('ed25519').toString();
+  const claim = vi.fn();
+  const now = new Date('2026-03-08T18:00:00Z').getTime();
+
+  const queueScan = (scan: Partial<QueuedScan> = {}) =>
+    scans.set(secretKey, {
+      secretKey,
+      eventId: '1714000000000',
+      scannedAt: now,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      ...scan,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.mocked(withKeySignedAccount).mockImplementation(async (_options, callback) =>
+      callback({ functionCall: claim } as unknown as Parameters<typeof callback>[0]),
+    );
+  });
+
+  afterEach(() => {
+    scans.clear();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially between failed claims', async () => {
+    claim.mockRejectedValue(new Error('RPC unavailable'));
+    queueScan();
+
+    await processClaimQueue(options);
+    expect(scans.get(secretKey)).toMatchObject({ attempts: 1, status: 'pending', nextAttemptAt: now + 2_000 });
+
+    // Scans aren't retried before they're due
+    await processClaimQueue(options);
+    expect(claim).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(now + 2_000);
+    await processClaimQueue(options);
+    expect(scans.get(secretKey)).toMatchObject({ attempts: 2, nextAttemptAt: now + 2_000 + 4_000 });
+    expect(scans.get(secretKey)!.lastError).toBe('RPC unavailable');
+  });
+
+  it('caps the delay between retries at five minutes', async () => {
+    claim.mockRejectedValue(new Error('RPC unavailable'));
+    queueScan({ attempts: 8 });
+
+    await processClaimQueue(options);
+    expect(scans.get(secretKey)).toMatchObject({ attempts: 9, status: 'pending', nextAttemptAt: now + 5 * 60_000 });
+  });
+
+  it('gives up after the last attempt until the claim is retried by hand', async () => {
+    claim.mockRejectedValue(new Error('RPC unavailable'));
+    queueScan({ attempts: 9 });
+
+    await processClaimQueue(options);
+    expect(scans.get(secretKey)).toMatchObject({ attempts: 10, status: 'failed' });
+    expect(openToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Ticket Claim Failed' }));
+
+    claim.mockResolvedValue({});
+    await retryFailedClaims(options);
+    expect(scans.get(secretKey)).toMatchObject({ status: 'claimed', claimedAt: now });
+  });
+
+  it('waits until the scanner is back online', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    queueScan();
+
+    await processClaimQueue(options);
+    expect(claim).not.toHaveBeenCalled();
+    expect(useCheckInStore.getState().isProcessing).toBe(false);
+  });
+});
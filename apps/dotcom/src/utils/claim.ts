@@ -1,31 +1,47 @@
 import { getPubFromSecret } from '@keypom/core';
 import { openToast } from '@near-pagoda/ui';
-import { Account, KeyPair, Near } from 'near-api-js';
+import { Near } from 'near-api-js';
 import { BrowserLocalStorageKeyStore } from 'near-api-js/lib/key_stores';
+import { v4 as uuidv4 } from 'uuid';
 
 import { fetchDetailsForPurchasedTicket } from '@/hooks/usePurchasedTickets';
+import { useCheckInStore } from '@/stores/check-in';
 
+import { getTotalAdmissions, resolveAdmissionEntry } from './admissions';
+import type { CheckInLogEntry, RecordCheckInResult } from './check-in-log';
+import { countQueuedScans, enqueueScan, findQueuedScan, loadQueuedScans, saveQueuedScan } from './check-in-queue';
 import { KEYPOM_EVENTS_CONTRACT_ID } from './config';
+import { createCheckInMessage, signWithTicketKey, withKeySignedAccount } from './keys';
+import { pluralize } from './pluralize';
+import { viewFunction } from './rpc';
 import { validateDateAndTime } from './time';
+import { findTicketTransfer } from './transfer';
+import type { TicketTransferEntry } from './transfer-log';
 
-const verifiedSecretKeys: string[] = [];
+const CLAIM_RETRY_BASE_DELAY_MS = 2_000;
+const CLAIM_RETRY_MAX_DELAY_MS = 5 * 60_000;
+const MAX_CLAIM_ATTEMPTS = 10;
 
 type VerifyAndClaimTicketOptions = {
   eventId: string;
   keyStore: BrowserLocalStorageKeyStore;
   near: Near;
   secretKey: string;
-  viewAccount: Account;
 };
 
-export type VerifyAndClaimTicketResult = { isVerified: boolean; message?: string };
+export type VerifyAndClaimTicketResult = {
+  isVerified: boolean;
+  message?: string;
+  scannedElsewhere?: CheckInLogEntry & { secondsAgo: number };
+  transferred?: TicketTransferEntry;
+  entry?: { number: number; total: number };
+};
 
 export async function verifyAndClaimTicket({
   eventId,
   keyStore,
   near,
   secretKey,
-  viewAccount,
 }: VerifyAndClaimTicketOptions): Promise<VerifyAndClaimTicketResult> {
   try {
     if (!secretKey) {
@@ -35,9 +51,10 @@ export async function verifyAndClaimTicket({
       };
     }
 
-    const hasBeenVerified = verifiedSecretKeys.includes(secretKey);
+    const queuedScan = await findQueuedScan(secretKey);
 
-    if (hasBeenVerified) {
+    // Passes with several admissions need the ticket details to know which entry this scan is for
+    if (queuedScan && !queuedScan.entryId) {
       // Return early before making any API requests if we know we've already verified the ticket
       return {
         isVerified: true,
@@ -45,7 +62,7 @@ export async function verifyAndClaimTicket({
       };
     }
 
-    const details = await fetchDetailsForPurchasedTicket(secretKey, viewAccount);
+    const details = await fetchDetailsForPurchasedTicket(secretKey);
     const matchesEvent = details.extra.eventId === eventId;
     /*
         If remaining uses is less than 2, we assume the ticket has been scanned/verified.
@@ -53,11 +70,15 @@ export async function verifyAndClaimTicket({
         admitted into the event, the key and its metadata are not deleted/lost:
       */
     const hasBeenUsed = details.usesRemaining < 2;
+    const totalAdmissions = getTotalAdmissions(details.extra);
 
     if (hasBeenUsed) {
       return {
-        isVerified: true,
-        message: 'Ticket has already been verified',
+        isVerified: totalAdmissions === 1,
+        message:
+          totalAdmissions === 1
+            ? 'Ticket has already been verified'
+            : `All ${totalAdmissions} entries for this ticket have been used`,
       };
     }
 
@@ -78,21 +99,85 @@ export async function verifyAndClaimTicket({
       }
     }
 
-    verifiedSecretKeys.push(secretKey);
+    const admission = resolveAdmissionEntry(details.extra, details.usesRemaining);
+
+    if (admission.message) {
+      return {
+        isVerified: false,
+        message: admission.message,
+      };
+    }
+
+    if (queuedScan && admission.entryId) {
+      if (queuedScan.entryId === admission.entryId) {
+        return {
+          isVerified: true,
+          message: 'Ticket has already been verified',
+        };
+      }
+
+      // Each entry needs its own claim, so the previous entry's claim has to land before the next scan is queued
+      if (queuedScan.status === 'pending') {
+        return {
+          isVerified: false,
+          message: 'Check-in for a previous entry is still syncing, please try again shortly',
+        };
+      }
+    }
+
+    // Passes with several admissions are checked in once per entry (such as once per day)
+    const checkInEventId = admission.entryId ? `${eventId}:${admission.entryId}` : eventId;
+    const sharedCheckIn = await recordSharedCheckIn({
+      eventId: checkInEventId,
+      publicKey: details.publicKey,
+      secretKey,
+    });
+
+    if (sharedCheckIn && !sharedCheckIn.recorded) {
+      if (sharedCheckIn.checkIn.deviceId !== getScannerDeviceId()) {
+        const secondsAgo = Math.max(0, Math.round((Date.now() - sharedCheckIn.checkIn.checkedInAt) / 1000));
+
+        return {
+          isVerified: false,
+          message: `Scanned at another door ${secondsAgo} ${pluralize(secondsAgo, 'second')} ago`,
+          scannedElsewhere: { ...sharedCheckIn.checkIn, secondsAgo },
+        };
+      }
+
+      return {
+        isVerified: true,
+        message: 'Ticket has already been verified',
+      };
+    }
+
+    await enqueueScan({ eventId, secretKey, entryId: admission.entryId ?? undefined });
 
     /*
-      NOTE: We purposefully don't await on claimTicket() below since it can take awhile to process.
-      At this point, we've already verified the ticket is valid, so we can return a successful
-      verification notification and assume the claiming logic will eventually finish.
+      NOTE: We purposefully don't await on processClaimQueue() below since it can take awhile to process.
+      At this point, we've already verified the ticket is valid and persisted the scan, so we can return
+      a successful verification notification and let the queue retry the claim until it lands.
     */
 
-    claimTicket({ secretKey, keyStore, viewAccount, near });
+    processClaimQueue({ keyStore, near });
 
     return {
       isVerified: true,
+      message: totalAdmissions > 1 ? `Entry ${admission.entry.number} of ${admission.entry.total}` : undefined,
+      entry: admission.entry,
     };
   } catch (error) {
     console.error(error);
+
+    // Keys rotated by a transfer no longer exist on-chain, which is why loading their details failed
+    const transfer = await findTransferForSecretKey(secretKey);
+
+    if (transfer) {
+      return {
+        isVerified: false,
+        message: 'Ticket was transferred to someone else',
+        transferred: transfer,
+      };
+    }
   }
 
   return {
@@ -101,48 +186,182 @@ export async function verifyAndClaimTicket({
   };
 }
 
+async function findTransferForSecretKey(secretKey: string) {
+  try {
+    return await findTicketTransfer(getPubFromSecret(secretKey));
+  } catch (error) {
+    // The scanned QR code wasn't a valid secret key
+    console.error(error);
+  }
+
+  return null;
+}
+
+function getScannerDeviceId() {
+  let deviceId = localStorage.getItem('SCANNER_DEVICE_ID');
+
+  if (!deviceId) {
+    deviceId = uuidv4();
+    localStorage.setItem('SCANNER_DEVICE_ID', deviceId);
+  }
+
+  return deviceId;
+}
+
+async function recordSharedCheckIn({
+  eventId,
+  publicKey,
+  secretKey,
+}: {
+  eventId: string;
+  publicKey: string;
+  secretKey: string;
+}) {
+  /*
+    NOTE: If the shared check-in log can't be reached (for example, the scanner is offline), we
+    fall back to local verification so door staff can keep admitting attendees.
+  */
+
+  try {
+    const signedAt = Date.now();
+    const response = await fetch('/api/check-ins', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        eventId,
+        publicKey,
+        deviceId: getScannerDeviceId(),
+        signedAt,
+        signature: signWithTicketKey(secretKey, createCheckInMessage(eventId, publicKey, signedAt)),
+      }),
+    });
+
+    if (!response.ok) throw new Error(`Check-in log request failed with status: ${response.status}`);
+
+    return (await response.json()) as RecordCheckInResult;
+  } catch (error) {
+    console.error('Failed to record shared check-in', error);
+  }
+
+  return null;
+}
+
 type ClaimTicketOptions = {
   keyStore: BrowserLocalStorageKeyStore;
   near: Near;
   secretKey: string;
-  viewAccount: Account;
 };
 
-async function claimTicket({ secretKey, keyStore, viewAccount, near }: ClaimTicketOptions) {
-  try {
-    const publicKey = getPubFromSecret(secretKey);
-    console.log('Ticket claim started', publicKey);
+type ProcessClaimQueueOptions = Omit<ClaimTicketOptions, 'secretKey'>;
 
-    const signingKeyPair = KeyPair.fromString(secretKey);
-    await keyStore.setKey(near.connection.networkId, KEYPOM_EVENTS_CONTRACT_ID, signingKeyPair);
-    const keypomAccount = new Account(near.connection, KEYPOM_EVENTS_CONTRACT_ID);
+let claimQueuePromise: Promise<void> | null = null;
 
-    const keyInfo = await viewAccount.viewFunction({
-      contractId: KEYPOM_EVENTS_CONTRACT_ID,
-      methodName: 'get_key_information',
-      args: {
-        key: publicKey,
-      },
+export function processClaimQueue(options: ProcessClaimQueueOptions) {
+  /*
+    Claims are processed one at a time since each claim temporarily stores its
+    secret key as the signing key for KEYPOM_EVENTS_CONTRACT_ID in the key store.
+  */
+
+  if (!claimQueuePromise) {
+    claimQueuePromise = processDueClaims(options).finally(() => {
+      claimQueuePromise = null;
     });
-    const gasToAttach = keyInfo.required_gas;
+  }
 
-    await keypomAccount.functionCall({
+  return claimQueuePromise;
+}
+
+export async function retryFailedClaims(options: ProcessClaimQueueOptions) {
+  const failedScans = await loadQueuedScans('failed');
+
+  for (const scan of failedScans) {
+    await saveQueuedScan({ ...scan, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  }
+
+  await processClaimQueue(options);
+}
+
+export async function refreshClaimQueueCounts() {
+  const counts = await countQueuedScans();
+  useCheckInStore.getState().setCounts(counts);
+}
+
+async function processDueClaims(options: ProcessClaimQueueOptions) {
+  const { setIsProcessing } = useCheckInStore.getState();
+
+  try {
+    setIsProcessing(true);
+    await refreshClaimQueueCounts();
+
+    if (!navigator.onLine) return;
+
+    const pendingScans = await loadQueuedScans('pending');
+    const dueScans = pendingScans
+      .filter((scan) => scan.nextAttemptAt <= Date.now())
+      .sort((a, b) => a.scannedAt - b.scannedAt);
+
+    for (const scan of dueScans) {
+      try {
+        await claimTicket({ ...options, secretKey: scan.secretKey });
+        await saveQueuedScan({ ...scan, status: 'claimed', claimedAt: Date.now(), lastError: undefined });
+      } catch (error) {
+        console.error('Ticket claim failed', error);
+
+        const attempts = scan.attempts + 1;
+        const hasFailed = attempts >= MAX_CLAIM_ATTEMPTS;
+        const delay = Math.min(CLAIM_RETRY_BASE_DELAY_MS * 2 ** scan.attempts, CLAIM_RETRY_MAX_DELAY_MS);
+
+        await saveQueuedScan({
+          ...scan,
+          attempts,
+          status: hasFailed ? 'failed' : 'pending',
+          nextAttemptAt: Date.now() + delay,
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+
+        if (hasFailed) {
+          openToast({
+            type: 'error',
+            title: 'Ticket Claim Failed',
+            description: `The previously verified ticket is valid, but claiming failed after ${attempts} attempts`,
+          });
+        }
+      }
+
+      await refreshClaimQueueCounts();
+    }
+  } catch (error) {
+    console.error('Failed to process ticket claim queue', error);
+  } finally {
+    setIsProcessing(false);
+  }
+}
+
+async function claimTicket({ secretKey, keyStore, near }: ClaimTicketOptions) {
+  const publicKey = getPubFromSecret(secretKey);
+  console.log('Ticket claim started', publicKey);
+
+  const keyInfo = await viewFunction({
+    contractId: KEYPOM_EVENTS_CONTRACT_ID,
+    methodName: 'get_key_information',
+    args: {
+      key: publicKey,
+    },
+  });
+  const gasToAttach = keyInfo.required_gas;
+
+  await withKeySignedAccount({ keyStore, near, secretKey }, (keypomAccount) =>
+    keypomAccount.functionCall({
       contractId: KEYPOM_EVENTS_CONTRACT_ID,
       methodName: 'claim',
       args: {
         account_id: KEYPOM_EVENTS_CONTRACT_ID,
       },
       gas: gasToAttach,
-    });
-
-    console.log('Ticket claim finished', publicKey);
-  } catch (error) {
-    console.error('Ticket claim failed', error);
+    }),
+  );
 
-    openToast({
-      type: 'error',
-      title: 'Ticket Claim Failed',
-      description: 'The previously verified ticket is valid, but the claiming process failed',
-    });
-  }
+  console.log('Ticket claim finished', publicKey);
 }
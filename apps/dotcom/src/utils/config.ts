@@ -2,9 +2,34 @@ import { NetworkId } from '@near-wallet-selector/core';
 
 export const APPLE_WALLET_CERTIFICATE_PASSWORD = process.env.APPLE_WALLET_CERTIFICATE_PASSWORD || '';
 export const APPLE_WALLET_CERTIFICATE_PEM = process.env.PASS_COM_PAGODA_TICKETING_PEM;
+export const APPLE_WALLET_PASS_TYPE_IDENTIFIER =
+  process.env.APPLE_WALLET_PASS_TYPE_IDENTIFIER || 'pass.com.pagoda.ticketing';
+export const APPLE_WALLET_TEAM_IDENTIFIER = process.env.APPLE_WALLET_TEAM_IDENTIFIER || '';
+export const DATABASE_URL = process.env.DATABASE_URL;
+// Authenticates the server-to-server calls between this app and the events worker
+export const EVENTS_WORKER_SECRET = process.env.EVENTS_WORKER_SECRET || '';
+export const GOOGLE_WALLET_ISSUER_ID = process.env.GOOGLE_WALLET_ISSUER_ID || '';
+export const GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL = process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL || '';
+export const GOOGLE_WALLET_PRIVATE_KEY = (process.env.GOOGLE_WALLET_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+export const INDEXER_SECRET = process.env.INDEXER_SECRET || '';
+// Optional comma separated funder accounts, when set only these funders are indexed
+export const INDEXER_FUNDER_ALLOWLIST = (process.env.INDEXER_FUNDER_ALLOWLIST || '')
+  .split(',')
+  .map((funderId) => funderId.trim())
+  .filter(Boolean);
+// Keys the promo code hashes stored on-chain, without it the hashes could be brute forced offline
+export const PROMO_CODE_SECRET = process.env.PROMO_CODE_SECRET || '';
 export const HOSTNAME = process.env.NEXT_PUBLIC_HOSTNAME || 'http://localhost:3000';
 export const NETWORK_ID: NetworkId = (process.env.NEXT_PUBLIC_NETWORK_ID as NetworkId) || 'testnet';
 export const NETWORK_NODE_URL = process.env.NEXT_PUBLIC_NETWORK_NODE_URL || 'https://rpc.testnet.near.org';
+// Optional comma separated fallback nodes, tried in order when NETWORK_NODE_URL is unhealthy
+export const NETWORK_NODE_URLS = [
+  NETWORK_NODE_URL,
+  ...(process.env.NEXT_PUBLIC_NETWORK_FALLBACK_NODE_URLS || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url && url !== NETWORK_NODE_URL),
+];
 export const EVENTS_WORKER_BASE =
   process.env.NEXT_PUBLIC_EVENTS_WORKER_BASE || 'https://stripe-worker-template.keypom.workers.dev';
 export const KEYPOM_CONTRACT_ID = process.env.NEXT_PUBLIC_KEYPOM_CONTRACT_ID || 'v2.keypom.testnet';
@@ -11,3 +11,111 @@ export function arrayBufferToBase64(buffer: any) {
 export function getByteSize(str: string) {
   return new Blob([str]).size;
 }
+
+export function base64ToArrayBuffer(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+const RSA_KEY_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+const PASSPHRASE_ITERATIONS = 250_000;
+
+export async function generateKeyPair() {
+  return await crypto.subtle.generateKey(RSA_KEY_PARAMS, true, ['encrypt', 'decrypt']);
+}
+
+export async function publicKeyToBase64(publicKey: CryptoKey) {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('spki', publicKey));
+}
+
+export async function base64ToPublicKey(base64: string) {
+  return await crypto.subtle.importKey('spki', base64ToArrayBuffer(base64), RSA_KEY_PARAMS, true, ['encrypt']);
+}
+
+async function deriveKeyFromPassphrase(passphrase: string, salt: ArrayBuffer) {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PASSPHRASE_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptPrivateKey(privateKey: CryptoKey, passphrase: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, salt.buffer);
+  const exportedKey = await crypto.subtle.exportKey('pkcs8', privateKey);
+  const encryptedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, exportedKey);
+
+  return {
+    encPrivKey: arrayBufferToBase64(encryptedKey),
+    iv: arrayBufferToBase64(iv),
+    salt: arrayBufferToBase64(salt),
+  };
+}
+
+export async function decryptPrivateKey(
+  { encPrivKey, iv, salt }: { encPrivKey: string; iv: string; salt: string },
+  passphrase: string,
+) {
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, base64ToArrayBuffer(salt));
+  // Throws if the passphrase is incorrect since AES-GCM authenticates the ciphertext
+  const exportedKey = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToArrayBuffer(iv) },
+    wrappingKey,
+    base64ToArrayBuffer(encPrivKey),
+  );
+
+  return await crypto.subtle.importKey('pkcs8', exportedKey, RSA_KEY_PARAMS, false, ['decrypt']);
+}
+
+export async function encryptWithPublicKey(data: string, publicKey: CryptoKey) {
+  /*
+    RSA-OAEP can only encrypt a couple hundred bytes, so the data is encrypted with a
+    one time AES key and only that AES key is encrypted with the RSA public key.
+  */
+
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, new TextEncoder().encode(data));
+  const encryptedKey = await crypto.subtle.encrypt(
+    { name: 'RSA-OAEP' },
+    publicKey,
+    await crypto.subtle.exportKey('raw', dataKey),
+  );
+
+  return JSON.stringify({
+    key: arrayBufferToBase64(encryptedKey),
+    iv: arrayBufferToBase64(iv),
+    data: arrayBufferToBase64(ciphertext),
+  });
+}
+
+export async function decryptWithPrivateKey(encrypted: string, privateKey: CryptoKey) {
+  const { key, iv, data } = JSON.parse(encrypted) as { key: string; iv: string; data: string };
+
+  const rawDataKey = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, base64ToArrayBuffer(key));
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['decrypt']);
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToArrayBuffer(iv) },
+    dataKey,
+    base64ToArrayBuffer(data),
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
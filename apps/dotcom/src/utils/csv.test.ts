@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes cells with separators, quotes and line breaks', () => {
+    expect(
+      toCsv([
+        ['Tier', 'Note'],
+        ['VIP, front row', 'Said "hi"\nand left'],
+      ]),
+    ).toBe('Tier,Note\n"VIP, front row","Said ""hi""\nand left"\n');
+  });
+
+  it('prefixes cells that spreadsheet apps would run as formulas', () => {
+    const cells = ['=HYPERLINK("https://example.com")', '+1 555', '-2', '@SUM(A1)', '\tTab', '\rReturn'];
+
+    expect(toCsv([cells]).trimEnd().split(',')).toEqual([
+      `"'=HYPERLINK(""https://example.com"")"`,
+      "'+1 555",
+      "'-2",
+      "'@SUM(A1)",
+      "'\tTab",
+      `"'\rReturn"`,
+    ]);
+    expect(toCsv([['fan@example.com', 'a=b']])).toBe('fan@example.com,a=b\n');
+  });
+
+  it('starts Excel exports with a byte order mark and uses CRLF line endings', () => {
+    expect(toCsv([['Tier'], ['Café']], { excel: true })).toBe('\uFEFFTier\r\nCafé\r\n');
+  });
+});
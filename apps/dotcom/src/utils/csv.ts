@@ -0,0 +1,23 @@
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+type CsvOptions = {
+  excel?: boolean;
+};
+
+function escapeCell(value: string) {
+  // Spreadsheet apps run cells that start like a formula, so they're prefixed to be read as text
+  const safeValue = FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value;
+
+  if (/[",\r\n]/.test(safeValue)) {
+    return `"${safeValue.replace(/"/g, '""')}"`;
+  }
+
+  return safeValue;
+}
+
+export function toCsv(rows: string[][], { excel }: CsvOptions = {}) {
+  const csv = rows.map((row) => row.map(escapeCell).join(',')).join(excel ? '\r\n' : '\n');
+
+  // Excel only reads a CSV as UTF-8 when it starts with a byte order mark
+  return excel ? `\uFEFF${csv}\r\n` : `${csv}\n`;
+}
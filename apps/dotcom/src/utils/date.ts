@@ -1,23 +1,32 @@
+import { DateTime } from 'luxon';
+
 import type { FunderEventMetadata } from './helpers';
+import { getDateAndTimeWindow } from './time';
+
+function getEventTimeZone(event: FunderEventMetadata) {
+  return event.date.timeZone ?? event.timeZone;
+}
+
+function parseEventDateTime(event: FunderEventMetadata) {
+  const { start } = getDateAndTimeWindow({ ...event.date, timeZone: getEventTimeZone(event) });
+  return start;
+}
 
 export function parseEventDate(event: FunderEventMetadata) {
-  const date = new Date(event.date.startDate);
+  return parseEventDateTime(event).toJSDate();
+}
 
-  if (event.date.startTime) {
-    const segments = event.date.startTime.split(':');
-    const hours = Number(segments[0]);
-    const minutes = Number(segments[1]);
-    date.setHours(hours);
-    date.setMinutes(minutes);
-  }
+export function parseEventEndDate(event: FunderEventMetadata) {
+  if (!event.date.endDate) return undefined;
 
-  return date;
+  const { end } = getDateAndTimeWindow({ ...event.date, timeZone: getEventTimeZone(event) });
+  return end.toJSDate();
 }
 
 export function displayEventDate(event: FunderEventMetadata) {
-  const date = new Date(event.date.startDate).toLocaleDateString(undefined, {
-    dateStyle: 'short',
-  });
+  const timeZone = getEventTimeZone(event);
+  const start = DateTime.fromMillis(event.date.startDate, { zone: timeZone ?? 'local' });
+  const date = start.toLocaleString(DateTime.DATE_SHORT);
 
   let time: string | undefined = undefined;
   if (event.date.startTime) {
@@ -27,6 +36,11 @@ export function displayEventDate(event: FunderEventMetadata) {
     }
   }
 
+  // Times are only meaningful in the event's zone, so we show it for events that store one
+  if (time && timeZone) {
+    time += ` ${parseEventDateTime(event).offsetNameShort}`;
+  }
+
   const dateAndTime = `${date}${time ? ` at ${time}` : ''}`;
 
   return {
@@ -0,0 +1,18 @@
+import { createHash } from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+export function sendJsonWithEtag(req: NextApiRequest, res: NextApiResponse, body: unknown) {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`;
+
+  res.setHeader('ETag', etag);
+  // Clients always revalidate, but unchanged responses only cost a 304
+  res.setHeader('Cache-Control', 'public, max-age=0, must-revalidate');
+
+  if (req.headers['if-none-match'] === etag) {
+    return res.status(304).end();
+  }
+
+  res.setHeader('Content-Type', 'application/json');
+  return res.status(200).send(json);
+}
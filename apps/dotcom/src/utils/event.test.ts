@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { fetchKeysForDrop } from '@/hooks/useDrops';
+
+import { KEYPOM_EVENTS_CONTRACT_ID, KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
+import { cancelEvent } from './event';
+import { KEYS_PER_DELETE } from './helpers';
+import { getOrganizerAuthHeader } from './organizer-auth';
+import { viewFunction } from './rpc';
+import type { WalletStore } from './types';
+
+vi.mock('@/hooks/useDrops', () => ({ fetchKeysForDrop: vi.fn() }));
+vi.mock('./organizer-auth', () => ({ getOrganizerAuthHeader: vi.fn() }));
+vi.mock('./rpc', () => ({ viewFunction: vi.fn() }));
+
+const EVENT_ID = '1714000000000';
+const DROP_IDS = ['1714000000000-ga', '1714000000000-vip'];
+
+const mockFunderMetadata = (cancelled = false) => {
+  const metadata = { [EVENT_ID]: { id: EVENT_ID, name: 'Meetup', cancelled: cancelled || undefined } };
+  vi.mocked(viewFunction).mockResolvedValue({ metadata: JSON.stringify(metadata) });
+};
+
+const createWallet = () => {
+  const signAndSendTransactions = vi.fn().mockResolvedValue([]);
+  return {
+    wallet: { id: 'organizer.near', signAndSendTransactions } as unknown as WalletStore['wallet'],
+    signAndSendTransactions,
+  };
+};
+
+describe('cancelEvent', () => {
+  const workerFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', workerFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(getOrganizerAuthHeader).mockResolvedValue('NEAR organizer-token');
+    vi.mocked(fetchKeysForDrop).mockImplementation(async (dropId) =>
+      Array.from({ length: dropId.endsWith('ga') ? 120 : 3 }, (_, index) => ({
+        pk: `ed25519:${dropId}-${index}`,
+        drop_id: dropId,
+        uses_remaining: 2,
+      })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  it('refunds ticket holders before invalidating their tickets', async () => {
+    mockFunderMetadata();
+    workerFetch.mockResolvedValue(new Response(JSON.stringify({ refunded: 4 })));
+    const { wallet, signAndSendTransactions } = createWallet();
+
+    await expect(
+      cancelEvent({ accountId: 'organizer.near', dropIds: DROP_IDS, eventId: EVENT_ID, wallet }),
+    ).resolves.toEqual({ refunded: 4, notRefunded: 0 });
+
+    expect(workerFetch).toHaveBeenCalledWith('/api/refunds', expect.anything());
+    expect(workerFetch.mock.calls[0]![1].headers.Authorization).toBe('NEAR organizer-token');
+    expect(JSON.parse(workerFetch.mock.calls[0]![1].body)).toEqual({
+      eventId: EVENT_ID,
+      funderId: 'organizer.near',
+      dropIds: DROP_IDS,
+    });
+
+    expect(signAndSendTransactions).toHaveBeenCalledTimes(2);
+    const [closeCall, invalidateCall] = signAndSendTransactions.mock.calls.map(([params]) => params.transactions);
+    expect(closeCall.map((transaction: any) => transaction.receiverId)).toEqual([
+      KEYPOM_MARKETPLACE_CONTRACT_ID,
+      KEYPOM_EVENTS_CONTRACT_ID,
+    ]);
+    expect(JSON.parse(closeCall[1].actions[0].params.args.change_user_metadata)[EVENT_ID].cancelled).toBe(true);
+    // The cancelled flag and date make the stored metadata longer, so storage is paid for
+    expect(BigInt(closeCall[1].actions[0].params.deposit)).toBeGreaterThan(BigInt(0));
+
+    expect(workerFetch.mock.invocationCallOrder[0]).toBeLessThan(signAndSendTransactions.mock.invocationCallOrder[1]!);
+
+    // 120 keys are split into batches of 50, the 3 VIP keys fit in one
+    expect(invalidateCall).toHaveLength(Math.ceil(120 / KEYS_PER_DELETE) + 1);
+    for (const transaction of invalidateCall) {
+      expect(transaction.signerId).toBe('organizer.near');
+      expect(transaction.actions).toHaveLength(1);
+      expect(transaction.actions[0].params.methodName).toBe('delete_keys');
+      expect(transaction.actions[0].params.args.delete_on_empty).toBe(false);
+      expect(transaction.actions[0].params.args.public_keys.length).toBeLessThanOrEqual(KEYS_PER_DELETE);
+    }
+    expect(invalidateCall.flatMap((transaction: any) => transaction.actions[0].params.args.public_keys)).toHaveLength(
+      123,
+    );
+  });
+
+  it('keeps tickets bought with NEAR valid and reports them as not refunded', async () => {
+    mockFunderMetadata(true);
+    workerFetch.mockResolvedValue(new Response(JSON.stringify({ refunded: 2 })));
+    vi.mocked(fetchKeysForDrop).mockImplementation(async (dropId) => [
+      { pk: `ed25519:${dropId}-stripe`, drop_id: dropId, uses_remaining: 1, owner_id: KEYPOM_EVENTS_CONTRACT_ID },
+      { pk: `ed25519:${dropId}-near`, drop_id: dropId, uses_remaining: 1, owner_id: 'buyer.near' },
+    ]);
+    const { wallet, signAndSendTransactions } = createWallet();
+
+    await expect(
+      cancelEvent({ accountId: 'organizer.near', dropIds: DROP_IDS, eventId: EVENT_ID, wallet }),
+    ).resolves.toEqual({ refunded: 2, notRefunded: 2 });
+
+    const deleted = signAndSendTransactions.mock.calls[0]![0].transactions.flatMap(
+      (transaction: any) => transaction.actions[0].params.args.public_keys,
+    );
+    expect(deleted).toEqual(DROP_IDS.map((dropId) => `ed25519:${dropId}-stripe`));
+  });
+
+  it('keeps every ticket valid when the refund fails', async () => {
+    mockFunderMetadata();
+    workerFetch.mockResolvedValue(new Response('Stripe is unavailable', { status: 502 }));
+    const { wallet, signAndSendTransactions } = createWallet();
+
+    await expect(
+      cancelEvent({ accountId: 'organizer.near', dropIds: DROP_IDS, eventId: EVENT_ID, wallet }),
+    ).rejects.toThrow('refunding ticket holders failed');
+
+    expect(signAndSendTransactions).toHaveBeenCalledTimes(1);
+    expect(fetchKeysForDrop).not.toHaveBeenCalled();
+  });
+
+  it('retries the refund without closing the event again', async () => {
+    mockFunderMetadata(true);
+    workerFetch.mockResolvedValue(new Response(JSON.stringify({ refunded: 1 })));
+    const { wallet, signAndSendTransactions } = createWallet();
+
+    await cancelEvent({ accountId: 'organizer.near', dropIds: DROP_IDS, eventId: EVENT_ID, wallet });
+
+    expect(workerFetch).toHaveBeenCalledTimes(1);
+    expect(signAndSendTransactions).toHaveBeenCalledTimes(1);
+    expect(signAndSendTransactions.mock.calls[0]![0].transactions[0].actions[0].params.methodName).toBe('delete_keys');
+  });
+});
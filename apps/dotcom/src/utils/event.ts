@@ -1,8 +1,23 @@
-import { Action } from '@near-wallet-selector/core';
+import { DropKeyInfo, fetchKeysForDrop } from '@/hooks/useDrops';
 
 import { KEYPOM_EVENTS_CONTRACT_ID } from './config';
-import { createPayload, FormSchema } from './helpers';
+import {
+  createCancelPayload,
+  createInvalidateKeysPayload,
+  createPayload,
+  createUpdatePayload,
+  EditEventFormSchema,
+  FormSchema,
+  FunderEventMetadata,
+  FunderMetadata,
+  MAX_ROYALTY_PERCENT,
+} from './helpers';
+import { getOrganizerAuthHeader } from './organizer-auth';
+import { fetchPromoCodeHashes, MIN_PROMO_CODE_LENGTH } from './promo-codes';
+import { createEventEncryption, MIN_QUESTIONS_PASSPHRASE_LENGTH } from './questions';
+import { viewFunction } from './rpc';
 import { pinMediaToIPFS } from './stripe';
+import { isValidTimeZone } from './time';
 import type { WalletStore } from './types';
 
 export function formatEventIdQueryParam(publisherAccountId: string, eventId: string) {
@@ -53,26 +68,26 @@ export const createNewEvent = async ({
       localStorage.setItem('EVENT_INFO_SUCCESS_DATA', JSON.stringify({ eventId }));
       if (!stripeAccountId) throw Error('Stripe Account ID is not available');
 
-      const { actions, dropIds }: { actions: Action[]; dropIds: string[] } = await createPayload({
+      const encryption = formData.questions?.length
+        ? await createEventEncryption(formData.questionsPassphrase)
+        : undefined;
+
+      const { transactions, dropIds, ticketIndexByDropId } = await createPayload({
         accountId: accountId!,
         formData,
         stripeAccountId,
         eventId,
         eventArtworkCid,
         ticketArtworkCids,
+        encryption,
+        promoCodeHashes: await fetchPromoCodeHashes({ accountId, eventId, promoCodes: formData.promoCodes, wallet }),
       });
 
+      // Recurring events can have several drops (one per session) for a single ticket tier
       const priceByDropId: Record<string, number> = {};
-      for (let i = 0; i < formData.tickets.length; i++) {
-        const ticketDropId = dropIds[i];
-        if (formData.tickets[i]?.priceFiat) {
-          priceByDropId[ticketDropId || `${eventId}-${i}`] = Math.round(
-            parseFloat(formData.tickets[i]?.priceFiat || ''),
-          );
-        }
-        {
-          priceByDropId[ticketDropId || `${eventId}-${i}`] = 0;
-        }
+      for (const ticketDropId of dropIds) {
+        const ticket = formData.tickets[ticketIndexByDropId[ticketDropId] ?? -1];
+        priceByDropId[ticketDropId] = ticket?.priceFiat ? Math.round(parseFloat(ticket.priceFiat)) : 0;
       }
       const stripeAccountInfo = {
         stripeAccountId,
@@ -83,10 +98,8 @@ export const createNewEvent = async ({
 
       localStorage.setItem('EVENT_INFO_SUCCESS_DATA', JSON.stringify(stripeAccountInfo));
 
-      await wallet.signAndSendTransaction({
-        signerId: wallet.id,
-        receiverId: KEYPOM_EVENTS_CONTRACT_ID,
-        actions,
+      await wallet.signAndSendTransactions({
+        transactions: transactions.map((transaction) => ({ ...transaction, signerId: accountId })),
       });
     }
   } catch (error) {
@@ -94,6 +107,152 @@ export const createNewEvent = async ({
   }
 };
 
+export async function fetchFunderMetadata(accountId: string) {
+  const funderInfo: { metadata: string } | null = await viewFunction({
+    contractId: KEYPOM_EVENTS_CONTRACT_ID,
+    methodName: 'get_funder_info',
+    args: { account_id: accountId },
+  });
+
+  return funderInfo?.metadata ?? '{}';
+}
+
+export const updateEvent = async ({
+  accountId,
+  eventId,
+  formData,
+  wallet,
+}: {
+  accountId: string | undefined;
+  eventId: string;
+  formData: EditEventFormSchema;
+  wallet: WalletStore['wallet'];
+}) => {
+  if (!wallet || !accountId) {
+    throw new Error('Wallet not connected');
+  }
+
+  const hasNewArtwork = !!formData.eventArtwork?.[0] || formData.tickets.some((ticket) => ticket.artwork?.[0]);
+  let eventArtworkCid: string | undefined;
+  const ticketArtworkCids: string[] = [];
+
+  if (hasNewArtwork) {
+    // An empty event artwork list still lets the ticket artwork be serialized
+    const ipfsResponse = await pinMediaToIPFS({ eventArtwork: formData.eventArtwork ?? [], tickets: formData.tickets });
+    if (!ipfsResponse?.ok) throw new Error('Failed to pin media on IPFS');
+
+    const resBody = await ipfsResponse.json();
+    const cids: string[] = [...resBody.cids];
+
+    if (formData.eventArtwork?.[0]) {
+      eventArtworkCid = cids.shift();
+    }
+    ticketArtworkCids.push(...cids);
+  }
+
+  const previousUserMetadata = await fetchFunderMetadata(accountId);
+
+  const { transactions, dropIds, costBreakdown } = createUpdatePayload({
+    accountId,
+    eventArtworkCid,
+    eventId,
+    formData,
+    previousUserMetadata,
+    ticketArtworkCids,
+    promoCodeHashes: await fetchPromoCodeHashes({ accountId, eventId, promoCodes: formData.promoCodes, wallet }),
+  });
+
+  await wallet.signAndSendTransactions({
+    transactions: transactions.map((transaction) => ({ ...transaction, signerId: accountId })),
+  });
+
+  return { dropIds, costBreakdown };
+};
+
+export function isEventCancelled(event: FunderEventMetadata | null | undefined) {
+  return !!event?.cancelled;
+}
+
+function isOwnedByBuyer(key: DropKeyInfo) {
+  // Keys without an owner are held by the events contract, NEAR checkouts set the buyer as the owner
+  return !!key.owner_id && key.owner_id !== KEYPOM_EVENTS_CONTRACT_ID;
+}
+
+export const cancelEvent = async ({
+  accountId,
+  dropIds,
+  eventId,
+  wallet,
+}: {
+  accountId: string | undefined;
+  dropIds: string[];
+  eventId: string;
+  wallet: WalletStore['wallet'];
+}) => {
+  if (!wallet || !accountId) {
+    throw new Error('Wallet not connected');
+  }
+
+  // Signed up front so a wallet that can't sign messages fails before the event is cancelled
+  const authorization = await getOrganizerAuthHeader({ accountId, wallet });
+
+  const previousUserMetadata = await fetchFunderMetadata(accountId);
+  const event = (JSON.parse(previousUserMetadata) as FunderMetadata)[eventId];
+
+  // Cancelling again after a failed refund skips straight to retrying the refund
+  if (!isEventCancelled(event)) {
+    const transactions = createCancelPayload({ eventId, previousUserMetadata });
+
+    await wallet.signAndSendTransactions({
+      transactions: transactions.map((transaction) => ({ ...transaction, signerId: accountId })),
+    });
+  }
+
+  /*
+    NOTE: Refunds are only requested once sales have stopped and the event has been marked as
+    cancelled. The events worker looks up every paid Stripe checkout for the event and refunds it.
+    Tickets are only invalidated after the refund succeeded, so a failed refund can be retried.
+
+    Tickets bought with NEAR are owned by the buyer's account and weren't paid through Stripe, so
+    they stay valid and are counted in `notRefunded` for the organizer to settle with the buyers.
+  */
+
+  const response = await fetch('/api/refunds', {
+    method: 'POST',
+    headers: {
+      Authorization: authorization,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ eventId, funderId: accountId, dropIds }),
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('The event was cancelled, but refunding ticket holders failed. Cancel the event again to retry.');
+  }
+
+  const data: { refunded: number } = await response.json();
+
+  const keysByDropId: Record<string, string[]> = {};
+  let notRefunded = 0;
+  for (const dropId of dropIds) {
+    const keys = await fetchKeysForDrop(dropId);
+    const refundedKeys = keys.filter((key) => !isOwnedByBuyer(key));
+    keysByDropId[dropId] = refundedKeys.map((key) => key.pk);
+    notRefunded += keys.length - refundedKeys.length;
+  }
+
+  const invalidateTransactions = createInvalidateKeysPayload(keysByDropId);
+
+  if (invalidateTransactions.length) {
+    await wallet.signAndSendTransactions({
+      transactions: invalidateTransactions.map((transaction) => ({ ...transaction, signerId: accountId })),
+    });
+  }
+
+  return { refunded: data.refunded, notRefunded };
+};
+
 export const isValidFutureDate = (value: string) => {
   const today = new Date().toISOString().split('T')[0];
   return today !== undefined && value >= today;
@@ -117,6 +276,65 @@ export const createValidationRules = () => ({
     validate: (value: FormSchema['location']) => value.trim() !== '' || 'Location cannot be empty',
     setValueAs: (value: string) => value.trim(),
   },
+  timeZone: {
+    validate: (value: FormSchema['timeZone']) => !value || isValidTimeZone(value) || 'Please select a valid time zone',
+  },
+  questionsPassphrase: {
+    validate: (value: FormSchema['questionsPassphrase'], formValues: FormSchema) => {
+      if (!formValues.questions?.length) return true;
+      return (
+        (value?.length ?? 0) >= MIN_QUESTIONS_PASSPHRASE_LENGTH ||
+        `Passphrase must be at least ${MIN_QUESTIONS_PASSPHRASE_LENGTH} characters`
+      );
+    },
+  },
+  maxMarkup: {
+    min: {
+      value: 100,
+      message: 'Resale price cap cannot be below the ticket price',
+    },
+    valueAsNumber: true,
+  },
+  royaltyPercent: {
+    min: {
+      value: 0,
+      message: 'Royalty cannot be negative',
+    },
+    max: {
+      value: MAX_ROYALTY_PERCENT,
+      message: `Royalty cannot be more than ${MAX_ROYALTY_PERCENT}%`,
+    },
+    valueAsNumber: true,
+  },
+  promoCodes: {
+    code: {
+      required: 'Please enter a code',
+      minLength: {
+        value: MIN_PROMO_CODE_LENGTH,
+        message: `Code must be at least ${MIN_PROMO_CODE_LENGTH} characters`,
+      },
+      pattern: {
+        value: /^[A-Za-z0-9_-]+$/,
+        message: 'Code can only contain letters, numbers, dashes and underscores',
+      },
+      setValueAs: (value: string) => value.trim().toUpperCase(),
+    },
+    amount: {
+      required: 'Please enter a discount',
+      min: {
+        value: 0,
+        message: 'Discount cannot be negative',
+      },
+      valueAsNumber: true,
+    },
+    maxUses: {
+      min: {
+        value: 1,
+        message: 'Usage limit must be at least 1',
+      },
+      valueAsNumber: true,
+    },
+  },
   tickets: {
     name: {
       required: 'Ticket Name cannot be empty',
@@ -145,5 +363,19 @@ export const createValidationRules = () => ({
       },
       valueAsNumber: true,
     },
+    maxMarkup: {
+      min: {
+        value: 100,
+        message: 'Resale price cap cannot be below the ticket price',
+      },
+      valueAsNumber: true,
+    },
+    admissions: {
+      min: {
+        value: 1,
+        message: 'Tickets must admit at least 1 entry',
+      },
+      valueAsNumber: true,
+    },
   },
 });
@@ -5,3 +5,15 @@ export function convertToSafeFilename(string: string) {
     .replace(/[/.:]/g, '-')
     .replace(/[^a-zA-Z0-9\s_-]/g, '');
 }
+
+export function downloadFile(contents: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,80 @@
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { KeyPair } from 'near-api-js';
+import { describe, expect, it } from 'vitest';
+
+import { createSaveToWalletJwt, createSaveToWalletUrl, GoogleWalletCredentials } from './google-wallet';
+import type { FunderEventMetadata } from './helpers';
+
+// A local key pair stands in for the Google Cloud service account key
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const credentials: GoogleWalletCredentials = {
+  issuerId: '3388000000000000000',
+  serviceAccountEmail: 'wallet@pagoda-test.iam.gserviceaccount.com',
+  privateKey,
+};
+
+const event: FunderEventMetadata = {
+  id: '1717013187496',
+  name: 'Rooftop Jazz',
+  location: '1 Harbor St',
+  date: {
+    startDate: Date.UTC(2030, 5, 1),
+    startTime: '19:00',
+    endDate: Date.UTC(2030, 5, 1),
+    endTime: '22:00',
+    timeZone: 'America/New_York',
+  },
+  timeZone: 'America/New_York',
+  artwork: 'event-cid',
+  dateCreated: '1717013187496',
+};
+
+describe('createSaveToWalletJwt', () => {
+  const secretKey = KeyPair.fromRandom('ed25519').toString();
+  const ticket = { secretKey, metadata: { title: 'VIP', artwork: 'ticket-cid' } };
+
+  it('signs a save link that verifies with the service account public key', () => {
+    const token = createSaveToWalletJwt(event, [ticket], credentials);
+    const claims = jwt.verify(token, publicKey, { algorithms: ['RS256'], audience: 'google' }) as jwt.JwtPayload;
+
+    expect(claims).toMatchObject({ iss: credentials.serviceAccountEmail, typ: 'savetowallet' });
+  });
+
+  it('defines the event ticket class and one object per ticket', () => {
+    const claims = jwt.decode(createSaveToWalletJwt(event, [ticket], credentials)) as jwt.JwtPayload;
+    const [ticketClass] = claims.payload.eventTicketClasses;
+    const [ticketObject] = claims.payload.eventTicketObjects;
+
+    expect(ticketClass).toMatchObject({
+      id: `${credentials.issuerId}.1717013187496`,
+      eventName: { defaultValue: { value: 'Rooftop Jazz' } },
+    });
+    expect(ticketObject).toMatchObject({
+      classId: ticketClass.id,
+      ticketType: { defaultValue: { value: 'VIP' } },
+      barcode: { type: 'QR_CODE', value: secretKey },
+    });
+    // Resource IDs may only use alphanumerics, ".", "_" and "-"
+    expect(ticketObject.id).toMatch(/^[\w.-]+$/);
+  });
+
+  it('rejects tokens signed by a different key', () => {
+    const { publicKey: otherPublicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+
+    expect(() => jwt.verify(createSaveToWalletJwt(event, [ticket], credentials), otherPublicKey)).toThrow();
+  });
+
+  it('builds a Google Pay save URL', () => {
+    expect(createSaveToWalletUrl(event, [ticket], credentials)).toMatch(/^https:\/\/pay\.google\.com\/gp\/v\/save\/ey/);
+  });
+});
@@ -0,0 +1,142 @@
+import { getPubFromSecret } from '@keypom/core';
+import jwt from 'jsonwebtoken';
+
+import {
+  CLOUDFLARE_IPFS,
+  GOOGLE_WALLET_ISSUER_ID,
+  GOOGLE_WALLET_PRIVATE_KEY,
+  GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL,
+  HOSTNAME,
+} from './config';
+import { parseEventDate, parseEventEndDate } from './date';
+import type { FunderEventMetadata, TicketInfoMetadata } from './helpers';
+
+/*
+  NOTE: This module is server only since it signs save links with our Google Wallet service account.
+  See: https://developers.google.com/wallet/tickets/events/rest
+*/
+
+const GOOGLE_WALLET_SAVE_URL = 'https://pay.google.com/gp/v/save';
+
+export type GoogleWalletCredentials = {
+  issuerId: string;
+  serviceAccountEmail: string;
+  privateKey: string;
+};
+
+export type GoogleWalletTicket = {
+  secretKey: string;
+  metadata: TicketInfoMetadata;
+};
+
+function localizedString(value: string) {
+  return {
+    defaultValue: {
+      language: 'en-US',
+      value,
+    },
+  };
+}
+
+function resourceId(issuerId: string, suffix: string) {
+  // Resource IDs may only contain alphanumeric characters, ".", "_" or "-"
+  return `${issuerId}.${suffix.replace(/[^\w.-]/g, '_')}`;
+}
+
+function getCredentials(credentials?: GoogleWalletCredentials) {
+  const resolvedCredentials = credentials ?? {
+    issuerId: GOOGLE_WALLET_ISSUER_ID,
+    serviceAccountEmail: GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL,
+    privateKey: GOOGLE_WALLET_PRIVATE_KEY,
+  };
+
+  if (!resolvedCredentials.issuerId || !resolvedCredentials.serviceAccountEmail || !resolvedCredentials.privateKey) {
+    throw new Error('Google Wallet credentials are not configured');
+  }
+
+  return resolvedCredentials;
+}
+
+export function createEventTicketClass(event: FunderEventMetadata, issuerId: string) {
+  const start = parseEventDate(event);
+  const end = parseEventEndDate(event);
+
+  return {
+    id: resourceId(issuerId, event.id),
+    issuerName: 'Pagoda Ticketing',
+    reviewStatus: 'UNDER_REVIEW',
+    eventName: localizedString(event.name),
+    venue: {
+      name: localizedString(event.location),
+      address: localizedString(event.location),
+    },
+    dateTime: {
+      start: start.toISOString(),
+      end: end?.toISOString(),
+    },
+    heroImage: event.artwork
+      ? {
+          sourceUri: { uri: `${CLOUDFLARE_IPFS}/${event.artwork}` },
+          contentDescription: localizedString(event.name),
+        }
+      : undefined,
+  };
+}
+
+export function createEventTicketObject(
+  event: FunderEventMetadata,
+  { secretKey, metadata }: GoogleWalletTicket,
+  issuerId: string,
+) {
+  const publicKey = getPubFromSecret(secretKey);
+
+  return {
+    id: resourceId(issuerId, publicKey.replace('ed25519:', '')),
+    classId: resourceId(issuerId, event.id),
+    state: 'ACTIVE',
+    ticketType: localizedString(metadata.title || 'General Admission'),
+    barcode: {
+      type: 'QR_CODE',
+      value: secretKey,
+    },
+    imageModulesData: metadata.artwork
+      ? [
+          {
+            mainImage: {
+              sourceUri: { uri: `${CLOUDFLARE_IPFS}/${metadata.artwork}` },
+              contentDescription: localizedString(metadata.title),
+            },
+          },
+        ]
+      : undefined,
+  };
+}
+
+export function createSaveToWalletJwt(
+  event: FunderEventMetadata,
+  tickets: GoogleWalletTicket[],
+  credentials?: GoogleWalletCredentials,
+) {
+  const { issuerId, serviceAccountEmail, privateKey } = getCredentials(credentials);
+
+  const claims = {
+    iss: serviceAccountEmail,
+    aud: 'google',
+    typ: 'savetowallet',
+    origins: [HOSTNAME],
+    payload: {
+      eventTicketClasses: [createEventTicketClass(event, issuerId)],
+      eventTicketObjects: tickets.map((ticket) => createEventTicketObject(event, ticket, issuerId)),
+    },
+  };
+
+  return jwt.sign(claims, privateKey, { algorithm: 'RS256' });
+}
+
+export function createSaveToWalletUrl(
+  event: FunderEventMetadata,
+  tickets: GoogleWalletTicket[],
+  credentials?: GoogleWalletCredentials,
+) {
+  return `${GOOGLE_WALLET_SAVE_URL}/${createSaveToWalletJwt(event, tickets, credentials)}`;
+}
@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  buildCreateEventArgs,
+  calculateDepositCost,
+  createPayload,
+  type DateAndTimeInfo,
+  estimateCosts,
+  estimateUpdateCosts,
+  type FormSchema,
+  MAX_DROPS_PER_BATCH,
+  type TicketInfoFormMetadata,
+} from './helpers';
+
+/*
+  These numbers are what organizers are asked to deposit when creating an event. Any change
+  to them should be deliberate, so they're pinned here against representative events.
+*/
+
+const TIME_ZONE = 'America/New_York';
+
+const salesValidThrough: DateAndTimeInfo = {
+  startDate: Date.UTC(2026, 0, 1),
+  startTime: '09:00',
+  endDate: Date.UTC(2026, 2, 1),
+  endTime: '17:00',
+};
+
+const freeTicket: TicketInfoFormMetadata = {
+  name: 'General Admission',
+  denomination: 'Near',
+  maxSupply: 100,
+  priceNear: '0',
+  priceFiat: '0',
+  salesValidThrough,
+};
+
+const paidTicket: TicketInfoFormMetadata = {
+  name: 'VIP',
+  denomination: 'Near',
+  maxSupply: 20,
+  maxPurchases: 2,
+  priceNear: '12.5',
+  priceFiat: '50',
+  description: 'Front row seats',
+  salesValidThrough,
+};
+
+const baseForm: FormSchema = {
+  name: 'Community Meetup',
+  description: 'Monthly meetup for builders',
+  location: 'Brooklyn, NY',
+  date: '2026-03-02',
+  timeZone: TIME_ZONE,
+  sellable: false,
+  tickets: [freeTicket],
+  startTime: '2026-03-02T18:00',
+  endTime: '2026-03-02T21:00',
+  costBreakdown: { marketListing: '0', total: '0', perDrop: '0', perEvent: '0' },
+};
+
+const estimate = (formData: FormSchema) =>
+  estimateCosts({ accountId: 'organizer.near', formData, stripeAccountId: 'acct_1234567890' });
+
+describe('deposit estimates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-15T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('charges free tickets for their marketplace keys', () => {
+    expect(estimate(baseForm)).toMatchInlineSnapshot(`
+      {
+        "marketListing": "16111790000000000000000000",
+        "perDrop": "24929999999999900000000",
+        "perEvent": "7020000000000000000000",
+        "total": "16143739999999999900000000",
+      }
+    `);
+  });
+
+  it('charges paid tiers for drops and listing only', () => {
+    expect(estimate({ ...baseForm, tickets: [paidTicket] })).toMatchInlineSnapshot(`
+      {
+        "marketListing": "11790000000000000000000",
+        "perDrop": "25334999999999900000000",
+        "perEvent": "7020000000000000000000",
+        "total": "44144999999999900000000",
+      }
+    `);
+  });
+
+  it('charges every tier of a multi tier event', () => {
+    expect(
+      estimate({
+        ...baseForm,
+        tickets: [freeTicket, paidTicket, { ...paidTicket, name: 'Early Bird', maxSupply: 50 }],
+      }),
+    ).toMatchInlineSnapshot(`
+      {
+        "marketListing": "16125410000000000000000000",
+        "perDrop": "23835000000000100000000",
+        "perEvent": "7020000000000000000000",
+        "total": "16203935000000000300000000",
+      }
+    `);
+  });
+
+  it('charges for the encryption keys of events with questions', () => {
+    expect(
+      estimate({
+        ...baseForm,
+        tickets: [paidTicket],
+        questions: [
+          { required: true, question: 'Full name' },
+          { required: false, question: 'Dietary restrictions' },
+        ],
+        questionsPassphrase: 'correct horse battery staple',
+      }),
+    ).toMatchInlineSnapshot(`
+      {
+        "marketListing": "11790000000000000000000",
+        "perDrop": "25334999999999900000000",
+        "perEvent": "40470000000000000000000",
+        "total": "77594999999999900000000",
+      }
+    `);
+  });
+
+  it('charges for the promo codes and resale terms of sellable events', () => {
+    expect(
+      estimate({
+        ...baseForm,
+        sellable: true,
+        maxMarkup: 150,
+        royaltyPercent: 10,
+        tickets: [paidTicket, { ...paidTicket, name: 'Backstage', hidden: true }],
+        promoCodes: [
+          { code: 'EARLY', discountType: 'percent', amount: 20, maxUses: 10, ticketIndexes: [0] },
+          { code: 'BACKSTAGE', discountType: 'fixed', amount: 5, unlocksTicketIndexes: [1] },
+        ],
+      }),
+    ).toMatchInlineSnapshot(`
+      {
+        "marketListing": "18600000000000000000000",
+        "perDrop": "24997500000000050000000",
+        "perEvent": "11985000000000000000000",
+        "total": "80580000000000100000000",
+      }
+    `);
+  });
+
+  it('charges a drop per session of recurring events', () => {
+    expect(
+      estimate({
+        ...baseForm,
+        tickets: [paidTicket, { ...paidTicket, name: 'Season Pass', sessionScope: 'series' }],
+        recurrence: { frequency: 'weekly', interval: 1, count: 4 },
+      }),
+    ).toMatchInlineSnapshot(`
+      {
+        "marketListing": "39030000000000000000000",
+        "perDrop": "28362000000000140000000",
+        "perEvent": "17100000000000000000000",
+        "total": "197940000000000700000000",
+      }
+    `);
+  });
+
+  it('splits the drops of long recurring events into batches', async () => {
+    const formData: FormSchema = {
+      ...baseForm,
+      tickets: [paidTicket, { ...freeTicket, maxSupply: 5 }],
+      recurrence: { frequency: 'weekly', interval: 1, count: 12 },
+    };
+    const { transactions, dropIds, costBreakdown } = await createPayload({
+      accountId: 'organizer.near',
+      formData,
+      eventArtworkCid: 'bafybeiehk3mzsj2ih4u4fkvmkfrome3kars7xyy3bxh6xfjquws4flglqa',
+      ticketArtworkCids: [],
+      eventId: Date.now().toString(),
+      stripeAccountId: 'acct_1234567890',
+    });
+    const calls = transactions.map(({ actions }) => (actions[0] as any).params);
+
+    expect(dropIds).toHaveLength(24);
+    expect(transactions).toHaveLength(Math.ceil(24 / MAX_DROPS_PER_BATCH));
+    expect(calls.flatMap((call) => call.args.drop_ids)).toEqual(dropIds);
+    expect(calls.map((call) => call.args.on_success.method_name)).toEqual([
+      'create_event',
+      'add_tickets_to_event',
+      'add_tickets_to_event',
+    ]);
+
+    for (const call of calls) {
+      const ticketInformation = JSON.parse(call.args.on_success.args).ticket_information;
+      expect(call.args.drop_ids.length).toBeLessThanOrEqual(MAX_DROPS_PER_BATCH);
+      expect(Object.keys(ticketInformation)).toEqual(call.args.drop_ids);
+    }
+
+    const sum = (values: string[]) => values.reduce((total, value) => total + BigInt(value), BigInt(0)).toString();
+    expect(sum(calls.map((call) => call.deposit))).toBe(costBreakdown.total);
+    expect(sum(calls.map((call) => call.args.on_success.attached_deposit))).toBe(costBreakdown.marketListing);
+    expect(estimate(formData)).toEqual(costBreakdown);
+  });
+
+  it('matches the deposit calculated from the arguments sent on-chain', () => {
+    const { dropBatchArgs, createEventArgs, costBreakdown } = buildCreateEventArgs({
+      accountId: 'organizer.near',
+      formData: { ...baseForm, tickets: [freeTicket, paidTicket] },
+      eventArtworkCid: 'bafybeiehk3mzsj2ih4u4fkvmkfrome3kars7xyy3bxh6xfjquws4flglqa',
+      ticketArtworkCids: [],
+      eventId: Date.now().toString(),
+      stripeAccountId: 'acct_1234567890',
+    });
+
+    expect(
+      calculateDepositCost({ dropBatchArgs, marketTicketInfo: createEventArgs.ticket_information }).costBreakdown,
+    ).toEqual(costBreakdown);
+    expect(estimate({ ...baseForm, tickets: [freeTicket, paidTicket] })).toEqual(costBreakdown);
+  });
+
+  it('only charges an update for the added tiers and metadata', () => {
+    const eventId = Date.now().toString();
+    const { dropBatchArgs } = buildCreateEventArgs({
+      accountId: 'organizer.near',
+      formData: baseForm,
+      eventArtworkCid: 'bafybeiehk3mzsj2ih4u4fkvmkfrome3kars7xyy3bxh6xfjquws4flglqa',
+      ticketArtworkCids: [],
+      eventId,
+      stripeAccountId: 'acct_1234567890',
+    });
+
+    expect(
+      estimateUpdateCosts({
+        accountId: 'organizer.near',
+        eventId,
+        formData: { tickets: [paidTicket] },
+        previousUserMetadata: dropBatchArgs.change_user_metadata,
+      }),
+    ).toMatchInlineSnapshot(`
+      {
+        "marketListing": "6810000000000000000000",
+        "perDrop": "23895000000000200000000",
+        "perEvent": "0",
+        "total": "30705000000000200000000",
+      }
+    `);
+    expect(
+      estimateUpdateCosts({
+        accountId: 'organizer.near',
+        eventId,
+        formData: { tickets: [], location: 'Queens, NY' },
+        previousUserMetadata: dropBatchArgs.change_user_metadata,
+      }),
+    ).toMatchInlineSnapshot(`
+      {
+        "marketListing": "0",
+        "perDrop": "0",
+        "perEvent": "0",
+        "total": "0",
+      }
+    `);
+  });
+});
@@ -1,16 +1,21 @@
-import { type Action } from '@near-wallet-selector/core';
-import dayjs from 'dayjs';
+import { type Transaction } from '@near-wallet-selector/core';
 import { utils } from 'near-api-js';
 import { parseNearAmount } from 'near-api-js/lib/utils/format';
 
-import { KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
+import type { AdmissionRule } from './admissions';
+import { KEYPOM_EVENTS_CONTRACT_ID, KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
 import { arrayBufferToBase64, getByteSize } from './crypto-helpers';
+import { mergePromoCodes, PromoCodeFormMetadata, PromoCodeMetadata, resolvePromoCodes } from './promo-codes';
+import type { EventEncryptionMetadata } from './questions';
+import { EventSession, expandRecurrence, getSessionsDateRange, RecurrenceRule } from './recurrence';
+import { getDateAndTimeWindow, getLocalTimeZone, toZonedDateTime } from './time';
 
 export interface DateAndTimeInfo {
   startDate: number; // Milliseconds from Unix Epoch
   startTime: string; // Raw 24 hour time string such as 18:00
   endDate: number; // Milliseconds from Unix Epoch
   endTime: string; // Raw 24 hour time string such as 18:00
+  timeZone?: string; // IANA time zone the dates and times are in, such as America/New_York
 }
 
 export interface TicketInfoFormMetadata {
@@ -24,6 +29,12 @@ export interface TicketInfoFormMetadata {
   artwork?: File[];
   salesValidThrough: DateAndTimeInfo;
   passValidThrough?: DateAndTimeInfo;
+  maxMarkup?: number; // Overrides the event's resale markup cap for this tier
+  // Only used by recurring events, defaults to a separate ticket for every session
+  sessionScope?: 'session' | 'series';
+  admissions?: number; // Number of times the ticket can be scanned in, defaults to 1
+  admissionRule?: AdmissionRule; // How often a pass with several admissions can be scanned in, defaults to per-day
+  hidden?: boolean; // Only shown to buyers with a promo code that unlocks it
 }
 
 export interface EventDrop {
@@ -51,8 +62,14 @@ export interface TicketMetadataExtra {
   priceNear?: string;
   priceFiat?: string;
   maxSupply?: number;
+  maxMarkup?: number;
   salesValidThrough: DateAndTimeInfo;
   passValidThrough?: DateAndTimeInfo;
+  sessionId?: string; // Set for tickets to a single session of a recurring event
+  sessions?: EventSession[]; // Set for series passes that admit into every session
+  admissions?: number;
+  admissionRule?: AdmissionRule;
+  hidden?: boolean;
 }
 
 export interface QuestionInfo {
@@ -66,11 +83,19 @@ export interface FunderEventMetadata {
   id: string;
   location: string;
   date: DateAndTimeInfo;
+  timeZone?: string; // IANA time zone
+  recurrence?: RecurrenceRule;
+  sessions?: EventSession[];
   artwork: string;
   dateCreated: string;
   description?: string;
   sellable?: boolean;
+  maxMarkup?: number;
+  royaltyPercent?: number;
   questions?: QuestionInfo[];
+  cancelled?: boolean;
+  dateCancelled?: string;
+  promoCodes?: PromoCodeMetadata[];
 
   // If there are some questions, then we need to encrypt the answers:
 
@@ -94,8 +119,20 @@ export type FormSchema = {
   description?: string;
   location: string;
   date: string;
+  // IANA time zone the event's dates and times are entered in, defaults to the organizer's zone
+  timeZone?: string;
+  // Repeats startTime and endTime as multiple sessions under this event
+  recurrence?: RecurrenceRule;
   eventArtwork?: File[];
   sellable: boolean;
+  // Percentage of the ticket price a resale can be listed for (100 = no markup)
+  maxMarkup?: number;
+  // Percentage of every resale paid to the organizer
+  royaltyPercent?: number;
+  questions?: QuestionInfo[];
+  // Never sent on-chain, only used to wrap the private key that decrypts attendee answers
+  questionsPassphrase?: string;
+  promoCodes?: PromoCodeFormMetadata[];
 
   tickets: TicketInfoFormMetadata[];
   startTime: string;
@@ -105,6 +142,19 @@ export type FormSchema = {
   // ticketQuantityLimit?: number;
 };
 
+export type EditEventFormSchema = Partial<
+  Pick<FormSchema, 'name' | 'description' | 'location' | 'startTime' | 'endTime' | 'eventArtwork' | 'promoCodes'>
+> & {
+  /*
+    Only new ticket tiers, existing tiers can't be changed after launch. The event's resale terms
+    are also fixed at launch since the marketplace only accepts them in create_event.
+  */
+  tickets: TicketInfoFormMetadata[];
+};
+
+export const DEFAULT_MAX_MARKUP = 100; // Actual ticket price without any markup
+export const MAX_ROYALTY_PERCENT = 50;
+
 const FIRST_DROP_BASE_COST = BigInt('15899999999999900000000');
 const SUBSEQUENT_DROP_BASE_COST = BigInt('14460000000000200000000');
 const FUNDER_METADATA_BASE_COST = BigInt('840000000000000000000');
@@ -123,28 +173,64 @@ export const yoctoToNear = (yocto: string) => {
   return utils.format.formatNearAmount(yocto, 2);
 };
 
+export type MarketTicketInfo = Record<
+  string,
+  { max_tickets: number; price: string; sale_start?: number; sale_end?: number; max_markup?: number }
+>;
+
+export type CreateDropBatchArgs = {
+  drop_ids: string[];
+  drop_configs: any[];
+  asset_datas: any[];
+  change_user_metadata: string; // Stringified FunderMetadata
+};
+
+export type CreateEventArgs = {
+  event_id: string;
+  funder_id: string;
+  max_markup: number;
+  royalty_percent: number;
+  ticket_information: MarketTicketInfo;
+  stripe_status: boolean;
+  stripe_account_id: string;
+};
+
 export const calculateDepositCost = ({
-  eventMetadata,
-  eventTickets,
+  dropBatchArgs,
   marketTicketInfo,
+  previousUserMetadata,
 }: {
-  eventMetadata: FunderEventMetadata;
-  eventTickets: TicketInfoFormMetadata[];
-  marketTicketInfo: Record<string, { max_tickets: number; price: string; sale_start?: number; sale_end?: number }>;
+  dropBatchArgs: CreateDropBatchArgs;
+  marketTicketInfo: MarketTicketInfo;
+  // Set when updating an existing event. Only the added drops and metadata bytes are charged.
+  previousUserMetadata?: string;
 }) => {
-  let marketDeposit = FIRST_MARKET_DROP_BASE_COST;
-  let dropDeposit = FIRST_DROP_BASE_COST;
-  let funderMetaCost = FUNDER_METADATA_BASE_COST;
-
-  // Calculate drop deposit
-  dropDeposit += BigInt(eventTickets.length - 1) * SUBSEQUENT_DROP_BASE_COST;
-  dropDeposit += BigInt(getByteSize(JSON.stringify(eventTickets))) * YOCTO_PER_BYTE;
+  const isExistingEvent = previousUserMetadata !== undefined;
+  const numberOfDrops = dropBatchArgs.drop_ids.length;
+  const numberOfMarketDrops = Object.keys(marketTicketInfo).length;
+
+  let marketDeposit = BigInt(0);
+  let dropDeposit = BigInt(0);
+  let funderMetaCost = isExistingEvent ? BigInt(0) : FUNDER_METADATA_BASE_COST;
+
+  // Calculate drop deposit from the exact drop arguments that will be stored
+  if (numberOfDrops > 0) {
+    const { drop_ids, drop_configs, asset_datas } = dropBatchArgs;
+    dropDeposit += isExistingEvent ? SUBSEQUENT_DROP_BASE_COST : FIRST_DROP_BASE_COST;
+    dropDeposit += BigInt(numberOfDrops - 1) * SUBSEQUENT_DROP_BASE_COST;
+    dropDeposit += BigInt(getByteSize(JSON.stringify({ drop_ids, drop_configs, asset_datas }))) * YOCTO_PER_BYTE;
+  }
 
   // Calculate funder metadata cost
-  funderMetaCost += BigInt(getByteSize(JSON.stringify(eventMetadata))) * YOCTO_PER_BYTE;
+  const addedMetadataBytes =
+    getByteSize(dropBatchArgs.change_user_metadata) - (isExistingEvent ? getByteSize(previousUserMetadata) : 0);
+  funderMetaCost += BigInt(Math.max(0, addedMetadataBytes)) * YOCTO_PER_BYTE;
 
   // Initialize market deposit
-  marketDeposit += BigInt(Object.keys(marketTicketInfo).length - 1) * SUBSEQUENT_MARKET_DROP_BASE_COST;
+  if (numberOfMarketDrops > 0) {
+    marketDeposit += isExistingEvent ? SUBSEQUENT_MARKET_DROP_BASE_COST : FIRST_MARKET_DROP_BASE_COST;
+    marketDeposit += BigInt(numberOfMarketDrops - 1) * SUBSEQUENT_MARKET_DROP_BASE_COST;
+  }
 
   let numFreeKeys = 0; // Initialize numFreeKeys as a number
   for (const keyInfo of Object.values(marketTicketInfo)) {
@@ -162,7 +248,7 @@ export const calculateDepositCost = ({
   // Return the total deposit cost
   return {
     costBreakdown: {
-      perDrop: (dropDeposit / BigInt(eventTickets.length)).toString(),
+      perDrop: numberOfDrops > 0 ? (dropDeposit / BigInt(numberOfDrops)).toString() : '0',
       perEvent: funderMetaCost.toString(),
       marketListing: marketDeposit.toString(),
       total: (dropDeposit + funderMetaCost + marketDeposit).toString(),
@@ -170,6 +256,74 @@ export const calculateDepositCost = ({
   };
 };
 
+/*
+  NOTE: Recurring events create a drop per session and tier, which can't all be created in a single
+  create_drop_batch call within the 300 Tgas limit. Drops are created in batches of this size, each
+  in its own transaction with its share of the deposit.
+*/
+
+export const MAX_DROPS_PER_BATCH = 10;
+
+type DropBatch = {
+  dropBatchArgs: CreateDropBatchArgs;
+  marketTicketInfo: MarketTicketInfo;
+  costBreakdown: CostBreakdown;
+};
+
+function splitDropBatch(
+  dropBatchArgs: CreateDropBatchArgs,
+  marketTicketInfo: MarketTicketInfo,
+  previousUserMetadata?: string,
+): DropBatch[] {
+  const batches: DropBatch[] = [];
+
+  // Updates without new drops still need a single batch to store the changed metadata
+  for (let index = 0; index === 0 || index < dropBatchArgs.drop_ids.length; index += MAX_DROPS_PER_BATCH) {
+    const batchArgs: CreateDropBatchArgs = {
+      drop_ids: dropBatchArgs.drop_ids.slice(index, index + MAX_DROPS_PER_BATCH),
+      drop_configs: dropBatchArgs.drop_configs.slice(index, index + MAX_DROPS_PER_BATCH),
+      asset_datas: dropBatchArgs.asset_datas.slice(index, index + MAX_DROPS_PER_BATCH),
+      change_user_metadata: dropBatchArgs.change_user_metadata,
+    };
+    const batchMarketTicketInfo: MarketTicketInfo = {};
+    for (const dropId of batchArgs.drop_ids) {
+      if (marketTicketInfo[dropId]) batchMarketTicketInfo[dropId] = marketTicketInfo[dropId];
+    }
+
+    const { costBreakdown } = calculateDepositCost({
+      dropBatchArgs: batchArgs,
+      marketTicketInfo: batchMarketTicketInfo,
+      // Later batches add drops to an event whose metadata was stored by the first batch
+      previousUserMetadata: index === 0 ? previousUserMetadata : dropBatchArgs.change_user_metadata,
+    });
+
+    batches.push({ dropBatchArgs: batchArgs, marketTicketInfo: batchMarketTicketInfo, costBreakdown });
+  }
+
+  return batches;
+}
+
+function sumCostBreakdowns(batches: DropBatch[], numberOfDrops: number): CostBreakdown {
+  let total = BigInt(0);
+  let perEvent = BigInt(0);
+  let marketListing = BigInt(0);
+
+  for (const { costBreakdown } of batches) {
+    total += BigInt(costBreakdown.total);
+    perEvent += BigInt(costBreakdown.perEvent);
+    marketListing += BigInt(costBreakdown.marketListing);
+  }
+
+  const dropDeposit = total - perEvent - marketListing;
+
+  return {
+    perDrop: numberOfDrops > 0 ? (dropDeposit / BigInt(numberOfDrops)).toString() : '0',
+    perEvent: perEvent.toString(),
+    marketListing: marketListing.toString(),
+    total: total.toString(),
+  };
+}
+
 async function fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
   return await new Promise((resolve, reject) => {
     if (!(file instanceof File)) {
@@ -190,7 +344,7 @@ async function fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
   });
 }
 
-export async function serializeMediaForWorker(formData: FormSchema) {
+export async function serializeMediaForWorker(formData: Pick<FormSchema, 'eventArtwork' | 'tickets'>) {
   if (!formData.eventArtwork) {
     return [];
   }
@@ -219,189 +373,549 @@ export async function serializeMediaForWorker(formData: FormSchema) {
   return arrayBuffers;
 }
 
-export const estimateCosts = ({ formData }: { formData: FormSchema }) => {
-  const eventId = Date.now().toString();
+/*
+  NOTE: Placeholders used when estimating costs before media has been pinned and keys have been
+  generated. They match the length of the real values, so the estimated byte sizes (and deposit)
+  match what createPayload() sends.
+*/
+
+const ESTIMATE_ARTWORK_CID_PLACEHOLDER = 'bafybeiehk3mzsj2ih4u4fkvmkfrome3kars7xyy3bxh6xfjquws4flglqa';
+const ESTIMATE_ENCRYPTION_PLACEHOLDER: EventEncryptionMetadata = {
+  pubKey: 'A'.repeat(392), // Base64 SPKI encoded RSA-2048 public key
+  encPrivKey: 'A'.repeat(1644), // Base64 AES-GCM encrypted PKCS8 RSA-2048 private key
+  iv: 'A'.repeat(16),
+  salt: 'A'.repeat(24),
+};
+const ESTIMATE_PROMO_CODE_HASH_PLACEHOLDER = 'A'.repeat(44); // Base64 SHA-256 digest
 
-  const eventMetadata: FunderEventMetadata = {
-    name: formData.name,
-    dateCreated: Date.now().toString(),
-    description: formData.description,
-    sellable: formData.sellable,
-    location: formData.location,
-    date: {
-      startDate: dayjs(formData.startTime).millisecond(),
-      startTime: dayjs(formData.startTime).format('HH:mm'),
-      endDate: dayjs(formData.endTime).millisecond(),
-      endTime: dayjs(formData.endTime).format('HH:mm'),
-    },
-    artwork: 'bafybeiehk3mzsj2ih4u4fkvmkfrome3kars7xyy3bxh6xfjquws4flglqa',
-    id: eventId.toString(),
-  };
+export const estimateCosts = ({
+  accountId,
+  formData,
+  stripeAccountId,
+}: {
+  accountId: string;
+  formData: FormSchema;
+  stripeAccountId: string;
+}) => {
+  const { costBreakdown } = buildCreateEventArgs({
+    accountId,
+    formData,
+    stripeAccountId,
+    eventId: Date.now().toString(),
+    eventArtworkCid: ESTIMATE_ARTWORK_CID_PLACEHOLDER,
+    ticketArtworkCids: formData.tickets
+      .filter((ticket) => ticket.artwork?.[0])
+      .map(() => ESTIMATE_ARTWORK_CID_PLACEHOLDER),
+    encryption: formData.questions?.length ? ESTIMATE_ENCRYPTION_PLACEHOLDER : undefined,
+    promoCodeHashes: formData.promoCodes?.map(() => ESTIMATE_PROMO_CODE_HASH_PLACEHOLDER),
+  });
 
-  const marketTicketInfo: Record<
-    string,
-    { max_tickets: number; price: string; sale_start?: number; sale_end?: number }
-  > = {};
+  return costBreakdown;
+};
 
-  for (const ticket of formData.tickets) {
-    const dropId = `${Date.now().toString()}-${ticket.name.replaceAll(' ', '').toLocaleLowerCase()}`;
+type CreateEventArgsOptions = {
+  accountId: string;
+  formData: FormSchema;
+  eventArtworkCid: string;
+  ticketArtworkCids: string[];
+  eventId: string;
+  stripeAccountId: string;
+  encryption?: EventEncryptionMetadata;
+  // Hashes of formData.promoCodes in the same order, see hashPromoCode()
+  promoCodeHashes?: string[];
+};
 
-    marketTicketInfo[`${dropId}`] = {
-      max_tickets: ticket.maxSupply ?? 0,
-      price: parseNearAmount(ticket.priceFiat)!.toString(),
-      sale_start: Date.now() || undefined,
-      sale_end: Date.parse(formData.date) || undefined,
-    };
-  }
+function buildEventDate(startTime: string | number, endTime: string | number, timeZone: string): DateAndTimeInfo {
+  const start = toZonedDateTime(startTime, timeZone);
+  const end = toZonedDateTime(endTime, timeZone);
+
+  return {
+    startDate: start.toMillis(),
+    startTime: start.toFormat('HH:mm'),
+    endDate: end.toMillis(),
+    endTime: end.toFormat('HH:mm'),
+    timeZone,
+  };
+}
 
-  const { costBreakdown } = calculateDepositCost({
-    eventMetadata,
-    eventTickets: formData.tickets,
-    marketTicketInfo,
+function buildTicketDrops({
+  eventId,
+  sellable,
+  sessions,
+  ticketArtworkCids,
+  tickets,
+  timeZone,
+}: {
+  eventId: string;
+  sellable: boolean | undefined;
+  sessions?: EventSession[];
+  ticketArtworkCids: string[];
+  tickets: TicketInfoFormMetadata[];
+  timeZone: string;
+}) {
+  const remainingTicketArtworkCids = [...ticketArtworkCids];
+  const drops: Pick<CreateDropBatchArgs, 'drop_ids' | 'drop_configs' | 'asset_datas'> = {
+    drop_ids: [],
+    drop_configs: [],
+    asset_datas: [],
+  };
+  const marketTicketInfo: MarketTicketInfo = {};
+  // Recurring events can create several drops for a single ticket tier
+  const ticketIndexByDropId: Record<string, number> = {};
+
+  tickets.forEach((ticket, ticketIndex) => {
+    const priceFiat = ticket.priceFiat || '0';
+    const priceNear = ticket.priceFiat === '' ? '0' : ticket.priceNear || '0';
+    const salesValidThrough = buildEventDate(
+      ticket.salesValidThrough.startDate,
+      ticket.salesValidThrough.endDate,
+      timeZone,
+    );
+    const salesWindow = getDateAndTimeWindow(salesValidThrough);
+    const artwork = remainingTicketArtworkCids.shift() || '';
+
+    /*
+      Session tickets get their own drop per session and are only valid during that session.
+      Series passes are a single drop that admits the holder once into every session.
+    */
+
+    const isSeriesPass = !!sessions?.length && ticket.sessionScope === 'series';
+    const admissions = isSeriesPass ? sessions!.length : Math.max(1, ticket.admissions ?? 1);
+    const admissionRule: AdmissionRule | undefined = isSeriesPass
+      ? 'per-session'
+      : admissions > 1
+        ? (ticket.admissionRule ?? 'per-day')
+        : undefined;
+    const dropSessions: (EventSession | undefined)[] = sessions?.length && !isSeriesPass ? sessions : [undefined];
+
+    for (const session of dropSessions) {
+      const dropIdSuffix = session ? `-${session.id.toLocaleLowerCase()}` : '';
+      const dropId = `${Date.now().toString()}-${ticket.name.replaceAll(' ', '').toLocaleLowerCase()}${dropIdSuffix}`;
+
+      const ticketExtra: TicketMetadataExtra = {
+        dateCreated: Date.now().toString(),
+        priceNear,
+        priceFiat,
+        salesValidThrough,
+        passValidThrough: session
+          ? session.date
+          : ticket.passValidThrough &&
+            buildEventDate(ticket.passValidThrough.startDate, ticket.passValidThrough.endDate, timeZone),
+        maxSupply: ticket.maxSupply,
+        maxMarkup: sellable ? ticket.maxMarkup : undefined,
+        limitPerUser: ticket.maxPurchases,
+        eventId,
+        sessionId: session?.id,
+        sessions: isSeriesPass ? sessions : undefined,
+        admissions: admissions > 1 ? admissions : undefined,
+        admissionRule,
+        hidden: ticket.hidden || undefined,
+      };
+
+      const ticketNftInfo: TicketInfoMetadata = {
+        title: ticket.name,
+        description: ticket.description,
+        artwork,
+        extra: JSON.stringify(ticketExtra),
+      };
+
+      marketTicketInfo[`${dropId}`] = {
+        max_tickets: ticket.maxSupply ?? 0,
+        price: parseNearAmount(priceNear)!.toString(),
+        sale_start: salesWindow.start.toMillis(),
+        sale_end: salesWindow.end.toMillis(),
+        max_markup: sellable ? ticket.maxMarkup : undefined,
+      };
+
+      const dropConfig = {
+        nft_keys_config: {
+          token_metadata: ticketNftInfo,
+        },
+        add_key_allowlist: [KEYPOM_MARKETPLACE_CONTRACT_ID],
+        transfer_key_allowlist: sellable ? [KEYPOM_MARKETPLACE_CONTRACT_ID] : [],
+      };
+      const assetData = [
+        {
+          // One use per admission plus an extra use so the key and its metadata aren't deleted after the last scan
+          uses: admissions + 1,
+          assets: [null],
+          config: {
+            permissions: 'claim',
+          },
+        },
+      ];
+      drops.drop_ids.push(dropId);
+      drops.asset_datas.push(assetData);
+      drops.drop_configs.push(dropConfig);
+      ticketIndexByDropId[dropId] = ticketIndex;
+    }
   });
 
-  return costBreakdown;
-};
+  return { drops, marketTicketInfo, ticketIndexByDropId };
+}
 
-export const createPayload = async ({
+export const buildCreateEventArgs = ({
   accountId,
   formData,
   eventArtworkCid,
   ticketArtworkCids,
   eventId,
   stripeAccountId,
-}: {
-  accountId: string;
-  formData: FormSchema;
-  eventArtworkCid: string;
-  ticketArtworkCids: string[];
-  eventId: string;
-  stripeAccountId: string;
-}): Promise<{ actions: Action[]; dropIds: string[] }> => {
+  encryption,
+  promoCodeHashes,
+}: CreateEventArgsOptions) => {
   const funderMetadata: FunderMetadata = {};
+  const timeZone = formData.timeZone || getLocalTimeZone();
+  const sessions = formData.recurrence
+    ? expandRecurrence({
+        startTime: formData.startTime,
+        endTime: formData.endTime,
+        timeZone,
+        rule: formData.recurrence,
+      })
+    : undefined;
 
   const eventMetadata: FunderEventMetadata = {
     name: formData.name,
     dateCreated: Date.now().toString(),
     description: formData?.description || '',
     location: formData.location,
-    date: {
-      startDate: dayjs(formData.startTime).valueOf(),
-      startTime: dayjs(formData.startTime).format('HH:mm'),
-      endDate: dayjs(formData.endTime).valueOf(),
-      endTime: dayjs(formData.endTime).format('HH:mm'),
-    },
+    // Recurring events span from the start of the first session to the end of the last
+    date:
+      (sessions && getSessionsDateRange(sessions)) || buildEventDate(formData.startTime, formData.endTime, timeZone),
+    timeZone,
+    recurrence: formData.recurrence,
+    sessions,
     artwork: eventArtworkCid,
     sellable: formData.sellable,
+    maxMarkup: formData.sellable ? (formData.maxMarkup ?? DEFAULT_MAX_MARKUP) : undefined,
+    royaltyPercent: formData.sellable ? (formData.royaltyPercent ?? 0) : undefined,
     id: eventId.toString(),
   };
 
+  if (formData.questions?.length) {
+    if (!encryption) throw new Error('Events with questions require an encryption key');
+
+    eventMetadata.questions = formData.questions;
+    eventMetadata.pubKey = encryption.pubKey;
+    eventMetadata.encPrivKey = encryption.encPrivKey;
+    eventMetadata.iv = encryption.iv;
+    eventMetadata.salt = encryption.salt;
+  }
+
   funderMetadata[eventId] = eventMetadata;
 
-  const drop_ids: string[] = [];
-  const drop_configs: any = [];
-  const asset_datas: any = [];
-  const marketTicketInfo: Record<string, { max_tickets: number; price: string; sale_start: number; sale_end: number }> =
-    {};
+  const { drops, marketTicketInfo, ticketIndexByDropId } = buildTicketDrops({
+    eventId,
+    sellable: formData.sellable,
+    sessions,
+    ticketArtworkCids,
+    tickets: formData.tickets,
+    timeZone,
+  });
 
-  for (const ticket of formData.tickets) {
-    const dropId = `${Date.now().toString()}-${ticket.name.replaceAll(' ', '').toLocaleLowerCase()}`;
+  if (formData.promoCodes?.length) {
+    eventMetadata.promoCodes = resolvePromoCodes(formData.promoCodes, promoCodeHashes ?? [], ticketIndexByDropId);
+  }
 
-    if (ticket.priceNear === '') {
-      ticket.priceNear = '0';
-    }
-    if (ticket.priceFiat === '') {
-      ticket.priceFiat = '0';
-      ticket.priceNear = '0';
-    }
+  const dropBatchArgs: CreateDropBatchArgs = {
+    ...drops,
+    change_user_metadata: JSON.stringify(funderMetadata),
+  };
 
-    const ticketExtra: TicketMetadataExtra = {
-      dateCreated: Date.now().toString(),
-      priceNear: ticket.priceNear,
-      priceFiat: ticket.priceFiat,
-      salesValidThrough: {
-        ...ticket.salesValidThrough,
-        startDate: dayjs(ticket.salesValidThrough.startDate).valueOf(),
-        startTime: dayjs(ticket.salesValidThrough.startDate).format('HH:mm'),
-        endDate: dayjs(ticket.salesValidThrough.endDate).valueOf(),
-        endTime: dayjs(ticket.salesValidThrough.endDate).format('HH:mm'),
-      },
-      passValidThrough: ticket.passValidThrough,
-      maxSupply: ticket.maxSupply,
-      limitPerUser: ticket.maxPurchases,
-      eventId,
-    };
+  const createEventArgs: CreateEventArgs = {
+    event_id: eventId,
+    funder_id: accountId,
+    max_markup: eventMetadata.maxMarkup ?? DEFAULT_MAX_MARKUP,
+    royalty_percent: eventMetadata.royaltyPercent ?? 0,
+    ticket_information: marketTicketInfo,
+    stripe_status: !!stripeAccountId,
+    stripe_account_id: stripeAccountId,
+  };
 
-    const ticketNftInfo: TicketInfoMetadata = {
-      title: ticket.name,
-      description: ticket.description,
-      artwork: ticketArtworkCids.shift() || '',
-      extra: JSON.stringify(ticketExtra),
-    };
+  const batches = splitDropBatch(dropBatchArgs, marketTicketInfo);
+  const costBreakdown = sumCostBreakdowns(batches, dropBatchArgs.drop_ids.length);
 
-    marketTicketInfo[`${dropId}`] = {
-      max_tickets: ticket.maxSupply ?? 0,
-      price: parseNearAmount(ticket.priceNear || '0')!.toString(),
-      sale_start: dayjs(ticket.salesValidThrough.startDate).valueOf(),
-      sale_end: dayjs(ticket.salesValidThrough.endDate).valueOf(),
-    };
+  return { batches, dropBatchArgs, createEventArgs, costBreakdown, ticketIndexByDropId };
+};
 
-    const dropConfig = {
-      nft_keys_config: {
-        token_metadata: ticketNftInfo,
-      },
-      add_key_allowlist: [KEYPOM_MARKETPLACE_CONTRACT_ID],
-      transfer_key_allowlist: formData.sellable ? [KEYPOM_MARKETPLACE_CONTRACT_ID] : [],
-    };
-    const assetData = [
+function createDropBatchTransaction(
+  { dropBatchArgs, costBreakdown }: DropBatch,
+  onSuccess?: { method_name: string; args: object },
+): Omit<Transaction, 'signerId'> {
+  return {
+    receiverId: KEYPOM_EVENTS_CONTRACT_ID,
+    actions: [
       {
-        uses: 2,
-        assets: [null],
-        config: {
-          permissions: 'claim',
+        type: 'FunctionCall',
+        params: {
+          methodName: 'create_drop_batch',
+          args: {
+            ...dropBatchArgs,
+            on_success: onSuccess
+              ? {
+                  receiver_id: KEYPOM_MARKETPLACE_CONTRACT_ID,
+                  method_name: onSuccess.method_name,
+                  args: JSON.stringify(onSuccess.args),
+                  attached_deposit: costBreakdown.marketListing,
+                }
+              : undefined,
+          },
+          gas: '300000000000000',
+          deposit: costBreakdown.total,
         },
       },
-    ];
-    drop_ids.push(dropId);
-    asset_datas.push(assetData);
-    drop_configs.push(dropConfig);
+    ],
+  };
+}
+
+export const createPayload = async (
+  options: CreateEventArgsOptions,
+): Promise<{
+  transactions: Omit<Transaction, 'signerId'>[];
+  dropIds: string[];
+  costBreakdown: CostBreakdown;
+  ticketIndexByDropId: Record<string, number>;
+}> => {
+  const { batches, dropBatchArgs, createEventArgs, costBreakdown, ticketIndexByDropId } = buildCreateEventArgs(options);
+
+  // The first batch creates the marketplace event, the rest add their tiers to it
+  const transactions = batches.map((batch, index) =>
+    index === 0
+      ? createDropBatchTransaction(batch, {
+          method_name: 'create_event',
+          args: { ...createEventArgs, ticket_information: batch.marketTicketInfo },
+        })
+      : createDropBatchTransaction(batch, {
+          method_name: 'add_tickets_to_event',
+          args: {
+            event_id: createEventArgs.event_id,
+            funder_id: createEventArgs.funder_id,
+            ticket_information: batch.marketTicketInfo,
+          },
+        }),
+  );
+
+  return { transactions, dropIds: dropBatchArgs.drop_ids, costBreakdown, ticketIndexByDropId };
+};
+
+type UpdateEventArgsOptions = {
+  accountId: string;
+  eventArtworkCid?: string;
+  eventId: string;
+  formData: EditEventFormSchema;
+  // Stringified FunderMetadata as currently stored for the funder (returned by get_funder_info)
+  previousUserMetadata: string;
+  ticketArtworkCids: string[];
+  // Hashes of formData.promoCodes in the same order, see hashPromoCode()
+  promoCodeHashes?: string[];
+};
+
+export const buildUpdateEventArgs = ({
+  accountId,
+  eventArtworkCid,
+  eventId,
+  formData,
+  previousUserMetadata,
+  ticketArtworkCids,
+  promoCodeHashes,
+}: UpdateEventArgsOptions) => {
+  /*
+    NOTE: change_user_metadata replaces the funder's entire metadata blob, so we merge
+    our changes into the existing metadata to avoid dropping the funder's other events.
+  */
+
+  const funderMetadata = JSON.parse(previousUserMetadata || '{}') as FunderMetadata;
+  const existingEvent = funderMetadata[eventId];
+  if (!existingEvent) throw new Error(`Event not found for id: ${eventId}`);
+
+  // Events created before time zones were stored keep using the organizer's zone
+  const timeZone = existingEvent.timeZone ?? getLocalTimeZone();
+
+  // Session tickets already sold are only valid during the session they were bought for
+  if (existingEvent.sessions?.length && (formData.startTime || formData.endTime)) {
+    throw new Error('The sessions of a recurring event can not be rescheduled');
   }
 
-  const { costBreakdown } = calculateDepositCost({
-    eventMetadata,
-    eventTickets: formData.tickets,
-    marketTicketInfo,
+  const eventMetadata: FunderEventMetadata = {
+    ...existingEvent,
+    name: formData.name ?? existingEvent.name,
+    description: formData.description ?? existingEvent.description,
+    location: formData.location ?? existingEvent.location,
+    date:
+      formData.startTime && formData.endTime
+        ? buildEventDate(formData.startTime, formData.endTime, timeZone)
+        : existingEvent.date,
+    artwork: eventArtworkCid || existingEvent.artwork,
+  };
+
+  funderMetadata[eventId] = eventMetadata;
+
+  const { drops, marketTicketInfo, ticketIndexByDropId } = buildTicketDrops({
+    eventId,
+    sellable: existingEvent.sellable,
+    sessions: existingEvent.sessions,
+    ticketArtworkCids,
+    tickets: formData.tickets,
+    timeZone,
   });
 
-  const actions: Action[] = [
+  if (formData.promoCodes?.length) {
+    eventMetadata.promoCodes = mergePromoCodes(
+      existingEvent.promoCodes,
+      resolvePromoCodes(formData.promoCodes, promoCodeHashes ?? [], ticketIndexByDropId),
+    );
+  }
+
+  const dropBatchArgs: CreateDropBatchArgs = {
+    ...drops,
+    change_user_metadata: JSON.stringify(funderMetadata),
+  };
+
+  const addTicketsArgs = {
+    event_id: eventId,
+    funder_id: accountId,
+    ticket_information: marketTicketInfo,
+  };
+
+  const batches = splitDropBatch(dropBatchArgs, marketTicketInfo, previousUserMetadata);
+  const costBreakdown = sumCostBreakdowns(batches, dropBatchArgs.drop_ids.length);
+
+  return { batches, dropBatchArgs, addTicketsArgs, costBreakdown };
+};
+
+export const estimateUpdateCosts = (
+  options: Omit<UpdateEventArgsOptions, 'eventArtworkCid' | 'ticketArtworkCids' | 'promoCodeHashes'>,
+) => {
+  const { costBreakdown } = buildUpdateEventArgs({
+    ...options,
+    eventArtworkCid: options.formData.eventArtwork?.[0] ? ESTIMATE_ARTWORK_CID_PLACEHOLDER : undefined,
+    ticketArtworkCids: options.formData.tickets
+      .filter((ticket) => ticket.artwork?.[0])
+      .map(() => ESTIMATE_ARTWORK_CID_PLACEHOLDER),
+    promoCodeHashes: options.formData.promoCodes?.map(() => ESTIMATE_PROMO_CODE_HASH_PLACEHOLDER),
+  });
+
+  return costBreakdown;
+};
+
+export const createUpdatePayload = (
+  options: UpdateEventArgsOptions,
+): { transactions: Omit<Transaction, 'signerId'>[]; dropIds: string[]; costBreakdown: CostBreakdown } => {
+  const { batches, dropBatchArgs, addTicketsArgs, costBreakdown } = buildUpdateEventArgs(options);
+
+  // New tiers need to be registered with the marketplace before they can be sold
+  const transactions = batches.map((batch) =>
+    createDropBatchTransaction(
+      batch,
+      batch.dropBatchArgs.drop_ids.length
+        ? {
+            method_name: 'add_tickets_to_event',
+            args: { ...addTicketsArgs, ticket_information: batch.marketTicketInfo },
+          }
+        : undefined,
+    ),
+  );
+
+  return { transactions, dropIds: dropBatchArgs.drop_ids, costBreakdown };
+};
+
+export const createCancelPayload = ({
+  eventId,
+  previousUserMetadata,
+}: {
+  eventId: string;
+  // Stringified FunderMetadata as currently stored for the funder (returned by get_funder_info)
+  previousUserMetadata: string;
+}): Omit<Transaction, 'signerId'>[] => {
+  const funderMetadata = JSON.parse(previousUserMetadata || '{}') as FunderMetadata;
+  const existingEvent = funderMetadata[eventId];
+  if (!existingEvent) throw new Error(`Event not found for id: ${eventId}`);
+
+  funderMetadata[eventId] = {
+    ...existingEvent,
+    cancelled: true,
+    dateCancelled: Date.now().toString(),
+  };
+
+  const dropBatchArgs: CreateDropBatchArgs = {
+    drop_ids: [],
+    drop_configs: [],
+    asset_datas: [],
+    change_user_metadata: JSON.stringify(funderMetadata),
+  };
+  // Marking the event as cancelled makes the stored metadata longer, the added bytes are charged like an update
+  const { costBreakdown } = calculateDepositCost({ dropBatchArgs, marketTicketInfo: {}, previousUserMetadata });
+
+  return [
     {
-      type: 'FunctionCall',
-      params: {
-        methodName: 'create_drop_batch',
-        args: {
-          drop_ids,
-          drop_configs,
-          asset_datas,
-          change_user_metadata: JSON.stringify(funderMetadata),
-          on_success: {
-            receiver_id: KEYPOM_MARKETPLACE_CONTRACT_ID,
-            method_name: 'create_event',
-            args: JSON.stringify({
-              event_id: eventId,
-              funder_id: accountId,
-              max_markup: 100, // Actual ticket price without any markup
-              ticket_information: marketTicketInfo,
-              stripe_status: !!stripeAccountId,
-              stripe_account_id: stripeAccountId,
-            }),
-            attached_deposit: costBreakdown.marketListing,
+      // Stop sales first so no new tickets are sold while the event is being cancelled
+      receiverId: KEYPOM_MARKETPLACE_CONTRACT_ID,
+      actions: [
+        {
+          type: 'FunctionCall',
+          params: {
+            methodName: 'close_event',
+            args: { event_id: eventId },
+            gas: '100000000000000',
+            deposit: '0',
           },
         },
-        gas: '300000000000000',
-        deposit: costBreakdown.total,
-      },
+      ],
+    },
+    {
+      receiverId: KEYPOM_EVENTS_CONTRACT_ID,
+      actions: [
+        {
+          type: 'FunctionCall',
+          params: {
+            methodName: 'create_drop_batch',
+            args: dropBatchArgs,
+            gas: '100000000000000',
+            deposit: costBreakdown.total,
+          },
+        },
+      ],
     },
   ];
+};
+
+// Matches the batch size @keypom/core uses when deleting keys within a single 300 Tgas call
+export const KEYS_PER_DELETE = 50;
+
+export const createInvalidateKeysPayload = (
+  keysByDropId: Record<string, string[]>,
+): Omit<Transaction, 'signerId'>[] => {
+  /*
+    NOTE: Deleting the outstanding keys invalidates every ticket and refunds their storage to the
+    funder. The drops themselves are kept so the cancelled event and its tiers can still be shown.
+    Each batch gets its own transaction since a transaction can't use more than 300 Tgas.
+  */
+
+  const transactions: Omit<Transaction, 'signerId'>[] = [];
+
+  for (const [dropId, publicKeys] of Object.entries(keysByDropId)) {
+    for (let index = 0; index < publicKeys.length; index += KEYS_PER_DELETE) {
+      transactions.push({
+        receiverId: KEYPOM_EVENTS_CONTRACT_ID,
+        actions: [
+          {
+            type: 'FunctionCall',
+            params: {
+              methodName: 'delete_keys',
+              args: {
+                drop_id: dropId,
+                public_keys: publicKeys.slice(index, index + KEYS_PER_DELETE),
+                delete_on_empty: false,
+              },
+              gas: '300000000000000',
+              deposit: '0',
+            },
+          },
+        ],
+      });
+    }
+  }
 
-  return { actions, dropIds: drop_ids };
+  return transactions;
 };
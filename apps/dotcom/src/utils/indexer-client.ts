@@ -0,0 +1,28 @@
+export async function fetchFromIndexer<T>(path: string) {
+  /*
+    NOTE: The indexer is a cache in front of the contracts. If it can't be reached, we return
+    null so callers can fall back to reading from the contracts directly.
+  */
+
+  try {
+    // Revalidating with the stored ETag means unchanged responses come back as an empty 304
+    const response = await fetch(path, { cache: 'no-cache' });
+
+    if (!response.ok) throw new Error(`Indexer request failed with status: ${response.status}`);
+
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error(`Failed to load from indexer: ${path}`, error);
+  }
+
+  return null;
+}
+
+export function refreshIndexedEvent(funderId: string, eventId: string) {
+  // Fire and forget since a stale event page shouldn't hold up the buyer
+  fetch(`/api/events/${encodeURIComponent(funderId)}/${encodeURIComponent(eventId)}`, { method: 'POST' }).catch(
+    (error) => {
+      console.error(`Failed to refresh indexed event: ${eventId}`, error);
+    },
+  );
+}
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { KEYPOM_EVENTS_CONTRACT_ID, KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
+import type { EventDrop, FunderEventMetadata } from './helpers';
+import {
+  createMemoryIndexerStore,
+  findChangedEventIds,
+  FunderNotIndexedError,
+  type IndexerRpc,
+  indexFunder,
+  loadFunderSnapshot,
+  pollIndexedFunders,
+  refreshIndexedFunder,
+  reindexFunder,
+} from './indexer';
+
+const createEvent = (id: string, name = 'Meetup'): FunderEventMetadata => ({
+  id,
+  name,
+  location: 'Brooklyn, NY',
+  date: { startDate: 1_700_000_000_000, startTime: '18:00', endDate: 1_700_000_000_000, endTime: '21:00' },
+  artwork: '',
+  dateCreated: '1700000000000',
+});
+
+const createDrop = (dropId: string, eventId: string): EventDrop => ({
+  drop_id: dropId,
+  deposit_per_use: '0',
+  funder_id: 'organizer.near',
+  drop_config: {
+    nft_keys_config: {
+      token_metadata: { title: dropId, extra: JSON.stringify({ eventId, dateCreated: '0', salesValidThrough: {} }) },
+    },
+  },
+});
+
+// A mocked events and marketplace contract, keyed by funder
+function createChain() {
+  const chain = {
+    events: {} as Record<string, FunderEventMetadata[]>,
+    drops: {} as Record<string, EventDrop[]>,
+    sold: {} as Record<string, number>,
+  };
+
+  const rpc: IndexerRpc = {
+    view: vi.fn(async (contractId: string, methodName: string, args: Record<string, any>): Promise<any> => {
+      const key = `${contractId}:${methodName}`;
+
+      switch (key) {
+        case `${KEYPOM_EVENTS_CONTRACT_ID}:get_funder_info`: {
+          const events = chain.events[args.account_id];
+          return events
+            ? { metadata: JSON.stringify(Object.fromEntries(events.map((event) => [event.id, event]))) }
+            : null;
+        }
+        case `${KEYPOM_MARKETPLACE_CONTRACT_ID}:get_event_information`:
+          return { event_id: args.event_id, funder_id: 'organizer.near', max_markup: 100, ticket_information: {} };
+        case `${KEYPOM_EVENTS_CONTRACT_ID}:get_drop_supply_for_funder`:
+          return chain.drops[args.account_id]?.length ?? 0;
+        case `${KEYPOM_EVENTS_CONTRACT_ID}:get_drops_for_funder`: {
+          const fromIndex = Number(args.from_index);
+          return (chain.drops[args.account_id] ?? []).slice(fromIndex, fromIndex + args.limit);
+        }
+        case `${KEYPOM_EVENTS_CONTRACT_ID}:get_key_supply_for_drop`:
+          return chain.sold[args.drop_id] ?? 0;
+      }
+
+      throw new Error(`Unexpected view call: ${key}`);
+    }) as IndexerRpc['view'],
+  };
+
+  return { chain, rpc };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('indexFunder', () => {
+  it('indexes the events, drops and sales of a funder', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1'), createEvent('event-2')];
+    chain.drops['organizer.near'] = Array.from({ length: 7 }, (_, index) =>
+      createDrop(`drop-${index}`, index < 4 ? 'event-1' : 'event-2'),
+    );
+    chain.sold['drop-0'] = 3;
+
+    const snapshot = await indexFunder('organizer.near', { rpc, store });
+
+    expect(snapshot.events.map(({ event }) => event.id)).toEqual(['event-1', 'event-2']);
+    expect(snapshot.events[0]?.marketplace?.event_id).toBe('event-1');
+    // Drops are paged 5 at a time
+    expect(snapshot.drops).toHaveLength(7);
+    expect(snapshot.drops.filter((drop) => drop.eventId === 'event-1')).toHaveLength(4);
+    expect(snapshot.drops[0]).toMatchObject({ eventId: 'event-1', sold: 3 });
+    await expect(store.findSnapshot('organizer.near')).resolves.toEqual(snapshot);
+  });
+
+  it("doesn't store funders without any events", async () => {
+    const { rpc } = createChain();
+    const store = createMemoryIndexerStore();
+
+    await expect(indexFunder('random.near', { rpc, store })).rejects.toBeInstanceOf(FunderNotIndexedError);
+    await expect(store.listFunderIds()).resolves.toEqual([]);
+  });
+
+  it('only indexes allow-listed funders when an allow-list is set', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1')];
+    chain.events['other.near'] = [createEvent('event-2')];
+
+    await expect(
+      indexFunder('other.near', { rpc, store, allowedFunderIds: ['organizer.near'] }),
+    ).rejects.toBeInstanceOf(FunderNotIndexedError);
+    expect(rpc.view).not.toHaveBeenCalled();
+
+    await indexFunder('organizer.near', { rpc, store, allowedFunderIds: ['organizer.near'] });
+    await expect(store.listFunderIds()).resolves.toEqual(['organizer.near']);
+  });
+});
+
+describe('findChangedEventIds', () => {
+  it('reports events whose details or sales changed', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1'), createEvent('event-2'), createEvent('event-3')];
+    chain.drops['organizer.near'] = [createDrop('drop-1', 'event-1'), createDrop('drop-2', 'event-2')];
+
+    const previous = await indexFunder('organizer.near', { rpc, store });
+    chain.sold['drop-1'] = 1;
+    chain.events['organizer.near'] = [createEvent('event-1'), createEvent('event-2', 'Renamed')];
+    const next = await indexFunder('organizer.near', { rpc, store });
+
+    expect(findChangedEventIds(previous, next).sort()).toEqual(['event-1', 'event-2', 'event-3']);
+    expect(findChangedEventIds(next, next)).toEqual([]);
+    expect(findChangedEventIds(null, next).sort()).toEqual(['event-1', 'event-2']);
+  });
+});
+
+describe('pollIndexedFunders', () => {
+  it('reindexes every stored funder and reports the changed events', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1')];
+    chain.events['other.near'] = [createEvent('event-2')];
+    chain.drops['other.near'] = [createDrop('drop-2', 'event-2')];
+
+    await indexFunder('organizer.near', { rpc, store });
+    await indexFunder('other.near', { rpc, store });
+    chain.sold['drop-2'] = 5;
+
+    await expect(pollIndexedFunders({ rpc, store })).resolves.toEqual({
+      indexed: 2,
+      failed: 0,
+      changedEvents: [{ funderId: 'other.near', eventId: 'event-2' }],
+    });
+  });
+
+  it('keeps polling the other funders when one fails', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1')];
+    chain.events['other.near'] = [createEvent('event-2')];
+    await indexFunder('organizer.near', { rpc, store });
+    await indexFunder('other.near', { rpc, store });
+
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const view = rpc.view as ReturnType<typeof vi.fn>;
+    const implementation = view.getMockImplementation()!;
+    view.mockImplementation(async (contractId: string, methodName: string, args: Record<string, any>) => {
+      if (args.account_id === 'other.near') throw new Error('RPC unavailable');
+      return implementation(contractId, methodName, args);
+    });
+
+    const result = await pollIndexedFunders({ rpc, store });
+
+    expect(result).toMatchObject({ indexed: 1, failed: 1 });
+    await expect(reindexFunder('organizer.near', { rpc, store })).resolves.toMatchObject({ changedEventIds: [] });
+  });
+
+  it('reports changes found by background refreshes until their pages are rebuilt', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1')];
+    chain.drops['organizer.near'] = [createDrop('drop-1', 'event-1')];
+    await indexFunder('organizer.near', { rpc, store });
+
+    chain.sold['drop-1'] = 2;
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+
+    // The stale snapshot is served while the refresh runs, which the poll below then joins
+    await loadFunderSnapshot('organizer.near', { rpc, store });
+    const changedEvents = [{ funderId: 'organizer.near', eventId: 'event-1' }];
+    await expect(pollIndexedFunders({ rpc, store })).resolves.toMatchObject({ changedEvents });
+    await expect(pollIndexedFunders({ rpc, store })).resolves.toMatchObject({ changedEvents });
+
+    await store.clearChangedEvents(changedEvents);
+    await expect(pollIndexedFunders({ rpc, store })).resolves.toMatchObject({ changedEvents: [] });
+  });
+});
+
+describe('refreshIndexedFunder', () => {
+  it('only refreshes indexed funders, at most once every few seconds', async () => {
+    const { chain, rpc } = createChain();
+    const store = createMemoryIndexerStore();
+    chain.events['organizer.near'] = [createEvent('event-1')];
+
+    await expect(refreshIndexedFunder('organizer.near', { rpc, store })).rejects.toBeInstanceOf(FunderNotIndexedError);
+
+    const snapshot = await indexFunder('organizer.near', { rpc, store });
+    await expect(refreshIndexedFunder('organizer.near', { rpc, store })).resolves.toBeNull();
+
+    vi.spyOn(Date, 'now').mockReturnValue(snapshot.indexedAt + 10_000);
+    await expect(refreshIndexedFunder('organizer.near', { rpc, store })).resolves.toMatchObject({
+      changedEventIds: [],
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import { neon } from '@neondatabase/serverless';
+
+import {
+  DATABASE_URL,
+  INDEXER_FUNDER_ALLOWLIST,
+  KEYPOM_EVENTS_CONTRACT_ID,
+  KEYPOM_MARKETPLACE_CONTRACT_ID,
+} from './config';
+import type { EventDrop, FunderEventMetadata, TicketMetadataExtra } from './helpers';
+import type { MarketplaceEventInfo } from './resale';
+import { jsonRpcFetch } from './rpc';
+
+/*
+  NOTE: This module is server only. It indexes each funder's events, drops and ticket
+  supply from the events and marketplace contracts so pages can be served from a single
+  cached request instead of dozens of view calls.
+*/
+
+const DROP_ITEMS_PER_QUERY = 5;
+const SNAPSHOT_STALE_AFTER_MS = 30_000;
+const SNAPSHOT_REFRESH_THROTTLE_MS = 10_000;
+
+export type IndexedEvent = {
+  event: FunderEventMetadata;
+  marketplace: MarketplaceEventInfo | null;
+};
+
+export type IndexedDrop = {
+  drop: EventDrop;
+  eventId: string | null;
+  sold: number;
+};
+
+export type FunderSnapshot = {
+  funderId: string;
+  events: IndexedEvent[];
+  drops: IndexedDrop[];
+  indexedAt: number; // Milliseconds from Unix Epoch
+};
+
+export interface IndexerRpc {
+  view: <T>(contractId: string, methodName: string, args: Record<string, any>) => Promise<T>;
+}
+
+export type ChangedEvent = {
+  funderId: string;
+  eventId: string;
+};
+
+export interface IndexerStore {
+  saveSnapshot: (snapshot: FunderSnapshot) => Promise<void>;
+  findSnapshot: (funderId: string) => Promise<FunderSnapshot | null>;
+  listFunderIds: () => Promise<string[]>;
+  // Events whose pages still need to be rebuilt, see indexFunderOnce()
+  queueChangedEvents: (events: ChangedEvent[]) => Promise<void>;
+  listChangedEvents: (funderId?: string) => Promise<ChangedEvent[]>;
+  clearChangedEvents: (events: ChangedEvent[]) => Promise<void>;
+}
+
+export type IndexerOptions = {
+  rpc?: IndexerRpc;
+  store?: IndexerStore;
+  // Defaults to INDEXER_FUNDER_ALLOWLIST
+  allowedFunderIds?: string[];
+};
+
+export class FunderNotIndexedError extends Error {
+  constructor(funderId: string) {
+    super(`Funder is not indexed: ${funderId}`);
+  }
+}
+
+export const jsonRpcIndexerRpc: IndexerRpc = {
+  view: (contractId, methodName, args) => jsonRpcFetch({ accountId: contractId, methodName, args }),
+};
+
+export function createMemoryIndexerStore(): IndexerStore {
+  const snapshots = new Map<string, FunderSnapshot>();
+  const changedEvents = new Map<string, ChangedEvent>();
+  const getChangedEventKey = ({ funderId, eventId }: ChangedEvent) => `${funderId}:${eventId}`;
+
+  return {
+    saveSnapshot: async (snapshot) => {
+      snapshots.set(snapshot.funderId, snapshot);
+    },
+
+    findSnapshot: async (funderId) => {
+      return snapshots.get(funderId) ?? null;
+    },
+
+    listFunderIds: async () => {
+      return [...snapshots.keys()];
+    },
+
+    queueChangedEvents: async (events) => {
+      events.forEach((event) => changedEvents.set(getChangedEventKey(event), event));
+    },
+
+    listChangedEvents: async (funderId) => {
+      return [...changedEvents.values()].filter((event) => !funderId || event.funderId === funderId);
+    },
+
+    clearChangedEvents: async (events) => {
+      events.forEach((event) => changedEvents.delete(getChangedEventKey(event)));
+    },
+  };
+}
+
+export function createNeonIndexerStore(databaseUrl: string): IndexerStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= (async () => {
+      await sql`
+        create table if not exists indexed_funders (
+          funder_id text primary key,
+          snapshot text not null,
+          indexed_at bigint not null
+        )
+      `;
+      await sql`
+        create table if not exists indexed_changed_events (
+          funder_id text not null,
+          event_id text not null,
+          primary key (funder_id, event_id)
+        )
+      `;
+    })();
+    return tablePromise;
+  };
+
+  return {
+    saveSnapshot: async (snapshot) => {
+      await ensureTable();
+      await sql`
+        insert into indexed_funders (funder_id, snapshot, indexed_at)
+        values (${snapshot.funderId}, ${JSON.stringify(snapshot)}, ${snapshot.indexedAt})
+        on conflict (funder_id) do update set
+          snapshot = excluded.snapshot,
+          indexed_at = excluded.indexed_at
+      `;
+    },
+
+    findSnapshot: async (funderId) => {
+      await ensureTable();
+      const rows = (await sql`
+        select snapshot from indexed_funders where funder_id = ${funderId}
+      `) as { snapshot: string }[];
+      return rows[0] ? (JSON.parse(rows[0].snapshot) as FunderSnapshot) : null;
+    },
+
+    listFunderIds: async () => {
+      await ensureTable();
+      const rows = (await sql`select funder_id from indexed_funders`) as { funder_id: string }[];
+      return rows.map((row) => row.funder_id);
+    },
+
+    queueChangedEvents: async (events) => {
+      await ensureTable();
+      for (const { funderId, eventId } of events) {
+        await sql`
+          insert into indexed_changed_events (funder_id, event_id)
+          values (${funderId}, ${eventId})
+          on conflict do nothing
+        `;
+      }
+    },
+
+    listChangedEvents: async (funderId) => {
+      await ensureTable();
+      const rows = (
+        funderId
+          ? await sql`select funder_id, event_id from indexed_changed_events where funder_id = ${funderId}`
+          : await sql`select funder_id, event_id from indexed_changed_events`
+      ) as { funder_id: string; event_id: string }[];
+      return rows.map((row) => ({ funderId: row.funder_id, eventId: row.event_id }));
+    },
+
+    clearChangedEvents: async (events) => {
+      await ensureTable();
+      for (const { funderId, eventId } of events) {
+        await sql`
+          delete from indexed_changed_events where funder_id = ${funderId} and event_id = ${eventId}
+        `;
+      }
+    },
+  };
+}
+
+let store: IndexerStore | null = null;
+
+export function getIndexerStore() {
+  store ??= DATABASE_URL ? createNeonIndexerStore(DATABASE_URL) : createMemoryIndexerStore();
+  return store;
+}
+
+function parseDropEventId(drop: EventDrop) {
+  const extra = drop.drop_config.nft_keys_config.token_metadata.extra;
+  if (!extra) return null;
+
+  try {
+    return (JSON.parse(extra) as TicketMetadataExtra).eventId ?? null;
+  } catch (error) {
+    console.error(`Failed to parse ticket metadata for drop: ${drop.drop_id}`, error);
+  }
+
+  return null;
+}
+
+export async function indexFunder(
+  funderId: string,
+  {
+    rpc = jsonRpcIndexerRpc,
+    store = getIndexerStore(),
+    allowedFunderIds = INDEXER_FUNDER_ALLOWLIST,
+  }: IndexerOptions = {},
+) {
+  if (allowedFunderIds.length && !allowedFunderIds.includes(funderId)) {
+    throw new FunderNotIndexedError(funderId);
+  }
+
+  const funderInfo = await rpc.view<{ metadata: string } | null>(KEYPOM_EVENTS_CONTRACT_ID, 'get_funder_info', {
+    account_id: funderId,
+  });
+  const funderEvents = Object.values(JSON.parse(funderInfo?.metadata ?? '{}')) as FunderEventMetadata[];
+
+  // Any account ID can be requested, so only funders that created events with the app are stored and polled
+  if (!allowedFunderIds.length && !funderEvents.length) {
+    throw new FunderNotIndexedError(funderId);
+  }
+
+  const events = await Promise.all(
+    funderEvents.map(async (event): Promise<IndexedEvent> => {
+      const marketplace = await rpc.view<MarketplaceEventInfo | null>(
+        KEYPOM_MARKETPLACE_CONTRACT_ID,
+        'get_event_information',
+        { event_id: event.id },
+      );
+
+      return { event, marketplace };
+    }),
+  );
+
+  // Drops are fetched in groups of 5 to avoid a view call panic since each drop contains a decent amount of JSON
+  const numberOfDrops = await rpc.view<number>(KEYPOM_EVENTS_CONTRACT_ID, 'get_drop_supply_for_funder', {
+    account_id: funderId,
+  });
+  const pages = Array.from({ length: Math.ceil(numberOfDrops / DROP_ITEMS_PER_QUERY) }, (_, index) => index);
+
+  const pagedDrops = await Promise.all(
+    pages.map((pageIndex) =>
+      rpc.view<EventDrop[]>(KEYPOM_EVENTS_CONTRACT_ID, 'get_drops_for_funder', {
+        account_id: funderId,
+        from_index: (pageIndex * DROP_ITEMS_PER_QUERY).toString(),
+        limit: DROP_ITEMS_PER_QUERY,
+      }),
+    ),
+  );
+
+  const drops = await Promise.all(
+    pagedDrops.flat().map(async (drop): Promise<IndexedDrop> => {
+      const sold = await rpc.view<number>(KEYPOM_EVENTS_CONTRACT_ID, 'get_key_supply_for_drop', {
+        drop_id: drop.drop_id,
+      });
+
+      return { drop, eventId: parseDropEventId(drop), sold };
+    }),
+  );
+
+  const snapshot: FunderSnapshot = {
+    funderId,
+    events,
+    drops,
+    indexedAt: Date.now(),
+  };
+
+  await store.saveSnapshot(snapshot);
+
+  return snapshot;
+}
+
+type IndexResult = {
+  snapshot: FunderSnapshot;
+  changedEventIds: string[];
+};
+
+const inFlightIndexes = new Map<string, Promise<IndexResult>>();
+
+function getEventFingerprint(snapshot: FunderSnapshot, eventId: string) {
+  const indexedEvent = snapshot.events.find(({ event }) => event.id === eventId);
+  const sold = snapshot.drops.filter((drop) => drop.eventId === eventId).map((drop) => [drop.drop.drop_id, drop.sold]);
+
+  return JSON.stringify({ event: indexedEvent?.event ?? null, sold });
+}
+
+export function findChangedEventIds(previous: FunderSnapshot | null, next: FunderSnapshot) {
+  // Removed events are included so their pages can stop being served
+  const eventIds = new Set([...(previous?.events ?? []), ...next.events].map(({ event }) => event.id));
+
+  return [...eventIds].filter(
+    (eventId) => !previous || getEventFingerprint(previous, eventId) !== getEventFingerprint(next, eventId),
+  );
+}
+
+function indexFunderOnce(funderId: string, options: IndexerOptions) {
+  /*
+    Every index compares the new snapshot to the stored one, no matter what triggered it. Changed
+    events are queued in the store until their pages are rebuilt, so a background refresh that
+    saves a new snapshot doesn't hide the change from the next poll.
+  */
+
+  let promise = inFlightIndexes.get(funderId);
+
+  if (!promise) {
+    promise = (async () => {
+      const store = options.store ?? getIndexerStore();
+      const previous = await store.findSnapshot(funderId);
+      const snapshot = await indexFunder(funderId, options);
+      const changedEventIds = findChangedEventIds(previous, snapshot);
+
+      if (changedEventIds.length) {
+        await store.queueChangedEvents(changedEventIds.map((eventId) => ({ funderId, eventId })));
+      }
+
+      return { snapshot, changedEventIds };
+    })().finally(() => {
+      inFlightIndexes.delete(funderId);
+    });
+    inFlightIndexes.set(funderId, promise);
+  }
+
+  return promise;
+}
+
+export async function loadFunderSnapshot(funderId: string, options: IndexerOptions = {}) {
+  /*
+    Funders are indexed the first time they're requested. After that, stale snapshots are
+    served right away while a fresh snapshot is indexed in the background.
+  */
+
+  const snapshot = await (options.store ?? getIndexerStore()).findSnapshot(funderId);
+
+  if (!snapshot) {
+    return (await indexFunderOnce(funderId, options)).snapshot;
+  }
+
+  if (Date.now() - snapshot.indexedAt > SNAPSHOT_STALE_AFTER_MS) {
+    indexFunderOnce(funderId, options).catch((error) => {
+      console.error(`Failed to refresh indexed funder: ${funderId}`, error);
+    });
+  }
+
+  return snapshot;
+}
+
+export async function reindexFunder(funderId: string, options: IndexerOptions = {}) {
+  return await indexFunderOnce(funderId, options);
+}
+
+export async function refreshIndexedFunder(funderId: string, options: IndexerOptions = {}) {
+  /*
+    Anyone can ask for a funder to be refreshed, so only funders that are already indexed are
+    refreshed, at most once per SNAPSHOT_REFRESH_THROTTLE_MS. Returns null when throttled.
+  */
+
+  const snapshot = await (options.store ?? getIndexerStore()).findSnapshot(funderId);
+  if (!snapshot) throw new FunderNotIndexedError(funderId);
+
+  if (Date.now() - snapshot.indexedAt < SNAPSHOT_REFRESH_THROTTLE_MS) return null;
+
+  return await indexFunderOnce(funderId, options);
+}
+
+export async function pollIndexedFunders(options: IndexerOptions = {}) {
+  const store = options.store ?? getIndexerStore();
+  const funderIds = await store.listFunderIds();
+  const results = await Promise.allSettled(funderIds.map((funderId) => reindexFunder(funderId, options)));
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to index funder: ${funderIds[index]}`, result.reason);
+    }
+  });
+
+  return {
+    indexed: results.filter((result) => result.status === 'fulfilled').length,
+    failed: results.filter((result) => result.status === 'rejected').length,
+    // Includes changes found by refreshes since the last poll, cleared with clearChangedEvents() once revalidated
+    changedEvents: await store.listChangedEvents(),
+  };
+}
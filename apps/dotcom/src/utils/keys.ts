@@ -0,0 +1,66 @@
+import { Account, KeyPair, Near, utils } from 'near-api-js';
+import { BrowserLocalStorageKeyStore } from 'near-api-js/lib/key_stores';
+
+import { KEYPOM_EVENTS_CONTRACT_ID } from './config';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto-helpers';
+
+type KeySignedAccountOptions = {
+  keyStore: BrowserLocalStorageKeyStore;
+  near: Near;
+  secretKey: string;
+};
+
+let keySignedAccountLock: Promise<unknown> = Promise.resolve();
+
+async function createKeySignedAccount({ keyStore, near, secretKey }: KeySignedAccountOptions) {
+  /*
+    Ticket keys are function call access keys on the events contract. Storing the ticket's
+    secret key as the events contract's signing key lets us call the contract as the ticket.
+  */
+
+  const signingKeyPair = KeyPair.fromString(secretKey);
+  await keyStore.setKey(near.connection.networkId, KEYPOM_EVENTS_CONTRACT_ID, signingKeyPair);
+  return new Account(near.connection, KEYPOM_EVENTS_CONTRACT_ID);
+}
+
+export function withKeySignedAccount<T>(
+  options: KeySignedAccountOptions,
+  callback: (account: Account) => Promise<T>,
+): Promise<T> {
+  /*
+    NOTE: The key store only holds one signing key for KEYPOM_EVENTS_CONTRACT_ID, so calls signed
+    by a ticket (claims, transfers and resale listings) wait for the previous one to finish.
+    Otherwise a claim running in the background could sign with another ticket's key.
+  */
+
+  const result = keySignedAccountLock.then(async () => callback(await createKeySignedAccount(options)));
+  keySignedAccountLock = result.catch(() => undefined);
+  return result;
+}
+
+export function signWithTicketKey(secretKey: string, message: string) {
+  const { signature } = KeyPair.fromString(secretKey).sign(new TextEncoder().encode(message));
+  return arrayBufferToBase64(signature);
+}
+
+export function verifyTicketKeySignature(publicKey: string, message: string, signature: string) {
+  // Only whoever holds the ticket's secret key (the QR code) can produce a valid signature
+  try {
+    return utils.PublicKey.fromString(publicKey).verify(
+      new TextEncoder().encode(message),
+      new Uint8Array(base64ToArrayBuffer(signature)),
+    );
+  } catch (error) {
+    console.error('Failed to verify ticket key signature', error);
+  }
+
+  return false;
+}
+
+export function createCheckInMessage(eventId: string, publicKey: string, signedAt: number) {
+  return `check-in:${eventId}:${publicKey}:${signedAt}`;
+}
+
+export function createTransferMessage(eventId: string, oldPublicKey: string, newPublicKey: string, signedAt: number) {
+  return `transfer:${eventId}:${oldPublicKey}:${newPublicKey}:${signedAt}`;
+}
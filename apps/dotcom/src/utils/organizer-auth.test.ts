@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { KeyPair } from 'near-api-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HOSTNAME } from './config';
+import { authenticateOrganizer, getOrganizerAuthHeader } from './organizer-auth';
+import { viewAccessKey } from './rpc';
+import type { WalletStore } from './types';
+
+vi.mock('./rpc', () => ({ viewAccessKey: vi.fn() }));
+
+const ACCOUNT_ID = 'organizer.near';
+
+// Signs like a wallet implementing NEP-413, serialized independently of the module under test
+function createWallet(keyPair: KeyPair, accountId = ACCOUNT_ID) {
+  const signMessage = vi.fn(
+    async ({ message, nonce, recipient }: { message: string; nonce: Buffer; recipient: string }) => {
+      const borshString = (value: string) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(Buffer.byteLength(value));
+        return Buffer.concat([length, Buffer.from(value)]);
+      };
+      const tag = Buffer.alloc(4);
+      tag.writeUInt32LE(2 ** 31 + 413);
+      const payload = Buffer.concat([tag, borshString(message), nonce, borshString(recipient), Buffer.from([0])]);
+      const { signature } = keyPair.sign(createHash('sha256').update(payload).digest());
+
+      return {
+        accountId,
+        publicKey: keyPair.getPublicKey().toString(),
+        signature: Buffer.from(signature).toString('base64'),
+      };
+    },
+  );
+
+  return { wallet: { signMessage } as unknown as WalletStore['wallet'], signMessage };
+}
+
+describe('organizer auth', () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+    vi.mocked(viewAccessKey).mockResolvedValue({ nonce: 1, permission: 'FullAccess' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('accepts requests signed by a full access key of the account', async () => {
+    const { wallet, signMessage } = createWallet(keyPair);
+
+    const authorization = await getOrganizerAuthHeader({ accountId: ACCOUNT_ID, wallet });
+    await expect(authenticateOrganizer({ authorization })).resolves.toBe(ACCOUNT_ID);
+
+    expect(signMessage).toHaveBeenCalledWith(expect.objectContaining({ recipient: HOSTNAME }));
+    expect(viewAccessKey).toHaveBeenCalledWith(ACCOUNT_ID, keyPair.getPublicKey().toString());
+
+    // The signed message is reused for the rest of the session
+    await getOrganizerAuthHeader({ accountId: ACCOUNT_ID, wallet });
+    expect(signMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects signatures for another account or from keys that can only call contracts', async () => {
+    const { wallet } = createWallet(keyPair);
+    const authorization = await getOrganizerAuthHeader({ accountId: ACCOUNT_ID, wallet });
+    const token = JSON.parse(atob(authorization.slice('NEAR '.length)));
+
+    const forged = `NEAR ${btoa(JSON.stringify({ ...token, accountId: 'victim.near' }))}`;
+    await expect(authenticateOrganizer({ authorization: forged })).resolves.toBeNull();
+
+    vi.mocked(viewAccessKey).mockResolvedValue({
+      nonce: 1,
+      permission: { FunctionCall: { allowance: null, receiver_id: 'events.near', method_names: [] } },
+    });
+    await expect(authenticateOrganizer({ authorization })).resolves.toBeNull();
+  });
+
+  it('rejects expired signatures', async () => {
+    const { wallet } = createWallet(keyPair);
+    const authorization = await getOrganizerAuthHeader({ accountId: ACCOUNT_ID, wallet });
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * 60 * 60_000);
+    await expect(authenticateOrganizer({ authorization })).resolves.toBeNull();
+    await expect(authenticateOrganizer({})).resolves.toBeNull();
+  });
+});
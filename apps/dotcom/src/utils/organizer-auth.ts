@@ -0,0 +1,165 @@
+import type { IncomingHttpHeaders } from 'http';
+import { utils } from 'near-api-js';
+
+import { HOSTNAME } from './config';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto-helpers';
+import { viewAccessKey } from './rpc';
+import type { WalletStore } from './types';
+
+/*
+  Organizer only API routes (refunds, analytics, promo code hashes) are authenticated with a NEP-413
+  message signed by a full access key of the organizer's account. The signed message is
+  reused until it expires, so the wallet only asks the organizer to sign once per session.
+*/
+
+const ORGANIZER_AUTH_TTL_MS = 24 * 60 * 60_000;
+const ORGANIZER_AUTH_STORAGE_KEY = 'organizer-auth';
+const NEP413_PAYLOAD_TAG = 2 ** 31 + 413;
+
+export type OrganizerAuthToken = {
+  accountId: string;
+  publicKey: string;
+  signature: string; // Base64
+  nonce: string; // Base64, 32 bytes
+  issuedAt: number; // Milliseconds from Unix Epoch
+};
+
+export function createOrganizerAuthMessage(accountId: string, issuedAt: number) {
+  return `organizer-auth:${accountId}:${issuedAt}`;
+}
+
+function encodeBorshString(value: string) {
+  const bytes = new TextEncoder().encode(value);
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, bytes.length, true);
+  return [...length, ...bytes];
+}
+
+async function hashNep413Payload({
+  message,
+  nonce,
+  recipient,
+}: {
+  message: string;
+  nonce: Uint8Array;
+  recipient: string;
+}) {
+  // Borsh serialized { message, nonce, recipient, callbackUrl: None } prefixed with the NEP-413 tag
+  const tag = new Uint8Array(4);
+  new DataView(tag.buffer).setUint32(0, NEP413_PAYLOAD_TAG, true);
+  const payload = Uint8Array.from([
+    ...tag,
+    ...encodeBorshString(message),
+    ...nonce,
+    ...encodeBorshString(recipient),
+    0,
+  ]);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', payload));
+}
+
+function readStoredToken(accountId: string) {
+  try {
+    const token: OrganizerAuthToken | null = JSON.parse(sessionStorage.getItem(ORGANIZER_AUTH_STORAGE_KEY) ?? 'null');
+    if (token?.accountId === accountId && Date.now() - token.issuedAt < ORGANIZER_AUTH_TTL_MS - 60_000) {
+      return token;
+    }
+  } catch (error) {
+    console.error('Failed to read organizer auth token', error);
+  }
+
+  return null;
+}
+
+export async function getOrganizerAuthHeader({
+  accountId,
+  wallet,
+}: {
+  accountId: string | undefined;
+  wallet: WalletStore['wallet'];
+}) {
+  if (!wallet || !accountId) {
+    throw new Error('Attempted to authenticate without a connected wallet');
+  }
+
+  let token = readStoredToken(accountId);
+
+  if (!token) {
+    const issuedAt = Date.now();
+    const nonce = crypto.getRandomValues(new Uint8Array(32));
+    const signed = await wallet.signMessage({
+      message: createOrganizerAuthMessage(accountId, issuedAt),
+      recipient: HOSTNAME,
+      nonce: Buffer.from(nonce),
+    });
+
+    // Wallets that sign on their own page redirect instead of returning the signature
+    if (!signed || signed.accountId !== accountId) {
+      throw new Error('Your wallet did not return a signed message, please try again with another wallet');
+    }
+
+    token = {
+      accountId,
+      publicKey: signed.publicKey,
+      signature: signed.signature,
+      nonce: arrayBufferToBase64(nonce),
+      issuedAt,
+    };
+    sessionStorage.setItem(ORGANIZER_AUTH_STORAGE_KEY, JSON.stringify(token));
+  }
+
+  return `NEAR ${btoa(JSON.stringify(token))}`;
+}
+
+function parseOrganizerAuthHeader(authorization: string | undefined) {
+  if (!authorization?.startsWith('NEAR ')) return null;
+
+  try {
+    const token: OrganizerAuthToken = JSON.parse(atob(authorization.slice('NEAR '.length)));
+    if (
+      typeof token.accountId !== 'string' ||
+      typeof token.publicKey !== 'string' ||
+      typeof token.signature !== 'string' ||
+      typeof token.nonce !== 'string' ||
+      typeof token.issuedAt !== 'number'
+    ) {
+      return null;
+    }
+    return token;
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function authenticateOrganizer(headers: IncomingHttpHeaders) {
+  // Returns the account that signed the request, or null when the signature isn't valid
+  const token = parseOrganizerAuthHeader(headers.authorization);
+  if (!token) return null;
+
+  const age = Date.now() - token.issuedAt;
+  if (age < -60_000 || age > ORGANIZER_AUTH_TTL_MS) return null;
+
+  try {
+    const nonce = new Uint8Array(base64ToArrayBuffer(token.nonce));
+    if (nonce.length !== 32) return null;
+
+    const hash = await hashNep413Payload({
+      message: createOrganizerAuthMessage(token.accountId, token.issuedAt),
+      nonce,
+      recipient: HOSTNAME,
+    });
+    const verified = utils.PublicKey.fromString(token.publicKey).verify(
+      hash,
+      new Uint8Array(base64ToArrayBuffer(token.signature)),
+    );
+    if (!verified) return null;
+  } catch (error) {
+    console.error('Failed to verify organizer signature', error);
+    return null;
+  }
+
+  // Function call keys (e.g. ticket keys) can sign messages too, only full access keys prove ownership
+  const accessKey = await viewAccessKey(token.accountId, token.publicKey);
+  if (accessKey?.permission !== 'FullAccess') return null;
+
+  return token.accountId;
+}
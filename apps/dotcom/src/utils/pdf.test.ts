@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTablePdf } from './pdf';
+
+const COLUMNS = [
+  { header: 'Email', width: 200 },
+  { header: 'Tier', width: 100 },
+];
+
+const decode = (pdf: Uint8Array) => new TextDecoder('latin1').decode(pdf);
+
+describe('createTablePdf', () => {
+  it('points the cross-reference table at every object', () => {
+    const pdf = decode(
+      createTablePdf({
+        title: 'Meetup - Door List',
+        columns: COLUMNS,
+        rows: Array.from({ length: 120 }, (_, index) => [`fan${index}@example.com`, 'VIP']),
+      }),
+    );
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(pdf.slice(startxref).startsWith('xref\n')).toBe(true);
+
+    const [, count] = pdf.slice(startxref).match(/^xref\n0 (\d+)\n/)!;
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+
+    expect(offsets).toHaveLength(Number(count) - 1);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+
+    // 120 rows don't fit on one page, the headers and page numbers are repeated
+    expect(pdf).toContain('/Count 3');
+    expect(pdf.match(/\(Email\) Tj/g)).toHaveLength(3);
+    expect(pdf).toContain('(Page 3 of 3) Tj');
+  });
+
+  it('writes one Latin-1 byte per character and escapes text', () => {
+    const bytes = createTablePdf({
+      title: 'Café (late) \\ night',
+      columns: COLUMNS,
+      rows: [['José 🎉 李', 'VIP']],
+    });
+    const pdf = decode(bytes);
+
+    expect(bytes.length).toBe(pdf.length);
+    expect(pdf).toContain('(Caf\xe9 \\(late\\) \\\\ night) Tj');
+    // Characters outside of Latin-1 can't be drawn with the built in fonts
+    expect(pdf).toContain('(Jos\xe9 ?? ?) Tj');
+  });
+});
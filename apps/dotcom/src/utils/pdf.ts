@@ -0,0 +1,142 @@
+/*
+  NOTE: A minimal PDF writer for printable tables (such as door lists). It only supports
+  the built in Helvetica fonts, so text outside of Latin-1 is replaced with "?".
+*/
+
+const PAGE_WIDTH = 612; // US Letter in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const TITLE_FONT_SIZE = 16;
+const LINE_HEIGHT = FONT_SIZE * 1.6;
+const AVERAGE_CHARACTER_WIDTH = FONT_SIZE * 0.5;
+
+export type PdfTableColumn = {
+  header: string;
+  width: number; // Points
+};
+
+type PdfTableOptions = {
+  title: string;
+  subtitle?: string;
+  columns: PdfTableColumn[];
+  rows: string[][];
+};
+
+function sanitize(text: string) {
+  return text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function truncate(text: string, width: number) {
+  const maxCharacters = Math.floor(width / AVERAGE_CHARACTER_WIDTH) - 1;
+  return text.length > maxCharacters ? `${text.slice(0, Math.max(0, maxCharacters - 3))}...` : text;
+}
+
+function drawText(text: string, x: number, y: number, font: 'F1' | 'F2', size: number) {
+  return `BT /${font} ${size} Tf ${x} ${y} Td (${sanitize(text)}) Tj ET`;
+}
+
+function drawRow(cells: string[], columns: PdfTableColumn[], y: number, font: 'F1' | 'F2') {
+  let x = MARGIN;
+
+  return columns.map((column, index) => {
+    const command = drawText(truncate(cells[index] ?? '', column.width), x, y, font, FONT_SIZE);
+    x += column.width;
+    return command;
+  });
+}
+
+function buildPageStreams({ title, subtitle, columns, rows }: PdfTableOptions) {
+  const pages: string[][] = [];
+  let commands: string[] = [];
+  let y = 0;
+
+  const startPage = () => {
+    commands = [];
+    pages.push(commands);
+    y = PAGE_HEIGHT - MARGIN;
+
+    if (pages.length === 1) {
+      commands.push(drawText(title, MARGIN, y - TITLE_FONT_SIZE, 'F2', TITLE_FONT_SIZE));
+      y -= TITLE_FONT_SIZE * 1.8;
+
+      if (subtitle) {
+        commands.push(drawText(subtitle, MARGIN, y - FONT_SIZE, 'F1', FONT_SIZE));
+        y -= LINE_HEIGHT * 1.5;
+      }
+    }
+
+    // Headers are repeated on every page so printed pages can be read on their own
+    y -= LINE_HEIGHT;
+    commands.push(
+      ...drawRow(
+        columns.map((column) => column.header),
+        columns,
+        y,
+        'F2',
+      ),
+    );
+    commands.push(`${MARGIN} ${y - 4} m ${PAGE_WIDTH - MARGIN} ${y - 4} l S`);
+  };
+
+  startPage();
+
+  rows.forEach((row) => {
+    if (y - LINE_HEIGHT < MARGIN) startPage();
+    y -= LINE_HEIGHT;
+    commands.push(...drawRow(row, columns, y, 'F1'));
+  });
+
+  pages.forEach((page, index) => {
+    page.push(drawText(`Page ${index + 1} of ${pages.length}`, PAGE_WIDTH - MARGIN - 60, MARGIN / 2, 'F1', 8));
+  });
+
+  return pages.map((page) => page.join('\n'));
+}
+
+function encodeLatin1(text: string) {
+  const bytes = new Uint8Array(text.length);
+
+  for (let index = 0; index < text.length; index++) {
+    bytes[index] = text.charCodeAt(index) & 0xff;
+  }
+
+  return bytes;
+}
+
+export function createTablePdf(options: PdfTableOptions) {
+  const streams = buildPageStreams(options);
+  const firstPageId = 5;
+  const pageIds = streams.map((_, index) => firstPageId + index * 2);
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...streams.flatMap((stream, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    ]),
+  ];
+
+  // Byte offsets are only correct because every character is written as a single Latin-1 byte
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return encodeLatin1(pdf);
+}
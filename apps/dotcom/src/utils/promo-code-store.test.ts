@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createMemoryPromoCodeStore,
+  getPromoCodeClientKey,
+  MAX_PROMO_CODE_LOOKUPS,
+  PROMO_CODE_LOOKUP_WINDOW_MS,
+} from './promo-code-store';
+
+const EVENT_ID = '1714000000000';
+
+describe('createMemoryPromoCodeStore', () => {
+  it('counts promo code lookups per client and event until the window passes', async () => {
+    const store = createMemoryPromoCodeStore();
+    const now = Date.now();
+
+    for (let lookup = 1; lookup <= MAX_PROMO_CODE_LOOKUPS; lookup++) {
+      await expect(store.recordLookup(EVENT_ID, '203.0.113.7', now)).resolves.toBe(lookup);
+    }
+    await expect(store.recordLookup(EVENT_ID, '203.0.113.7', now + 1_000)).resolves.toBe(MAX_PROMO_CODE_LOOKUPS + 1);
+
+    await expect(store.recordLookup(EVENT_ID, '198.51.100.2', now)).resolves.toBe(1);
+    await expect(store.recordLookup('1715000000000', '203.0.113.7', now)).resolves.toBe(1);
+
+    await expect(store.recordLookup(EVENT_ID, '203.0.113.7', now + PROMO_CODE_LOOKUP_WINDOW_MS)).resolves.toBe(1);
+  });
+});
+
+describe('getPromoCodeClientKey', () => {
+  it('uses the client address the proxy forwarded', () => {
+    expect(getPromoCodeClientKey({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }, '10.0.0.1')).toBe('203.0.113.7');
+    expect(getPromoCodeClientKey({}, '198.51.100.2')).toBe('198.51.100.2');
+  });
+});
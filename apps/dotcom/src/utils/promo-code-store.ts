@@ -0,0 +1,296 @@
+import { neon } from '@neondatabase/serverless';
+import { createHmac } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+import { DATABASE_URL, PROMO_CODE_SECRET } from './config';
+import type { FunderEventMetadata } from './helpers';
+import { normalizePromoCode } from './promo-codes';
+
+/*
+  NOTE: This module is server only. Promo code terms live in the event's on-chain metadata,
+  but how many times each code has been used is tracked here so usage caps can be enforced.
+*/
+
+export function hashPromoCode(funderId: string, eventId: string, code: string) {
+  /*
+    Event metadata is readable by anyone on-chain, so codes are stored as an HMAC keyed with a
+    server secret. A plain hash of a short code could be brute forced offline.
+  */
+
+  if (!PROMO_CODE_SECRET) throw new Error('PROMO_CODE_SECRET is not set');
+
+  return createHmac('sha256', PROMO_CODE_SECRET)
+    .update(`${funderId}:${eventId}:${normalizePromoCode(code)}`)
+    .digest('base64');
+}
+
+export function findEventPromoCode(funderId: string, event: FunderEventMetadata, code: string) {
+  const codeHash = hashPromoCode(funderId, event.id, code);
+  return event.promoCodes?.find((promoCode) => promoCode.codeHash === codeHash) ?? null;
+}
+
+// Anyone can try codes against an event, so each client only gets so many lookups per window
+export const PROMO_CODE_LOOKUP_WINDOW_MS = 15 * 60_000;
+export const MAX_PROMO_CODE_LOOKUPS = 20;
+
+export function getPromoCodeClientKey(headers: IncomingHttpHeaders, remoteAddress: string | undefined) {
+  // The first forwarded address is the client's, the proxy appends its own after it
+  const forwardedFor = headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0]?.trim();
+  return forwarded || remoteAddress || 'unknown';
+}
+
+export type PromoCodeRedemption = {
+  checkoutId: string;
+  eventId: string;
+  codeHash: string;
+  quantity: number;
+  status: 'reserved' | 'redeemed';
+  // Reserved uses are given back once this passes, unless the purchase was confirmed
+  expiresAt: number | null; // Milliseconds from Unix Epoch
+};
+
+type ReserveOptions = {
+  checkoutId: string;
+  eventId: string;
+  codeHash: string;
+  quantity: number;
+  maxUses?: number;
+  expiresAt: number; // Milliseconds from Unix Epoch
+};
+
+export type ReservePromoCodeResult = { reserved: boolean; uses: number };
+
+export interface PromoCodeStore {
+  // Includes uses reserved by checkouts that are still pending
+  countUses: (eventId: string, codeHash: string) => Promise<number>;
+  reserve: (options: ReserveOptions) => Promise<ReservePromoCodeResult>;
+  finalize: (checkoutId: string) => Promise<void>;
+  release: (checkoutId: string) => Promise<void>;
+  // Counts this lookup and returns how many the client has made for the event in the current window
+  recordLookup: (eventId: string, clientKey: string, now: number) => Promise<number>;
+}
+
+export function createMemoryPromoCodeStore(): PromoCodeStore {
+  const uses = new Map<string, number>();
+  const redemptions = new Map<string, PromoCodeRedemption>();
+  const lookups = new Map<string, { windowStart: number; count: number }>();
+
+  const releaseRedemption = (redemption: PromoCodeRedemption) => {
+    const key = `${redemption.eventId}:${redemption.codeHash}`;
+    uses.set(key, (uses.get(key) ?? 0) - redemption.quantity);
+    redemptions.delete(redemption.checkoutId);
+  };
+
+  const releaseExpired = (eventId: string, codeHash: string) => {
+    for (const redemption of redemptions.values()) {
+      if (
+        redemption.eventId === eventId &&
+        redemption.codeHash === codeHash &&
+        redemption.status === 'reserved' &&
+        redemption.expiresAt! < Date.now()
+      ) {
+        releaseRedemption(redemption);
+      }
+    }
+  };
+
+  return {
+    countUses: async (eventId, codeHash) => {
+      releaseExpired(eventId, codeHash);
+      return uses.get(`${eventId}:${codeHash}`) ?? 0;
+    },
+
+    reserve: async (options) => {
+      releaseExpired(options.eventId, options.codeHash);
+
+      const key = `${options.eventId}:${options.codeHash}`;
+      const current = uses.get(key) ?? 0;
+
+      if (options.maxUses !== undefined && current + options.quantity > options.maxUses) {
+        return { reserved: false, uses: current };
+      }
+
+      uses.set(key, current + options.quantity);
+      redemptions.set(options.checkoutId, {
+        checkoutId: options.checkoutId,
+        eventId: options.eventId,
+        codeHash: options.codeHash,
+        quantity: options.quantity,
+        status: 'reserved',
+        expiresAt: options.expiresAt,
+      });
+
+      return { reserved: true, uses: current + options.quantity };
+    },
+
+    finalize: async (checkoutId) => {
+      const redemption = redemptions.get(checkoutId);
+      if (redemption?.status === 'reserved') {
+        redemptions.set(checkoutId, { ...redemption, status: 'redeemed', expiresAt: null });
+      }
+    },
+
+    release: async (checkoutId) => {
+      const redemption = redemptions.get(checkoutId);
+      if (redemption?.status === 'reserved') releaseRedemption(redemption);
+    },
+
+    recordLookup: async (eventId, clientKey, now) => {
+      const key = `${eventId}:${clientKey}`;
+      const current = lookups.get(key);
+      const window =
+        current && now - current.windowStart < PROMO_CODE_LOOKUP_WINDOW_MS
+          ? { ...current, count: current.count + 1 }
+          : { windowStart: now, count: 1 };
+
+      lookups.set(key, window);
+      return window.count;
+    },
+  };
+}
+
+export function createNeonPromoCodeStore(databaseUrl: string): PromoCodeStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= Promise.all([
+      sql`
+        create table if not exists promo_code_usage (
+          event_id text not null,
+          code_hash text not null,
+          uses integer not null default 0,
+          primary key (event_id, code_hash)
+        )
+      `,
+      sql`
+        create table if not exists promo_code_redemptions (
+          checkout_id text primary key,
+          event_id text not null,
+          code_hash text not null,
+          quantity integer not null,
+          status text not null,
+          expires_at bigint
+        )
+      `,
+      sql`
+        create table if not exists promo_code_lookups (
+          event_id text not null,
+          client_key text not null,
+          window_start bigint not null,
+          lookups integer not null,
+          primary key (event_id, client_key)
+        )
+      `,
+    ]);
+    return tablePromise;
+  };
+
+  const releaseExpired = async (eventId: string, codeHash: string) => {
+    // Deleting the expired reservations and giving back their uses happens in one statement
+    await sql`
+      with expired as (
+        delete from promo_code_redemptions
+        where event_id = ${eventId} and code_hash = ${codeHash}
+          and status = 'reserved' and expires_at < ${Date.now()}
+        returning quantity
+      )
+      update promo_code_usage set uses = uses - (select coalesce(sum(quantity), 0) from expired)
+      where event_id = ${eventId} and code_hash = ${codeHash}
+    `;
+  };
+
+  const countUses = async (eventId: string, codeHash: string) => {
+    await ensureTable();
+    await releaseExpired(eventId, codeHash);
+    const rows = (await sql`
+      select uses from promo_code_usage where event_id = ${eventId} and code_hash = ${codeHash}
+    `) as { uses: number }[];
+    return Number(rows[0]?.uses ?? 0);
+  };
+
+  return {
+    countUses,
+
+    reserve: async (options) => {
+      await ensureTable();
+      await releaseExpired(options.eventId, options.codeHash);
+
+      await sql`
+        insert into promo_code_usage (event_id, code_hash) values (${options.eventId}, ${options.codeHash})
+        on conflict (event_id, code_hash) do nothing
+      `;
+
+      // The cap is checked in the same statement as the increment so concurrent checkouts can't overshoot it
+      const rows = (await sql`
+        update promo_code_usage set uses = uses + ${options.quantity}
+        where event_id = ${options.eventId} and code_hash = ${options.codeHash}
+          and (${options.maxUses ?? null}::integer is null or uses + ${options.quantity} <= ${options.maxUses ?? null}::integer)
+        returning uses
+      `) as { uses: number }[];
+
+      if (!rows[0]) {
+        return { reserved: false, uses: await countUses(options.eventId, options.codeHash) };
+      }
+
+      await sql`
+        insert into promo_code_redemptions (checkout_id, event_id, code_hash, quantity, status, expires_at)
+        values (${options.checkoutId}, ${options.eventId}, ${options.codeHash}, ${options.quantity}, 'reserved', ${options.expiresAt})
+      `;
+
+      return { reserved: true, uses: Number(rows[0].uses) };
+    },
+
+    finalize: async (checkoutId) => {
+      await ensureTable();
+      await sql`
+        update promo_code_redemptions set status = 'redeemed', expires_at = null
+        where checkout_id = ${checkoutId} and status = 'reserved'
+      `;
+    },
+
+    release: async (checkoutId) => {
+      await ensureTable();
+      await sql`
+        with released as (
+          delete from promo_code_redemptions
+          where checkout_id = ${checkoutId} and status = 'reserved'
+          returning event_id, code_hash, quantity
+        )
+        update promo_code_usage set uses = promo_code_usage.uses - released.quantity
+        from released
+        where promo_code_usage.event_id = released.event_id and promo_code_usage.code_hash = released.code_hash
+      `;
+    },
+
+    recordLookup: async (eventId, clientKey, now) => {
+      await ensureTable();
+
+      // A window that has passed is restarted by the same statement that counts the lookup
+      const rows = (await sql`
+        insert into promo_code_lookups (event_id, client_key, window_start, lookups)
+        values (${eventId}, ${clientKey}, ${now}, 1)
+        on conflict (event_id, client_key) do update set
+          window_start = case
+            when promo_code_lookups.window_start <= ${now - PROMO_CODE_LOOKUP_WINDOW_MS} then ${now}
+            else promo_code_lookups.window_start
+          end,
+          lookups = case
+            when promo_code_lookups.window_start <= ${now - PROMO_CODE_LOOKUP_WINDOW_MS} then 1
+            else promo_code_lookups.lookups + 1
+          end
+        returning lookups
+      `) as { lookups: number }[];
+
+      return Number(rows[0]?.lookups ?? 1);
+    },
+  };
+}
+
+let store: PromoCodeStore | null = null;
+
+export function getPromoCodeStore() {
+  store ??= DATABASE_URL ? createNeonPromoCodeStore(DATABASE_URL) : createMemoryPromoCodeStore();
+  return store;
+}
@@ -0,0 +1,169 @@
+import { stringToNumber } from './number';
+import { getOrganizerAuthHeader } from './organizer-auth';
+import { pluralize } from './pluralize';
+import type { WalletStore } from './types';
+
+// Long enough that codes can't be guessed through the validation endpoint within its lookup limit
+export const MIN_PROMO_CODE_LENGTH = 8;
+
+export type PromoDiscountType = 'percent' | 'fixed';
+
+type PromoCodeTerms = {
+  discountType: PromoDiscountType;
+  amount: number; // Percent off (0 - 100) or dollars off each ticket
+  maxUses?: number; // Total tickets the code can be applied to
+  expiresAt?: number; // Milliseconds from Unix Epoch
+};
+
+export type PromoCodeFormMetadata = PromoCodeTerms & {
+  code: string;
+  // Tiers are referenced by index for tickets in the same form, or by drop ID for tiers that already exist
+  ticketIndexes?: number[];
+  dropIds?: string[];
+  unlocksTicketIndexes?: number[];
+  unlocksDropIds?: string[];
+};
+
+export type PromoCodeMetadata = PromoCodeTerms & {
+  codeHash: string; // Codes are stored as an HMAC since event metadata is readable by anyone on-chain
+  dropIds?: string[]; // Tiers the discount applies to, defaults to every paid tier
+  unlocksDropIds?: string[]; // Hidden tiers the code makes available
+};
+
+// What the API returns for a valid code, the hash is never sent back to the buyer
+export type AppliedPromoCode = Omit<PromoCodeMetadata, 'codeHash'> & {
+  code: string;
+  remainingUses: number | null;
+};
+
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export async function fetchPromoCodeHashes({
+  accountId,
+  eventId,
+  promoCodes,
+  wallet,
+}: {
+  accountId: string | undefined;
+  eventId: string;
+  promoCodes: PromoCodeFormMetadata[] | undefined;
+  wallet: WalletStore['wallet'];
+}): Promise<string[]> {
+  // Hashing needs the server's secret, so only the event's organizer can request hashes
+  if (!promoCodes?.length) return [];
+
+  const response = await fetch('/api/promo-codes/hashes', {
+    method: 'POST',
+    headers: {
+      Authorization: await getOrganizerAuthHeader({ accountId, wallet }),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ funderId: accountId, eventId, codes: promoCodes.map((promoCode) => promoCode.code) }),
+  });
+  const data: { codeHashes?: string[]; message?: string } = await response.json();
+
+  if (!response.ok || !data.codeHashes) {
+    throw new Error(data.message || `Hashing promo codes failed with status: ${response.status}`);
+  }
+
+  return data.codeHashes;
+}
+
+export function resolvePromoCodes(
+  promoCodes: PromoCodeFormMetadata[],
+  codeHashes: string[],
+  ticketIndexByDropId: Record<string, number>,
+) {
+  const dropIdsForTickets = (ticketIndexes: number[] | undefined) =>
+    Object.keys(ticketIndexByDropId).filter((dropId) => ticketIndexes?.includes(ticketIndexByDropId[dropId]!));
+
+  return promoCodes.map((promoCode, index): PromoCodeMetadata => {
+    const codeHash = codeHashes[index];
+    if (!codeHash) throw new Error(`Missing hash for promo code: ${promoCode.code}`);
+
+    // Codes that only unlock hidden tiers have no discount
+    if (promoCode.amount < 0 || (promoCode.discountType === 'percent' && promoCode.amount > 100)) {
+      throw new Error(`Invalid discount for promo code: ${promoCode.code}`);
+    }
+
+    const dropIds = [...(promoCode.dropIds ?? []), ...dropIdsForTickets(promoCode.ticketIndexes)];
+    const unlocksDropIds = [...(promoCode.unlocksDropIds ?? []), ...dropIdsForTickets(promoCode.unlocksTicketIndexes)];
+
+    return {
+      codeHash,
+      discountType: promoCode.discountType,
+      amount: promoCode.amount,
+      maxUses: promoCode.maxUses,
+      expiresAt: promoCode.expiresAt,
+      dropIds: dropIds.length ? dropIds : undefined,
+      unlocksDropIds: unlocksDropIds.length ? unlocksDropIds : undefined,
+    };
+  });
+}
+
+export function mergePromoCodes(existing: PromoCodeMetadata[] | undefined, updated: PromoCodeMetadata[]) {
+  // Re-saving a code replaces its terms instead of adding a second copy
+  const updatedHashes = new Set(updated.map((promoCode) => promoCode.codeHash));
+  const merged = [...(existing ?? []).filter((promoCode) => !updatedHashes.has(promoCode.codeHash)), ...updated];
+  return merged.length ? merged : undefined;
+}
+
+export function getPromoCodeError(promoCode: PromoCodeMetadata, uses: number, quantity = 0, now = Date.now()) {
+  if (promoCode.expiresAt && now > promoCode.expiresAt) {
+    return 'This promo code has expired';
+  }
+
+  if (promoCode.maxUses !== undefined && uses + quantity > promoCode.maxUses) {
+    const remaining = Math.max(0, promoCode.maxUses - uses);
+    return remaining > 0
+      ? `This promo code can only be applied to ${remaining} more ${pluralize(remaining, 'ticket')}`
+      : 'This promo code has reached its usage limit';
+  }
+
+  return null;
+}
+
+export function isPromoCodeApplicable(promoCode: Pick<PromoCodeMetadata, 'dropIds'> | null, dropId: string) {
+  return !!promoCode && (!promoCode.dropIds || promoCode.dropIds.includes(dropId));
+}
+
+export function isTicketUnlocked(
+  drop: { drop_id: string; ticket: { extra?: { hidden?: boolean } } },
+  promoCode: Pick<PromoCodeMetadata, 'unlocksDropIds'> | null,
+) {
+  return !drop.ticket.extra?.hidden || !!promoCode?.unlocksDropIds?.includes(drop.drop_id);
+}
+
+export function applyPromoDiscount(
+  priceFiat: string | undefined,
+  promoCode: Pick<PromoCodeMetadata, 'discountType' | 'amount' | 'dropIds'> | null,
+  dropId: string,
+) {
+  const price = stringToNumber(priceFiat) ?? 0;
+  if (!promoCode || !price || !isPromoCodeApplicable(promoCode, dropId)) return price;
+
+  const discount = promoCode.discountType === 'percent' ? (price * promoCode.amount) / 100 : promoCode.amount;
+
+  // Rounded to cents so the cart and Stripe agree on the total
+  return Math.max(0, Math.round((price - discount) * 100) / 100);
+}
+
+type PromoCodeRequest = {
+  funderId: string;
+  eventId: string;
+  code: string;
+};
+
+export async function validatePromoCode({ funderId, eventId, code }: PromoCodeRequest) {
+  const params = new URLSearchParams({ funderId, eventId, code });
+  const response = await fetch(`/api/promo-codes?${params.toString()}`);
+  const data: { promoCode?: AppliedPromoCode; message?: string } = await response.json();
+
+  if (!response.ok || !data.promoCode) {
+    throw new Error(data.message || `Promo code request failed with status: ${response.status}`);
+  }
+
+  return data.promoCode;
+}
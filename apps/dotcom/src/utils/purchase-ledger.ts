@@ -0,0 +1,241 @@
+import { neon } from '@neondatabase/serverless';
+
+import { DATABASE_URL } from './config';
+
+/*
+  NOTE: This module is server only. It keeps a running total of tickets bought per drop by
+  each buyer key (normalized email or wallet account) so per-buyer limits can be enforced.
+  Tickets are reserved by a checkout and only count for good once it completes.
+*/
+
+export type PurchaseReservation = {
+  checkoutId: string;
+  dropId: string;
+  buyerKeys: string[];
+  quantity: number;
+  status: 'reserved' | 'purchased';
+  // Reserved tickets are given back once this passes, unless the purchase was confirmed
+  expiresAt: number | null; // Milliseconds from Unix Epoch
+};
+
+type ReservePurchaseOptions = {
+  checkoutId: string;
+  dropId: string;
+  buyerKeys: string[];
+  quantity: number;
+  limit: number;
+  expiresAt: number; // Milliseconds from Unix Epoch
+};
+
+export type ReservePurchaseResult = { reserved: boolean; purchased: number };
+
+export interface PurchaseLedgerStore {
+  // Includes tickets reserved by checkouts that are still pending
+  countPurchased: (dropId: string, buyerKeys: string[]) => Promise<number>;
+  reserve: (options: ReservePurchaseOptions) => Promise<ReservePurchaseResult>;
+  finalize: (checkoutId: string) => Promise<void>;
+  release: (checkoutId: string) => Promise<void>;
+}
+
+export function createMemoryPurchaseLedgerStore(): PurchaseLedgerStore {
+  const purchases = new Map<string, number>();
+  const reservations = new Map<string, PurchaseReservation>();
+
+  const adjust = (dropId: string, buyerKeys: string[], quantity: number) => {
+    buyerKeys.forEach((buyerKey) => {
+      const key = `${dropId}:${buyerKey}`;
+      purchases.set(key, Math.max(0, (purchases.get(key) ?? 0) + quantity));
+    });
+  };
+
+  const releaseReservation = (reservation: PurchaseReservation) => {
+    adjust(reservation.dropId, reservation.buyerKeys, -reservation.quantity);
+    reservations.delete(`${reservation.checkoutId}:${reservation.dropId}`);
+  };
+
+  const releaseExpired = (dropId: string) => {
+    for (const reservation of reservations.values()) {
+      if (reservation.dropId === dropId && reservation.status === 'reserved' && reservation.expiresAt! < Date.now()) {
+        releaseReservation(reservation);
+      }
+    }
+  };
+
+  const countPurchased = async (dropId: string, buyerKeys: string[]) => {
+    releaseExpired(dropId);
+    return Math.max(0, ...buyerKeys.map((buyerKey) => purchases.get(`${dropId}:${buyerKey}`) ?? 0));
+  };
+
+  return {
+    countPurchased,
+
+    reserve: async ({ checkoutId, dropId, buyerKeys, quantity, limit, expiresAt }) => {
+      const purchased = await countPurchased(dropId, buyerKeys);
+      if (purchased + quantity > limit) return { reserved: false, purchased };
+
+      adjust(dropId, buyerKeys, quantity);
+      reservations.set(`${checkoutId}:${dropId}`, {
+        checkoutId,
+        dropId,
+        buyerKeys,
+        quantity,
+        status: 'reserved',
+        expiresAt,
+      });
+
+      return { reserved: true, purchased: purchased + quantity };
+    },
+
+    finalize: async (checkoutId) => {
+      reservations.forEach((reservation, key) => {
+        if (reservation.checkoutId === checkoutId && reservation.status === 'reserved') {
+          reservations.set(key, { ...reservation, status: 'purchased', expiresAt: null });
+        }
+      });
+    },
+
+    release: async (checkoutId) => {
+      reservations.forEach((reservation) => {
+        if (reservation.checkoutId === checkoutId && reservation.status === 'reserved') {
+          releaseReservation(reservation);
+        }
+      });
+    },
+  };
+}
+
+export function createNeonPurchaseLedgerStore(databaseUrl: string): PurchaseLedgerStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= Promise.all([
+      sql`
+        create table if not exists purchase_ledger (
+          drop_id text not null,
+          buyer_key text not null,
+          quantity integer not null,
+          primary key (drop_id, buyer_key)
+        )
+      `,
+      sql`
+        create table if not exists purchase_ledger_reservations (
+          checkout_id text not null,
+          drop_id text not null,
+          buyer_keys text[] not null,
+          quantity integer not null,
+          status text not null,
+          expires_at bigint,
+          primary key (checkout_id, drop_id)
+        )
+      `,
+    ]);
+    return tablePromise;
+  };
+
+  const decrement = async (dropId: string, buyerKeys: string[], quantity: number) => {
+    await sql`
+      update purchase_ledger set quantity = greatest(0, quantity - ${quantity})
+      where drop_id = ${dropId} and buyer_key = any(${buyerKeys}::text[])
+    `;
+  };
+
+  const releaseExpired = async (dropId: string) => {
+    // Deleting the expired reservations and giving back their tickets happens in one statement
+    await sql`
+      with expired as (
+        delete from purchase_ledger_reservations
+        where drop_id = ${dropId} and status = 'reserved' and expires_at < ${Date.now()}
+        returning buyer_keys, quantity
+      ),
+      released as (
+        select buyer_key, sum(quantity) as quantity
+        from expired, unnest(expired.buyer_keys) as buyer_key
+        group by buyer_key
+      )
+      update purchase_ledger set quantity = greatest(0, purchase_ledger.quantity - released.quantity)
+      from released
+      where purchase_ledger.drop_id = ${dropId} and purchase_ledger.buyer_key = released.buyer_key
+    `;
+  };
+
+  const countPurchased = async (dropId: string, buyerKeys: string[]) => {
+    await ensureTable();
+    await releaseExpired(dropId);
+    const rows = (await sql`
+      select coalesce(max(quantity), 0) as purchased from purchase_ledger
+      where drop_id = ${dropId} and buyer_key = any(${buyerKeys}::text[])
+    `) as { purchased: number }[];
+    return Number(rows[0]?.purchased ?? 0);
+  };
+
+  return {
+    countPurchased,
+
+    reserve: async ({ checkoutId, dropId, buyerKeys, quantity, limit, expiresAt }) => {
+      await ensureTable();
+      await releaseExpired(dropId);
+
+      // The limit is checked in the same statement as each key's increment so concurrent checkouts can't overshoot it
+      const rows = (await sql`
+        insert into purchase_ledger (drop_id, buyer_key, quantity)
+        select ${dropId}, buyer_key, ${quantity} from unnest(${buyerKeys}::text[]) as buyer_key
+        where ${quantity}::integer <= ${limit}::integer
+        on conflict (drop_id, buyer_key) do update set quantity = purchase_ledger.quantity + excluded.quantity
+        where purchase_ledger.quantity + excluded.quantity <= ${limit}::integer
+        returning buyer_key
+      `) as { buyer_key: string }[];
+
+      if (rows.length < buyerKeys.length) {
+        // One key was already at its limit, so the keys that were incremented are rolled back
+        await decrement(
+          dropId,
+          rows.map((row) => row.buyer_key),
+          quantity,
+        );
+        return { reserved: false, purchased: await countPurchased(dropId, buyerKeys) };
+      }
+
+      await sql`
+        insert into purchase_ledger_reservations (checkout_id, drop_id, buyer_keys, quantity, status, expires_at)
+        values (${checkoutId}, ${dropId}, ${buyerKeys}::text[], ${quantity}, 'reserved', ${expiresAt})
+      `;
+
+      return { reserved: true, purchased: await countPurchased(dropId, buyerKeys) };
+    },
+
+    finalize: async (checkoutId) => {
+      await ensureTable();
+      await sql`
+        update purchase_ledger_reservations set status = 'purchased', expires_at = null
+        where checkout_id = ${checkoutId} and status = 'reserved'
+      `;
+    },
+
+    release: async (checkoutId) => {
+      await ensureTable();
+      await sql`
+        with released as (
+          delete from purchase_ledger_reservations
+          where checkout_id = ${checkoutId} and status = 'reserved'
+          returning drop_id, buyer_keys, quantity
+        ),
+        totals as (
+          select drop_id, buyer_key, sum(quantity) as quantity
+          from released, unnest(released.buyer_keys) as buyer_key
+          group by drop_id, buyer_key
+        )
+        update purchase_ledger set quantity = greatest(0, purchase_ledger.quantity - totals.quantity)
+        from totals
+        where purchase_ledger.drop_id = totals.drop_id and purchase_ledger.buyer_key = totals.buyer_key
+      `;
+    },
+  };
+}
+
+let store: PurchaseLedgerStore | null = null;
+
+export function getPurchaseLedgerStore() {
+  store ??= DATABASE_URL ? createNeonPurchaseLedgerStore(DATABASE_URL) : createMemoryPurchaseLedgerStore();
+  return store;
+}
@@ -0,0 +1,30 @@
+export type PurchaseLimitBuyer = {
+  email?: string;
+  accountId?: string;
+};
+
+export function normalizeBuyerEmail(email: string) {
+  // Plus addressing delivers to the same inbox, so "name+1@" and "name+2@" count as one buyer
+  const [localPart = '', domain = ''] = email.trim().toLowerCase().split('@');
+  return `${localPart.split('+')[0]}@${domain}`;
+}
+
+export function getBuyerKeys({ email, accountId }: PurchaseLimitBuyer) {
+  const keys: string[] = [];
+  if (email?.trim()) keys.push(`email:${normalizeBuyerEmail(email)}`);
+  if (accountId) keys.push(`account:${accountId}`);
+  return keys;
+}
+
+export function getPurchaseLimitError(title: string, limit: number, purchased: number, quantity: number) {
+  const remaining = Math.max(0, limit - purchased);
+  if (quantity <= remaining) return null;
+
+  if (!remaining) {
+    return `You have already purchased the maximum of ${limit} ticket(s) for: ${title}`;
+  }
+
+  return purchased
+    ? `You can only purchase ${remaining} more ticket(s) for: ${title}`
+    : `You can only purchase ${limit} ticket(s) for: ${title}`;
+}
@@ -1,154 +1,439 @@
-import { Account } from 'near-api-js';
+import { KeyPair } from 'near-api-js';
+import type { FinalExecutionOutcome } from 'near-api-js/lib/providers/provider';
+import { parseNearAmount } from 'near-api-js/lib/utils/format';
 
-import { DropsByEventId } from '@/hooks/useDrops';
+import { TicketDrop } from '@/hooks/useDrops';
 
 import { botCheck } from './bot-check';
-import { CLOUDFLARE_IPFS, EVENTS_WORKER_BASE, KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
+import { KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
 import { FunderEventMetadata } from './helpers';
+import { refreshIndexedEvent } from './indexer-client';
+import { stringToNumber } from './number';
+import { getOrganizerAuthHeader } from './organizer-auth';
+import { AppliedPromoCode, applyPromoDiscount, isPromoCodeApplicable, isTicketUnlocked } from './promo-codes';
+import { getPurchaseLimitError } from './purchase-limits';
+import { BuyerAnswers, encryptBuyerAnswers } from './questions';
+import type { WalletStore } from './types';
+import { isWaitlistOfferFor, WaitlistOffer } from './waitlist';
 
-type PurchaseWorkerPayload = {
-  name: string | null;
-  ticketAmount: number;
-  buyerAnswers: string | undefined;
-  ticket_info: {
-    location: string;
-    eventName: string;
-    ticketType: string;
-    eventDate: string;
-    ticketOwner: string | undefined;
-    eventId: string;
-    dropId: string;
-    funderId: string;
-    event_image_url: string;
-    ticket_image_url: string;
-  };
-  purchaseEmail: string;
-  stripeAccountId: string | undefined;
-  baseUrl: string;
-  // secret keys, for multiple primary purchases
-  ticketKeys?: string[];
-  // single secret key to send in email
-  ticketKey?: string;
-  network?: string;
-  linkdrop_secret_key?: string;
+type CartLine = {
+  drop: TicketDrop;
+  quantity: number;
+  unitPriceFiat: number; // Dollars, after any promo code discount
+  promoApplied: boolean;
+};
+
+export type CartItem = {
+  dropId: string;
+  quantity?: number;
 };
 
 type PurchaseTicketOptions = {
-  dropsForEvent: DropsByEventId[string];
+  // The signed in account, if any
+  accountId?: string;
+  answers?: BuyerAnswers;
+  dropsForEvent: TicketDrop[];
   email: string;
   event: FunderEventMetadata;
   publisherAccountId: string;
-  tickets: {
-    dropId: string;
-    quantity?: number;
-  }[];
-  viewAccount: Account;
+  tickets: CartItem[];
+  // Validated with validatePromoCode(), applied and priced by the server at checkout
+  promoCode?: AppliedPromoCode | null;
+  // Validated with validateWaitlistOffer(), claimed by the server's checkout
+  waitlistOffer?: WaitlistOffer | null;
 };
 
 type PurchasedTicket = {
+  dropId?: string;
   secretKey: string;
 };
 
+export type PurchaseTicketsResult = {
+  // Free tickets are issued immediately
+  purchases: PurchasedTicket[];
+  // Paid tickets are issued once the buyer completes the Stripe checkout session
+  checkout: {
+    dropIds: string[];
+    stripeUrl: string;
+  } | null;
+};
+
+export function isTicketFree(drop: TicketDrop) {
+  return (
+    (!drop.ticket.extra?.priceFiat || drop.ticket.extra.priceFiat === '0') &&
+    (!drop.ticket.extra?.priceNear || drop.ticket.extra.priceNear === '0')
+  );
+}
+
+export function buildCart(
+  dropsForEvent: TicketDrop[],
+  tickets: CartItem[],
+  promoCode: AppliedPromoCode | null = null,
+  waitlistOffer: WaitlistOffer | null = null,
+) {
+  const free: CartLine[] = [];
+  const paid: CartLine[] = [];
+
+  for (const ticket of tickets) {
+    if (!ticket.quantity) continue;
+
+    const drop = dropsForEvent.find((d) => d.drop_id === ticket.dropId);
+
+    if (!drop) {
+      throw new Error(`Matching drop not found for id: ${ticket.dropId}`);
+    }
+
+    if (!isTicketUnlocked(drop, promoCode)) {
+      throw new Error(`A promo code is required to purchase: ${drop.ticket.title}`);
+    }
+
+    const limit = drop.ticket.extra?.limitPerUser;
+    const limitError = limit ? getPurchaseLimitError(drop.ticket.title, limit, 0, ticket.quantity) : null;
+    if (limitError) throw new Error(limitError);
+
+    // Each waitlist offer holds a single ticket that only the person it was offered to can buy
+    if (drop.ticket.extra?.maxSupply) {
+      const available = drop.ticket.remaining + (isWaitlistOfferFor(waitlistOffer, drop.drop_id) ? 1 : 0);
+
+      if (!available) {
+        throw new Error(`${drop.ticket.title} is sold out. Join the waitlist to be offered a ticket if one frees up.`);
+      }
+      if (ticket.quantity > available) {
+        throw new Error(`Only ${available} ticket(s) are left for: ${drop.ticket.title}`);
+      }
+    }
+
+    const line: CartLine = {
+      drop,
+      quantity: ticket.quantity,
+      unitPriceFiat: applyPromoDiscount(drop.ticket.extra?.priceFiat, promoCode, drop.drop_id),
+      // Unlocking a hidden tier counts as a use of the code even if it has no discount
+      promoApplied:
+        !!promoCode &&
+        ((isPromoCodeApplicable(promoCode, drop.drop_id) && !isTicketFree(drop)) ||
+          !!promoCode.unlocksDropIds?.includes(drop.drop_id)),
+    };
+
+    if (isTicketFree(drop)) {
+      free.push(line);
+    } else {
+      paid.push(line);
+    }
+  }
+
+  return { free, paid };
+}
+
+export function buildCartSummary(
+  dropsForEvent: TicketDrop[],
+  tickets: CartItem[],
+  promoCode: AppliedPromoCode | null = null,
+  waitlistOffer: WaitlistOffer | null = null,
+) {
+  const { free, paid } = buildCart(dropsForEvent, tickets, promoCode, waitlistOffer);
+  const toCents = (dollars: number) => Math.round(dollars * 100) / 100;
+
+  const lines = [...free, ...paid].map(({ drop, quantity, unitPriceFiat }) => {
+    const priceFiat = stringToNumber(drop.ticket.extra?.priceFiat) ?? 0;
+
+    return {
+      dropId: drop.drop_id,
+      title: drop.ticket.title,
+      quantity,
+      priceFiat,
+      unitPriceFiat,
+      discountFiat: toCents((priceFiat - unitPriceFiat) * quantity),
+      totalFiat: toCents(unitPriceFiat * quantity),
+    };
+  });
+
+  const subtotalFiat = toCents(lines.reduce((total, line) => total + line.priceFiat * line.quantity, 0));
+  const discountFiat = toCents(lines.reduce((total, line) => total + line.discountFiat, 0));
+
+  return {
+    lines,
+    promoCode,
+    subtotalFiat,
+    discountFiat,
+    totalFiat: toCents(subtotalFiat - discountFiat),
+  };
+}
+
+async function requestCheckout<T>(path: string, body: Record<string, unknown>, headers?: Record<string, string>) {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const data: T & { message?: string } = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Request to purchase ticket(s) failed');
+  }
+
+  return data;
+}
+
 export async function purchaseTickets({
+  accountId,
+  answers,
   dropsForEvent,
   email,
   event,
   publisherAccountId,
   tickets,
-  viewAccount,
-}: PurchaseTicketOptions) {
-  const purchases: PurchasedTicket[] = [];
+  promoCode = null,
+  waitlistOffer = null,
+}: PurchaseTicketOptions): Promise<PurchaseTicketsResult> {
+  if (event.cancelled) {
+    throw new Error('Tickets can no longer be purchased since this event has been cancelled');
+  }
+
+  const cart = buildCart(dropsForEvent, tickets, promoCode, waitlistOffer);
+
+  if (!cart.free.length && !cart.paid.length) {
+    throw new Error('No tickets were purchased. A ticket with quantity of 1 or greater is required for purchasing.');
+  }
 
   const bot = await botCheck();
   if (bot) {
     throw new Error('Bot detection triggered');
   }
 
-  for (const ticket of tickets) {
-    if (!ticket.quantity) continue;
+  const buyerAnswers = await encryptBuyerAnswers(event, answers);
 
-    const drop = dropsForEvent.find((d) => d.drop_id === ticket.dropId);
+  /*
+    The cart above is only a preview. The server prices it again from the drops on-chain,
+    applies the promo code and holds its uses, the ticket of a waitlist offer and the buyer's
+    purchase limits until the Stripe checkout completes or expires.
+  */
 
-    if (!drop) {
-      throw new Error(`Matching drop not found for id: ${ticket.dropId}`);
-    }
-    //if (!event.pubKey) {
-    //  throw new Error('Event is missing public key');
-    //}
-
-    //const publicKeyBase64 = event.pubKey;
-    //const publicKey = await base64ToPublicKey(publicKeyBase64);
-    //const buyerAnswers = await encryptWithPublicKey(JSON.stringify({ questions: {} }), publicKey); // TODO: Eventually support questions in our UI and record answers here
-
-    const eventImageUrl = event.artwork ? `${CLOUDFLARE_IPFS}/${event.artwork}` : '';
-    const ticketImageUrl = drop.ticket.artwork ? `${CLOUDFLARE_IPFS}/${drop.ticket.artwork}` : (eventImageUrl ?? '');
-
-    const workerPayload: PurchaseWorkerPayload = {
-      name: null,
-      ticketAmount: ticket.quantity,
-      buyerAnswers: undefined,
-      ticket_info: {
-        location: event.location,
-        eventName: event.name,
-        ticketType: drop.ticket.title,
-        eventDate: JSON.stringify(event.date),
-        ticketOwner: undefined, // If signed in, this is signed in account, otherwise its undefined
-        eventId: event.id,
-        dropId: drop.drop_id,
-        funderId: publisherAccountId,
-        event_image_url: eventImageUrl,
-        ticket_image_url: ticketImageUrl,
-      },
-      purchaseEmail: email.trim(),
-      stripeAccountId: undefined,
-      baseUrl: window.location.origin,
+  const { purchases, checkout } = await requestCheckout<PurchaseTicketsResult>('/api/checkout', {
+    funderId: publisherAccountId,
+    eventId: event.id,
+    email: email.trim(),
+    accountId,
+    items: [...cart.free, ...cart.paid].map(({ drop, quantity }) => ({ dropId: drop.drop_id, quantity })),
+    promoCode: promoCode?.code,
+    waitlistOfferToken: waitlistOffer?.offerToken,
+    buyerAnswers,
+  });
+
+  if (purchases.length) {
+    refreshIndexedEvent(publisherAccountId, event.id);
+  }
+
+  return {
+    purchases,
+    checkout,
+  };
+}
+
+type PurchaseTicketsWithNearOptions = Omit<PurchaseTicketOptions, 'email'> & {
+  accountId: string | undefined;
+  wallet: WalletStore['wallet'];
+};
+
+export type PendingNearCheckout = {
+  // Set for primary sales, the server confirms the checkout with the transactions the wallet returns
+  checkoutId?: string;
+  eventId: string;
+  secretKeys: string[];
+};
+
+const PENDING_NEAR_CHECKOUT_KEY = 'NEAR_CHECKOUT_PENDING';
+
+export function loadPendingNearCheckout() {
+  const pendingCheckout = localStorage.getItem(PENDING_NEAR_CHECKOUT_KEY);
+  return pendingCheckout ? (JSON.parse(pendingCheckout) as PendingNearCheckout) : null;
+}
+
+export function savePendingNearCheckout(pendingCheckout: PendingNearCheckout) {
+  localStorage.setItem(PENDING_NEAR_CHECKOUT_KEY, JSON.stringify(pendingCheckout));
+}
+
+export function clearPendingNearCheckout() {
+  localStorage.removeItem(PENDING_NEAR_CHECKOUT_KEY);
+}
+
+export async function confirmPendingNearCheckout(transactionHashes: string[]) {
+  /*
+    Wallets that redirect to sign never resolve signAndSendTransactions(), they append the
+    hashes of the sent transactions to the URL they return to instead.
+  */
+
+  const pendingCheckout = loadPendingNearCheckout();
+  if (!pendingCheckout?.checkoutId || !transactionHashes.length) return null;
+
+  const { status } = await requestCheckout<{ status: string | null }>('/api/checkout/near', {
+    checkoutId: pendingCheckout.checkoutId,
+    transactionHashes,
+  });
+
+  savePendingNearCheckout({ eventId: pendingCheckout.eventId, secretKeys: pendingCheckout.secretKeys });
+  return status;
+}
+
+export function isTransactionFailed(outcome: FinalExecutionOutcome) {
+  // The transaction itself can succeed while one of its receipts, such as minting the tickets, fails
+  const statuses = [outcome.status, ...outcome.receipts_outcome.map((receipt) => receipt.outcome.status)];
+  return statuses.some((status) => typeof status === 'object' && !!status.Failure);
+}
+
+export async function purchaseTicketsWithNear({
+  accountId,
+  answers,
+  dropsForEvent,
+  event,
+  publisherAccountId,
+  tickets,
+  wallet,
+  waitlistOffer = null,
+}: PurchaseTicketsWithNearOptions) {
+  if (!wallet || !accountId) {
+    throw new Error('Wallet not connected');
+  }
+
+  if (!event.nearCheckout) {
+    throw new Error('This event does not support checkout with NEAR');
+  }
+
+  if (event.cancelled) {
+    throw new Error('Tickets can no longer be purchased since this event has been cancelled');
+  }
+
+  const cart = buildCart(dropsForEvent, tickets, null, waitlistOffer);
+  const lines = [...cart.free, ...cart.paid];
+
+  if (!lines.length) {
+    throw new Error('No tickets were purchased. A ticket with quantity of 1 or greater is required for purchasing.');
+  }
+
+  const buyerAnswers = await encryptBuyerAnswers(event, answers);
+  // Secret keys generated for each line, in the same order as the transactions
+  const secretKeysByLine: string[][] = [];
+
+  // Holds the buyer's waitlist offer and purchase limits until the transactions are confirmed below
+  const { checkoutId } = await requestCheckout<{ checkoutId: string }>(
+    '/api/checkout',
+    {
+      paymentMethod: 'near',
+      funderId: publisherAccountId,
+      eventId: event.id,
+      accountId,
+      items: lines.map(({ drop, quantity }) => ({ dropId: drop.drop_id, quantity })),
+      waitlistOfferToken: waitlistOffer?.offerToken,
+    },
+    // The limits held are the account's, so the server checks the buyer controls it
+    { Authorization: await getOrganizerAuthHeader({ accountId, wallet }) },
+  );
+
+  const transactions = lines.map(({ drop, quantity }) => {
+    /*
+      Ticket keypairs are generated on the client so the buyer is the only one who ever
+      holds the secret keys. Only the public keys are sent to the marketplace.
+    */
+
+    const keyPairs = Array.from({ length: quantity }, () => KeyPair.fromRandom('ed25519'));
+    secretKeysByLine.push(keyPairs.map((keyPair) => keyPair.toString()));
+
+    const pricePerTicket = BigInt(parseNearAmount(drop.ticket.extra?.priceNear || '0') ?? '0');
+
+    return {
+      signerId: accountId,
+      receiverId: KEYPOM_MARKETPLACE_CONTRACT_ID,
+      actions: [
+        {
+          type: 'FunctionCall' as const,
+          params: {
+            methodName: 'buy_initial_sale',
+            args: {
+              event_id: event.id,
+              drop_id: drop.drop_id,
+              new_keys: keyPairs.map((keyPair) => ({
+                public_key: keyPair.getPublicKey().toString(),
+                key_owner: accountId,
+                metadata: buyerAnswers ? JSON.stringify({ questions: buyerAnswers }) : undefined,
+              })),
+            },
+            gas: '300000000000000',
+            deposit: (pricePerTicket * BigInt(quantity)).toString(),
+          },
+        },
+      ],
     };
+  });
 
-    const ticketIsFree =
-      (!drop.ticket.extra?.priceFiat || drop.ticket.extra.priceFiat === '0') &&
-      (!drop.ticket.extra?.priceNear || drop.ticket.extra.priceNear === '0');
-
-    let response: Response | undefined;
-    let stripeAccountId = await viewAccount.viewFunction({
-      contractId: KEYPOM_MARKETPLACE_CONTRACT_ID,
-      methodName: 'get_stripe_id_for_account',
-      args: { account_id: publisherAccountId },
-    });
-    workerPayload.stripeAccountId = stripeAccountId;
-
-    const purchaseURL = ticketIsFree ? 'purchase-free-tickets' : 'stripe/create-checkout-session';
-    response = await fetch(`${EVENTS_WORKER_BASE}/${purchaseURL}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(workerPayload),
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      if (!ticketIsFree) {
-        // redirect to stripe for checkout
-        window.location.href = data.stripe_url;
-      } else {
-        data.tickets.forEach((t: { secret_key: any }) => purchases.push({ secretKey: t.secret_key }));
-      }
+  /*
+    NOTE: Browser wallets redirect away from the page before resolving, so we persist the
+    secret keys first. The page the wallet redirects back to can recover them with
+    loadPendingNearCheckout() and confirm the checkout with confirmPendingNearCheckout().
+  */
+
+  savePendingNearCheckout({ checkoutId, eventId: event.id, secretKeys: secretKeysByLine.flat() });
+
+  const outcomes = (await wallet.signAndSendTransactions({ transactions })) ?? [];
+
+  /*
+    NOTE: Every tier is bought in its own transaction, so one can fail while the others went
+    through and were paid for. Only the keys of failed transactions are dropped. Keys without
+    an outcome stay pending since we can't tell whether their tickets were minted.
+  */
+
+  const purchases: PurchasedTicket[] = [];
+  const failed: { dropId: string; transactionHash: string }[] = [];
+  const unconfirmedSecretKeys: string[] = [];
+
+  lines.forEach(({ drop }, index) => {
+    const outcome = outcomes[index];
+    const lineSecretKeys = secretKeysByLine[index] ?? [];
+
+    if (!outcome) {
+      unconfirmedSecretKeys.push(...lineSecretKeys);
+    } else if (isTransactionFailed(outcome)) {
+      console.error('NEAR checkout transaction failed', outcome);
+      failed.push({ dropId: drop.drop_id, transactionHash: outcome.transaction_outcome.id });
     } else {
-      /*
-        TODO: We'll need to think through how we redirect to Stripe after exiting this loop.
-        We need to make sure any and all free tickets are handled first before redirecting
-        to Stripe.
-      */
-      console.error(response);
-      throw new Error('Request to purchase ticket(s) failed');
+      lineSecretKeys.forEach((secretKey) => purchases.push({ secretKey }));
     }
+  });
+
+  if (unconfirmedSecretKeys.length) {
+    savePendingNearCheckout({ eventId: event.id, secretKeys: unconfirmedSecretKeys });
+  } else {
+    clearPendingNearCheckout();
   }
 
-  if (!purchases.length) {
-    throw new Error('No tickets were purchased. A ticket with quantity of 1 or greater is required for purchasing.');
+  /*
+    The server verifies the transactions on-chain before the checkout counts towards the buyer's
+    limits and the event's sales, failed ones give back what it held. Without a confirmation (e.g. a wallet that
+    redirected away) the hold simply lapses.
+  */
+
+  const transactionHashes = outcomes.map((outcome) => outcome.transaction_outcome.id);
+
+  if (transactionHashes.length) {
+    try {
+      await requestCheckout('/api/checkout/near', { checkoutId, transactionHashes });
+    } catch (error) {
+      console.error('Failed to confirm NEAR checkout', error);
+    }
+  }
+
+  if (!purchases.length && failed.length) {
+    throw new Error(
+      `NEAR checkout transaction failed: ${failed.map(({ transactionHash }) => transactionHash).join(', ')}`,
+    );
   }
 
   return {
     purchases,
+    // Tiers whose transaction failed, the buyer wasn't charged for these
+    failed,
+    outcomes,
+    transactionHashes,
   };
 }
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { FunderEventMetadata } from './helpers';
+import { createEventEncryption, decryptBuyerAnswers, encryptBuyerAnswers, unlockEventPrivateKey } from './questions';
+
+const PASSPHRASE = 'correct horse battery';
+
+const createEvent = async (): Promise<FunderEventMetadata> => ({
+  id: '1714000000000',
+  name: 'Meetup',
+  location: 'Lisbon',
+  date: {
+    startDate: 1714000000000,
+    startTime: '18:00',
+    endDate: 1714000000000,
+    endTime: '21:00',
+    timeZone: 'Europe/Lisbon',
+  },
+  artwork: 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+  dateCreated: '1714000000000',
+  questions: [
+    { question: 'Dietary requirements', required: true },
+    { question: 'Company', required: false },
+  ],
+  ...(await createEventEncryption(PASSPHRASE)),
+});
+
+describe('buyer answers', () => {
+  it('can only be read back with the event passphrase', async () => {
+    const event = await createEvent();
+    const answers = { 'Dietary requirements': 'Vegetarian', Company: 'Keypom' };
+
+    const encryptedAnswers = await encryptBuyerAnswers(event, answers);
+    expect(encryptedAnswers).not.toContain('Vegetarian');
+
+    const privateKey = await unlockEventPrivateKey(event, PASSPHRASE);
+    await expect(decryptBuyerAnswers(encryptedAnswers!, privateKey)).resolves.toEqual(answers);
+
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(unlockEventPrivateKey(event, 'incorrect horse battery')).rejects.toThrow(
+      'Incorrect passphrase for event',
+    );
+    vi.restoreAllMocks();
+  });
+
+  it('require every required question to be answered', async () => {
+    const event = await createEvent();
+
+    await expect(encryptBuyerAnswers(event, { 'Dietary requirements': '  ', Company: 'Keypom' })).rejects.toThrow(
+      'Please answer the required question: Dietary requirements',
+    );
+  });
+
+  it('need a passphrase long enough to protect the event key', async () => {
+    await expect(createEventEncryption('too short')).rejects.toThrow('at least 12 characters');
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  base64ToPublicKey,
+  decryptPrivateKey,
+  decryptWithPrivateKey,
+  encryptPrivateKey,
+  encryptWithPublicKey,
+  generateKeyPair,
+  publicKeyToBase64,
+} from './crypto-helpers';
+import type { FunderEventMetadata, QuestionInfo } from './helpers';
+
+export type EventEncryptionMetadata = Required<Pick<FunderEventMetadata, 'pubKey' | 'encPrivKey' | 'iv' | 'salt'>>;
+
+// Answers are keyed by the question text
+export type BuyerAnswers = Record<string, string>;
+
+export const MIN_QUESTIONS_PASSPHRASE_LENGTH = 12;
+
+export async function createEventEncryption(passphrase: string | undefined): Promise<EventEncryptionMetadata> {
+  if (!passphrase || passphrase.length < MIN_QUESTIONS_PASSPHRASE_LENGTH) {
+    throw new Error(`A passphrase of at least ${MIN_QUESTIONS_PASSPHRASE_LENGTH} characters is required`);
+  }
+
+  const keyPair = await generateKeyPair();
+  const pubKey = await publicKeyToBase64(keyPair.publicKey);
+  const { encPrivKey, iv, salt } = await encryptPrivateKey(keyPair.privateKey, passphrase);
+
+  return { pubKey, encPrivKey, iv, salt };
+}
+
+export async function unlockEventPrivateKey(event: FunderEventMetadata, passphrase: string) {
+  if (!event.encPrivKey || !event.iv || !event.salt) {
+    throw new Error('Event does not have an encryption key');
+  }
+
+  try {
+    return await decryptPrivateKey({ encPrivKey: event.encPrivKey, iv: event.iv, salt: event.salt }, passphrase);
+  } catch (error) {
+    console.error(error);
+    throw new Error('Incorrect passphrase for event');
+  }
+}
+
+export function findMissingAnswer(questions: QuestionInfo[] | undefined, answers: BuyerAnswers | undefined) {
+  return questions?.find((q) => q.required && !answers?.[q.question]?.trim());
+}
+
+export async function encryptBuyerAnswers(event: FunderEventMetadata, answers: BuyerAnswers | undefined) {
+  if (!event.questions?.length) return undefined;
+
+  if (!event.pubKey) {
+    throw new Error('Event is missing public key');
+  }
+
+  const missingAnswer = findMissingAnswer(event.questions, answers);
+  if (missingAnswer) {
+    throw new Error(`Please answer the required question: ${missingAnswer.question}`);
+  }
+
+  const publicKey = await base64ToPublicKey(event.pubKey);
+  return await encryptWithPublicKey(JSON.stringify({ questions: answers ?? {} }), publicKey);
+}
+
+export async function decryptBuyerAnswers(encryptedAnswers: string, privateKey: CryptoKey) {
+  const decrypted = await decryptWithPrivateKey(encryptedAnswers, privateKey);
+  const { questions } = JSON.parse(decrypted) as { questions: BuyerAnswers };
+  return questions;
+}
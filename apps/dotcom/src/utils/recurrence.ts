@@ -0,0 +1,115 @@
+import { DateTime, WeekdayNumbers } from 'luxon';
+
+import type { DateAndTimeInfo } from './helpers';
+import { getDateAndTimeWindow, toZonedDateTime } from './time';
+
+export const MAX_EVENT_SESSIONS = 52;
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'custom';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Repeat every N days or weeks, defaults to 1
+  weekdays?: WeekdayNumbers[]; // Weekly only: 1 (Monday) through 7 (Sunday), defaults to the first session's weekday
+  count?: number; // Total number of sessions
+  until?: string; // ISO date of the last day a session can start on
+  startTimes?: string[]; // Custom only: wall clock start of every session after the first, such as 2024-05-01T18:00
+};
+
+export interface EventSession {
+  id: string;
+  date: DateAndTimeInfo;
+}
+
+type ExpandRecurrenceOptions = {
+  startTime: string | number;
+  endTime: string | number;
+  timeZone: string;
+  rule: RecurrenceRule;
+};
+
+function buildSession(start: DateTime, end: DateTime, timeZone: string): EventSession {
+  return {
+    id: start.toFormat("yyyyMMdd'T'HHmm"),
+    date: {
+      startDate: start.toMillis(),
+      startTime: start.toFormat('HH:mm'),
+      endDate: end.toMillis(),
+      endTime: end.toFormat('HH:mm'),
+      timeZone,
+    },
+  };
+}
+
+function listSessionStarts(first: DateTime, rule: RecurrenceRule, timeZone: string) {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const limit = Math.min(rule.count ?? MAX_EVENT_SESSIONS, MAX_EVENT_SESSIONS);
+  const until = rule.until ? toZonedDateTime(rule.until, timeZone).endOf('day') : null;
+  const starts: DateTime[] = [];
+
+  const isDone = (start: DateTime) => starts.length >= limit || (!!until && start > until);
+
+  if (rule.frequency === 'custom') {
+    const customStarts = (rule.startTimes ?? []).map((startTime) => toZonedDateTime(startTime, timeZone));
+    return [first, ...customStarts].sort((a, b) => a.toMillis() - b.toMillis()).slice(0, MAX_EVENT_SESSIONS);
+  }
+
+  if (rule.frequency === 'daily') {
+    for (let start = first; !isDone(start); start = start.plus({ days: interval })) {
+      starts.push(start);
+    }
+    return starts;
+  }
+
+  const defaultWeekdays: WeekdayNumbers[] = [first.weekday as WeekdayNumbers];
+  const weekdays = [...new Set(rule.weekdays?.length ? rule.weekdays : defaultWeekdays)].sort((a, b) => a - b);
+
+  for (let week = first.startOf('week'); ; week = week.plus({ weeks: interval })) {
+    for (const weekday of weekdays) {
+      // Setting the weekday and time (instead of adding a duration) keeps the wall clock time across DST transitions
+      const start = week.set({ weekday, hour: first.hour, minute: first.minute });
+      if (start < first) continue;
+      if (isDone(start)) return starts;
+      starts.push(start);
+    }
+  }
+}
+
+export function expandRecurrence({ startTime, endTime, timeZone, rule }: ExpandRecurrenceOptions) {
+  if (rule.frequency !== 'custom' && !rule.count && !rule.until) {
+    throw new Error('Recurring events need a number of sessions or an end date');
+  }
+
+  const first = toZonedDateTime(startTime, timeZone);
+  const firstEnd = toZonedDateTime(endTime, timeZone);
+  const duration = firstEnd.diff(first, ['days', 'hours', 'minutes']);
+
+  if (duration.toMillis() <= 0) {
+    throw new Error('Sessions must end after they start');
+  }
+
+  return listSessionStarts(first, rule, timeZone).map((start) => buildSession(start, start.plus(duration), timeZone));
+}
+
+export function getSessionsDateRange(sessions: EventSession[]): DateAndTimeInfo | undefined {
+  const first = sessions[0];
+  const last = sessions[sessions.length - 1];
+  if (!first || !last) return undefined;
+
+  return {
+    startDate: first.date.startDate,
+    startTime: first.date.startTime,
+    endDate: last.date.endDate,
+    endTime: last.date.endTime,
+    timeZone: first.date.timeZone,
+  };
+}
+
+export function findCurrentSession(sessions: EventSession[], now = DateTime.now()) {
+  return (
+    sessions.find((session) => {
+      const { start, end } = getDateAndTimeWindow(session.date);
+      return start <= now && now <= end;
+    }) ?? null
+  );
+}
@@ -0,0 +1,229 @@
+import { getPubFromSecret } from '@keypom/core';
+import { KeyPair, Near } from 'near-api-js';
+import { BrowserLocalStorageKeyStore } from 'near-api-js/lib/key_stores';
+import { formatNearAmount, parseNearAmount } from 'near-api-js/lib/utils/format';
+
+import { fetchDetailsForPurchasedTicket } from '@/hooks/usePurchasedTickets';
+
+import { hasBeenScanned } from './admissions';
+import { KEYPOM_EVENTS_CONTRACT_ID, KEYPOM_MARKETPLACE_CONTRACT_ID } from './config';
+import { fetchFunderMetadata } from './event';
+import type { FunderMetadata, MarketTicketInfo } from './helpers';
+import { withKeySignedAccount } from './keys';
+import { isTransactionFailed, PendingNearCheckout } from './purchase';
+import { viewFunction } from './rpc';
+import type { WalletStore } from './types';
+
+export type MarketplaceEventInfo = {
+  event_id: string;
+  funder_id: string;
+  max_markup: number; // Percentage of the primary price a ticket can be resold for (100 = no markup)
+  royalty_percent?: number; // Percentage of every resale paid to the organizer
+  ticket_information: MarketTicketInfo;
+};
+
+export type ResaleListing = {
+  event_id: string;
+  drop_id: string;
+  public_key: string;
+  price: string; // Yocto
+  seller_id?: string;
+};
+
+type ResaleKeyOptions = {
+  keyStore: BrowserLocalStorageKeyStore;
+  near: Near;
+  secretKey: string;
+};
+
+// Kept apart from primary NEAR checkouts so buying a resale ticket can't overwrite their pending keys
+const PENDING_RESALE_CHECKOUT_KEY = 'NEAR_RESALE_CHECKOUT_PENDING';
+
+export function loadPendingResaleCheckout() {
+  const pendingCheckout = localStorage.getItem(PENDING_RESALE_CHECKOUT_KEY);
+  return pendingCheckout ? (JSON.parse(pendingCheckout) as PendingNearCheckout) : null;
+}
+
+function savePendingResaleCheckout(pendingCheckout: PendingNearCheckout) {
+  localStorage.setItem(PENDING_RESALE_CHECKOUT_KEY, JSON.stringify(pendingCheckout));
+}
+
+function clearPendingResaleCheckout() {
+  localStorage.removeItem(PENDING_RESALE_CHECKOUT_KEY);
+}
+
+export async function fetchMarketplaceEvent(eventId: string) {
+  const eventInfo: MarketplaceEventInfo | null = await viewFunction({
+    contractId: KEYPOM_MARKETPLACE_CONTRACT_ID,
+    methodName: 'get_event_information',
+    args: { event_id: eventId },
+  });
+
+  if (!eventInfo) throw new Error(`Marketplace event not found for id: ${eventId}`);
+
+  return eventInfo;
+}
+
+export async function fetchResaleListings(eventId: string) {
+  const listings: ResaleListing[] | null = await viewFunction({
+    contractId: KEYPOM_MARKETPLACE_CONTRACT_ID,
+    methodName: 'get_resales_per_event',
+    args: { event_id: eventId },
+  });
+
+  return listings ?? [];
+}
+
+export function calculateMaxResalePrice(eventInfo: MarketplaceEventInfo, dropId: string) {
+  const ticketInfo = eventInfo.ticket_information[dropId];
+  if (!ticketInfo) throw new Error(`Ticket information not found for drop: ${dropId}`);
+
+  // Tiers can override the event's cap
+  const maxMarkup = ticketInfo.max_markup ?? eventInfo.max_markup;
+
+  return (BigInt(ticketInfo.price) * BigInt(maxMarkup)) / BigInt(100);
+}
+
+export function calculateResaleProceeds(eventInfo: MarketplaceEventInfo, price: bigint) {
+  const organizerRoyalty = (price * BigInt(eventInfo.royalty_percent ?? 0)) / BigInt(100);
+
+  return {
+    organizerRoyalty,
+    sellerProceeds: price - organizerRoyalty,
+  };
+}
+
+function assertWithinResaleCap(eventInfo: MarketplaceEventInfo, dropId: string, price: bigint) {
+  const maxPrice = calculateMaxResalePrice(eventInfo, dropId);
+
+  if (price > maxPrice) {
+    throw new Error(`Resale price can not be more than ${formatNearAmount(maxPrice.toString(), 2)} NEAR`);
+  }
+}
+
+export async function listTicketForResale({
+  keyStore,
+  near,
+  priceNear,
+  secretKey,
+}: ResaleKeyOptions & {
+  priceNear: string;
+}) {
+  const details = await fetchDetailsForPurchasedTicket(secretKey);
+
+  if (hasBeenScanned(details.extra, details.usesRemaining)) {
+    throw new Error('Tickets that have already been scanned can not be resold');
+  }
+
+  const eventInfo = await fetchMarketplaceEvent(details.extra.eventId);
+  const funderMetadata: FunderMetadata = JSON.parse(await fetchFunderMetadata(eventInfo.funder_id));
+  const event = funderMetadata[details.extra.eventId];
+
+  if (!event?.sellable || event.cancelled) {
+    throw new Error('Tickets for this event can not be resold');
+  }
+
+  const price = BigInt(parseNearAmount(priceNear) ?? '0');
+  assertWithinResaleCap(eventInfo, details.drop.drop_id, price);
+
+  /*
+    Approving the marketplace lets it transfer the ticket once a buyer pays. The listing is
+    recorded by the marketplace when the events contract calls its nft_on_approve() hook.
+  */
+
+  await withKeySignedAccount({ keyStore, near, secretKey }, (keypomAccount) =>
+    keypomAccount.functionCall({
+      contractId: KEYPOM_EVENTS_CONTRACT_ID,
+      methodName: 'nft_approve',
+      args: {
+        account_id: KEYPOM_MARKETPLACE_CONTRACT_ID,
+        msg: JSON.stringify({
+          event_id: details.extra.eventId,
+          drop_id: details.drop.drop_id,
+          public_key: details.publicKey,
+          price: price.toString(),
+        }),
+      },
+      gas: BigInt('100000000000000'),
+    }),
+  );
+
+  return calculateResaleProceeds(eventInfo, price);
+}
+
+export async function cancelResaleListing({ keyStore, near, secretKey }: ResaleKeyOptions) {
+  await withKeySignedAccount({ keyStore, near, secretKey }, (keypomAccount) =>
+    keypomAccount.functionCall({
+      contractId: KEYPOM_EVENTS_CONTRACT_ID,
+      methodName: 'nft_revoke',
+      args: {
+        account_id: KEYPOM_MARKETPLACE_CONTRACT_ID,
+      },
+      gas: BigInt('100000000000000'),
+    }),
+  );
+}
+
+export async function buyResaleTicket({
+  accountId,
+  listing,
+  wallet,
+}: {
+  accountId: string | undefined;
+  listing: ResaleListing;
+  wallet: WalletStore['wallet'];
+}) {
+  if (!wallet || !accountId) {
+    throw new Error('Wallet not connected');
+  }
+
+  // Organizers can lower the cap after a ticket was listed, so listings are checked again before paying
+  const eventInfo = await fetchMarketplaceEvent(listing.event_id);
+  const price = BigInt(listing.price);
+  assertWithinResaleCap(eventInfo, listing.drop_id, price);
+
+  /*
+    The marketplace transfers the ticket to a fresh key generated for the buyer. The transfer
+    rotates the ticket's access key, so the seller's secret key stops working.
+  */
+
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const secretKey = keyPair.toString();
+
+  savePendingResaleCheckout({ eventId: listing.event_id, secretKeys: [secretKey] });
+
+  const outcome = await wallet.signAndSendTransaction({
+    signerId: accountId,
+    receiverId: KEYPOM_MARKETPLACE_CONTRACT_ID,
+    actions: [
+      {
+        type: 'FunctionCall',
+        params: {
+          methodName: 'buy_resale',
+          args: {
+            drop_id: listing.drop_id,
+            public_key: listing.public_key,
+            new_owner_id: accountId,
+            new_public_key: keyPair.getPublicKey().toString(),
+          },
+          gas: '300000000000000',
+          deposit: listing.price,
+        },
+      },
+    ],
+  });
+
+  clearPendingResaleCheckout();
+
+  if (outcome && isTransactionFailed(outcome)) {
+    console.error('Resale purchase transaction failed', outcome);
+    throw new Error(`Resale purchase transaction failed: ${outcome.transaction_outcome.id}`);
+  }
+
+  return {
+    ...calculateResaleProceeds(eventInfo, price),
+    outcome,
+    publicKey: getPubFromSecret(secretKey),
+    secretKey,
+  };
+}
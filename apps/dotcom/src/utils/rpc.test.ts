@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./config')>()),
+  NETWORK_NODE_URLS: ['https://primary.rpc', 'https://fallback.rpc'],
+}));
+
+const encodeResult = (value: unknown) => Array.from(new TextEncoder().encode(JSON.stringify(value)));
+
+const parseRequest = (init: RequestInit) => JSON.parse(init.body as string);
+
+const methodOf = (request: any) => request.params.method_name as string;
+
+// Answers every view call with the name of the method that was called
+function respond(request: any) {
+  return { jsonrpc: '2.0', id: request.id, result: { result: encodeResult(methodOf(request)) } };
+}
+
+describe('jsonRpcFetch', () => {
+  const fetchMock = vi.fn();
+
+  // Endpoint health is module state, so every test starts with a fresh module
+  const loadRpc = async () => {
+    vi.resetModules();
+    return await import('./rpc');
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('fails over to the next endpoint instead of retrying the one that failed', async () => {
+    const { viewFunction } = await loadRpc();
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url === 'https://primary.rpc') return new Response('Bad gateway', { status: 502 });
+      return Response.json(respond(parseRequest(init)));
+    });
+
+    await expect(viewFunction({ contractId: 'events.near', methodName: 'get_drop_information' })).resolves.toBe(
+      'get_drop_information',
+    );
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://primary.rpc', 'https://fallback.rpc']);
+
+    // The failed endpoint is skipped while it's unhealthy
+    fetchMock.mockClear();
+    await viewFunction({ contractId: 'events.near', methodName: 'get_key_information' });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://fallback.rpc']);
+  });
+
+  it("doesn't retry contract errors", async () => {
+    const { RpcContractPanicError, viewFunction } = await loadRpc();
+    fetchMock.mockResolvedValue(
+      Response.json({ jsonrpc: '2.0', id: 'dontcare', result: { error: 'wasm execution failed: panicked at drop' } }),
+    );
+
+    await expect(
+      viewFunction({ contractId: 'events.near', methodName: 'get_drop_information' }),
+    ).rejects.toBeInstanceOf(RpcContractPanicError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('batches view calls made in the same tick', async () => {
+    const { viewFunction } = await loadRpc();
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const requests = parseRequest(init);
+      // The responses of a batch don't have to be in the order of the requests
+      return Response.json(
+        requests
+          .map((request: any) =>
+            methodOf(request) === 'get_drop_supply'
+              ? { ...respond(request), result: { error: 'panicked' } }
+              : respond(request),
+          )
+          .reverse(),
+      );
+    });
+
+    const results = await Promise.allSettled([
+      viewFunction({ contractId: 'events.near', methodName: 'get_drop_information' }),
+      viewFunction({ contractId: 'events.near', methodName: 'get_key_information' }),
+      viewFunction({ contractId: 'events.near', methodName: 'get_drop_information' }),
+      viewFunction({ contractId: 'events.near', methodName: 'get_drop_supply' }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    // Identical calls share a single request of the batch
+    expect(parseRequest(fetchMock.mock.calls[0]![1]).map(methodOf)).toEqual([
+      'get_drop_information',
+      'get_key_information',
+      'get_drop_supply',
+    ]);
+    expect(results.map((result) => (result.status === 'fulfilled' ? result.value : result.status))).toEqual([
+      'get_drop_information',
+      'get_key_information',
+      'get_drop_information',
+      'rejected',
+    ]);
+  });
+
+  it('sends queries on their own to nodes that do not support batching', async () => {
+    const { viewFunction } = await loadRpc();
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const request = parseRequest(init);
+      if (Array.isArray(request)) {
+        return Response.json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      }
+      return Response.json(respond(request));
+    });
+
+    await expect(
+      Promise.all([
+        viewFunction({ contractId: 'events.near', methodName: 'get_drop_information' }),
+        viewFunction({ contractId: 'events.near', methodName: 'get_key_information' }),
+      ]),
+    ).resolves.toEqual(['get_drop_information', 'get_key_information']);
+
+    // The batch fails on one endpoint only, then each query is sent on its own
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
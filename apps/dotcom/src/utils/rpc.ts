@@ -1,5 +1,5 @@
-import { KEYPOM_EVENTS_CONTRACT_ID, NETWORK_NODE_URL } from './config';
-import { FunderEventMetadata } from './helpers';
+import { KEYPOM_EVENTS_CONTRACT_ID, NETWORK_NODE_URLS } from './config';
+import { EventDrop, FunderEventMetadata, TicketMetadataExtra } from './helpers';
 
 function encodeJsonRpcArgs(args: Record<any, any>) {
   const bytes = new TextEncoder().encode(JSON.stringify(args));
@@ -11,6 +11,285 @@ function parseJsonRpcResponse(bytes: number[]): Record<any, any> {
   return JSON.parse(decodedResult);
 }
 
+const RPC_TIMEOUT_MS = 10_000;
+const RPC_MAX_ATTEMPTS = 3;
+const RPC_RETRY_BASE_DELAY_MS = 250;
+const RPC_UNHEALTHY_BASE_MS = 1_000;
+const RPC_UNHEALTHY_MAX_MS = 60_000;
+
+export class RpcError extends Error {
+  // Transport failures can succeed on another node, contract errors will fail the same way on every node
+  retryable: boolean;
+
+  constructor(message: string, { cause, retryable = false }: { cause?: unknown; retryable?: boolean } = {}) {
+    super(message, { cause });
+    this.name = 'RpcError';
+    this.retryable = retryable;
+  }
+}
+
+export class RpcMethodNotFoundError extends RpcError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RpcMethodNotFoundError';
+  }
+}
+
+export class RpcContractPanicError extends RpcError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RpcContractPanicError';
+  }
+}
+
+export class RpcTimeoutError extends RpcError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, { ...options, retryable: true });
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+type RpcEndpoint = {
+  url: string;
+  failures: number;
+  unhealthyUntil: number; // Milliseconds from Unix Epoch
+};
+
+const endpoints: RpcEndpoint[] = NETWORK_NODE_URLS.map((url) => ({ url, failures: 0, unhealthyUntil: 0 }));
+
+function orderEndpoints() {
+  // Healthy endpoints are tried first. Unhealthy endpoints are still used as a last resort.
+  const now = Date.now();
+  const healthy = endpoints.filter((endpoint) => endpoint.unhealthyUntil <= now);
+  const unhealthy = endpoints
+    .filter((endpoint) => endpoint.unhealthyUntil > now)
+    .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+  return [...healthy, ...unhealthy];
+}
+
+function markEndpointFailure(endpoint: RpcEndpoint) {
+  endpoint.failures++;
+  endpoint.unhealthyUntil =
+    Date.now() + Math.min(RPC_UNHEALTHY_BASE_MS * 2 ** (endpoint.failures - 1), RPC_UNHEALTHY_MAX_MS);
+}
+
+function markEndpointSuccess(endpoint: RpcEndpoint) {
+  endpoint.failures = 0;
+  endpoint.unhealthyUntil = 0;
+}
+
+function createQueryError(message: string, cause?: unknown) {
+  if (/MethodNotFound|MethodResolveError/.test(message)) {
+    return new RpcMethodNotFoundError(message, { cause });
+  }
+
+  if (/panicked|GuestPanic|FunctionCallError|ExecutionError/.test(message)) {
+    return new RpcContractPanicError(message, { cause });
+  }
+
+  return new RpcError(message, { cause });
+}
+
+async function postToEndpoint(endpoint: RpcEndpoint, body: string) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), RPC_TIMEOUT_MS);
+
+  let response: Response;
+
+  try {
+    response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new RpcTimeoutError(`RPC request to ${endpoint.url} timed out after ${RPC_TIMEOUT_MS}ms`, { cause: error });
+    }
+    throw new RpcError(`RPC request to ${endpoint.url} failed`, { cause: error, retryable: true });
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    throw new RpcError(`RPC request to ${endpoint.url} failed with status: ${response.status}`, {
+      retryable: response.status === 408 || response.status === 429 || response.status >= 500,
+    });
+  }
+
+  return await response.json();
+}
+
+function parseRpcResult(rawData: any) {
+  /*
+    NOTE: Nodes report view call failures either as a JSON-RPC error or as an
+    error string inside the query result, depending on the node version.
+  */
+
+  if (rawData.error) {
+    const cause = rawData.error.cause?.name;
+    const message = rawData.error.data || rawData.error.message || 'Unknown RPC error';
+
+    if (cause === 'TIMEOUT_ERROR' || cause === 'INTERNAL_ERROR') {
+      throw new RpcError(`RPC node error: ${message}`, { cause: rawData.error, retryable: true });
+    }
+
+    throw createQueryError(typeof message === 'string' ? message : JSON.stringify(message), rawData.error);
+  }
+
+  if (rawData.result?.error) {
+    throw createQueryError(rawData.result.error, rawData.result);
+  }
+
+  if (!rawData.result) {
+    throw new RpcError('RPC response did not include a result');
+  }
+
+  return rawData.result;
+}
+
+function parseQueryResult(rawData: any) {
+  const result = parseRpcResult(rawData);
+
+  if (!Array.isArray(result.result)) {
+    throw new RpcError('RPC response did not include a result');
+  }
+
+  return result.result as number[];
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withFailover<T>(send: (endpoint: RpcEndpoint) => Promise<T>) {
+  const triedEndpoints = new Set<RpcEndpoint>();
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < RPC_MAX_ATTEMPTS; attempt++) {
+    // A failed endpoint is only tried again once every other endpoint has failed too
+    const orderedEndpoints = orderEndpoints();
+    const endpoint = orderedEndpoints.find((endpoint) => !triedEndpoints.has(endpoint)) ?? orderedEndpoints[0]!;
+    triedEndpoints.add(endpoint);
+
+    try {
+      const result = await send(endpoint);
+      markEndpointSuccess(endpoint);
+      return result;
+    } catch (error) {
+      lastError = error;
+
+      if (!(error instanceof RpcError) || !error.retryable) throw error;
+
+      markEndpointFailure(endpoint);
+
+      // Full jitter keeps many clients from retrying in lockstep
+      if (attempt < RPC_MAX_ATTEMPTS - 1) {
+        await wait(Math.random() * RPC_RETRY_BASE_DELAY_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+function queryWithFailover(body: string) {
+  return withFailover(async (endpoint) => parseQueryResult(await postToEndpoint(endpoint, body)));
+}
+
+async function requestWithFailover<T>(method: string, params: Record<string, any>) {
+  const body = JSON.stringify({ id: 'dontcare', jsonrpc: '2.0', method, params });
+  return (await withFailover(async (endpoint) => parseRpcResult(await postToEndpoint(endpoint, body)))) as T;
+}
+
+type QueuedQuery = {
+  body: string;
+  resolve: (result: number[]) => void;
+  reject: (error: unknown) => void;
+};
+
+const RPC_MAX_BATCH_SIZE = 20;
+
+let queuedQueries: QueuedQuery[] = [];
+let batchingSupported = true;
+
+async function sendBatch(queries: QueuedQuery[]) {
+  const requests = queries.map(({ body }, index) => ({ ...JSON.parse(body), id: index }));
+
+  let responses: any[];
+
+  try {
+    responses = await withFailover(async (endpoint) => {
+      const rawData = await postToEndpoint(endpoint, JSON.stringify(requests));
+
+      if (!Array.isArray(rawData)) {
+        throw new RpcError(`RPC node ${endpoint.url} does not support batched requests`);
+      }
+
+      return rawData;
+    });
+  } catch (error) {
+    if (!(error instanceof RpcError) || error.retryable) {
+      queries.forEach((query) => query.reject(error));
+      return;
+    }
+
+    // Nodes that can't answer a batch still answer each query on its own
+    batchingSupported = false;
+    queries.forEach((query) => queryWithFailover(query.body).then(query.resolve, query.reject));
+    return;
+  }
+
+  queries.forEach((query, index) => {
+    const rawData = responses.find((response) => response?.id === index);
+
+    try {
+      if (!rawData) throw new RpcError('RPC response did not include a result', { retryable: true });
+      query.resolve(parseQueryResult(rawData));
+    } catch (error) {
+      if (error instanceof RpcError && error.retryable) {
+        // A single query of the batch hit a busy node, it's retried on its own
+        queryWithFailover(query.body).then(query.resolve, query.reject);
+      } else {
+        query.reject(error);
+      }
+    }
+  });
+}
+
+function flushQueuedQueries() {
+  const queries = queuedQueries;
+  queuedQueries = [];
+
+  for (let index = 0; index < queries.length; index += RPC_MAX_BATCH_SIZE) {
+    const batch = queries.slice(index, index + RPC_MAX_BATCH_SIZE);
+
+    if (batch.length === 1 || !batchingSupported) {
+      batch.forEach((query) => queryWithFailover(query.body).then(query.resolve, query.reject));
+    } else {
+      void sendBatch(batch);
+    }
+  }
+}
+
+function queueQuery(body: string) {
+  /*
+    View calls made within the same tick (e.g. one per drop of an event) are sent to the
+    node as a single JSON-RPC batch request instead of one request each.
+  */
+
+  return new Promise<number[]>((resolve, reject) => {
+    queuedQueries.push({ body, resolve, reject });
+    if (queuedQueries.length === 1) setTimeout(flushQueuedQueries, 0);
+  });
+}
+
+const inFlightQueries = new Map<string, Promise<number[]>>();
+
 export async function jsonRpcFetch<T = any>(options: {
   requestType?: 'call_function';
   finality?: 'optimistic';
@@ -31,20 +310,88 @@ export async function jsonRpcFetch<T = any>(options: {
     },
   });
 
-  const response = await fetch(NETWORK_NODE_URL, {
-    method: 'POST',
-    headers: {
-      Accept: 'application/json',
-      'Content-Type': 'application/json',
-    },
-    body,
-  });
+  // Identical view calls made while one is already in flight share its response
+  let query = inFlightQueries.get(body);
 
-  const rawData = await response.json();
-  const data = parseJsonRpcResponse(rawData.result.result) as T;
+  if (!query) {
+    query = queueQuery(body).finally(() => {
+      inFlightQueries.delete(body);
+    });
+    inFlightQueries.set(body, query);
+  }
+
+  const data = parseJsonRpcResponse(await query) as T;
   return data;
 }
 
+export async function viewFunction<T = any>({
+  contractId,
+  methodName,
+  args,
+}: {
+  contractId: string;
+  methodName: string;
+  args?: Record<string, any>;
+}) {
+  return await jsonRpcFetch<T>({ accountId: contractId, methodName, args });
+}
+
+export type AccessKeyView = {
+  nonce: number;
+  permission:
+    | 'FullAccess'
+    | { FunctionCall: { allowance: string | null; receiver_id: string; method_names: string[] } };
+};
+
+export async function viewAccessKey(accountId: string, publicKey: string) {
+  try {
+    return await requestWithFailover<AccessKeyView>('query', {
+      request_type: 'view_access_key',
+      finality: 'final',
+      account_id: accountId,
+      public_key: publicKey,
+    });
+  } catch (error) {
+    // Unknown accounts and keys are reported as errors, they're treated as a missing key
+    if (error instanceof RpcError && !error.retryable) return null;
+    throw error;
+  }
+}
+
+type ExecutionStatusView = { SuccessValue?: string; SuccessReceiptId?: string; Failure?: unknown };
+
+export type TransactionStatusView = {
+  status: ExecutionStatusView;
+  transaction: {
+    hash: string;
+    signer_id: string;
+    receiver_id: string;
+    actions: { FunctionCall?: { method_name: string; args: string; deposit: string } }[];
+  };
+  transaction_outcome: { block_hash: string };
+  receipts_outcome: { outcome: { status: ExecutionStatusView } }[];
+};
+
+export async function fetchTransactionStatus(transactionHash: string, senderAccountId: string) {
+  try {
+    return await requestWithFailover<TransactionStatusView>('tx', {
+      tx_hash: transactionHash,
+      sender_account_id: senderAccountId,
+      wait_until: 'FINAL',
+    });
+  } catch (error) {
+    // Unknown transactions are reported as errors, they're treated as a missing transaction
+    if (error instanceof RpcError && !error.retryable) return null;
+    throw error;
+  }
+}
+
+export async function fetchBlockTimestamp(blockHash: string) {
+  const block = await requestWithFailover<{ header: { timestamp_nanosec: string } }>('block', { block_id: blockHash });
+  // Milliseconds from Unix Epoch
+  return Number(BigInt(block.header.timestamp_nanosec) / BigInt(1_000_000));
+}
+
 export async function fetchEventFromJsonRpc(publisherAccountId: string, eventId: string) {
   const data = await jsonRpcFetch({
     accountId: KEYPOM_EVENTS_CONTRACT_ID,
@@ -61,3 +408,39 @@ export async function fetchEventFromJsonRpc(publisherAccountId: string, eventId:
 
   return event;
 }
+
+export async function fetchTicketFromJsonRpc(publicKey: string) {
+  /*
+    Everything about a ticket is read from the events contract by its public key, so callers
+    never have to trust ticket or event details sent by a client.
+  */
+
+  const keyInfo = await viewFunction<{ drop_id: string; uses_remaining: number } | null>({
+    contractId: KEYPOM_EVENTS_CONTRACT_ID,
+    methodName: 'get_key_information',
+    args: { key: publicKey },
+  });
+  if (!keyInfo) return null;
+
+  const drop = await viewFunction<EventDrop>({
+    contractId: KEYPOM_EVENTS_CONTRACT_ID,
+    methodName: 'get_drop_information',
+    args: { drop_id: keyInfo.drop_id },
+  });
+
+  const metadata = drop.drop_config.nft_keys_config.token_metadata;
+  const extra: TicketMetadataExtra | undefined = metadata.extra ? JSON.parse(metadata.extra) : undefined;
+  if (!extra?.eventId) return null;
+
+  const event = await fetchEventFromJsonRpc(drop.funder_id, extra.eventId);
+  if (!event) return null;
+
+  return {
+    publicKey,
+    drop,
+    event,
+    extra,
+    metadata,
+    usesRemaining: keyInfo.uses_remaining || 0,
+  };
+}
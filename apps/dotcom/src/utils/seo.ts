@@ -0,0 +1,109 @@
+import type { NextApiResponse } from 'next';
+
+import { CLOUDFLARE_IPFS, HOSTNAME } from './config';
+import { displayEventDate } from './date';
+import { formatEventIdQueryParam } from './event';
+import type { FunderEventMetadata, TicketMetadataExtra } from './helpers';
+import type { ChangedEvent, IndexedDrop } from './indexer';
+import { getDateAndTimeWindow } from './time';
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export type EventSeo = {
+  title: string;
+  description: string;
+  imageUrl: string | null;
+  url: string;
+  jsonLd: Record<string, unknown>;
+};
+
+export function getEventPagePath(publisherAccountId: string, eventId: string) {
+  return `/events/${encodeURIComponent(formatEventIdQueryParam(publisherAccountId, eventId))}`;
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function parseTicketExtra(drop: IndexedDrop) {
+  const extra = drop.drop.drop_config.nft_keys_config.token_metadata.extra;
+  return extra ? (JSON.parse(extra) as TicketMetadataExtra) : undefined;
+}
+
+function buildOffers(drops: IndexedDrop[], url: string) {
+  const offers = drops.map((drop) => ({ drop, extra: parseTicketExtra(drop) }));
+
+  // Hidden tiers are only sold with a promo code, so they aren't advertised
+  return offers
+    .filter(({ extra }) => !extra?.hidden)
+    .map(({ drop, extra }) => {
+      const metadata = drop.drop.drop_config.nft_keys_config.token_metadata;
+      const soldOut = !!extra?.maxSupply && drop.sold >= extra.maxSupply;
+
+      return {
+        '@type': 'Offer',
+        name: metadata.title || 'General Admission',
+        price: extra?.priceFiat || '0',
+        priceCurrency: 'USD',
+        availability: soldOut ? 'https://schema.org/SoldOut' : 'https://schema.org/InStock',
+        url,
+      };
+    });
+}
+
+export function buildEventSeo(publisherAccountId: string, event: FunderEventMetadata, drops: IndexedDrop[]): EventSeo {
+  const url = `${HOSTNAME}${getEventPagePath(publisherAccountId, event.id)}`;
+  const imageUrl = event.artwork ? `${CLOUDFLARE_IPFS}/${event.artwork}` : null;
+  const { dateAndTime } = displayEventDate(event);
+  const { start, end } = getDateAndTimeWindow({ ...event.date, timeZone: event.date.timeZone ?? event.timeZone });
+
+  // Link previews only show a line or two, so the date and location lead the description
+  const summary = [dateAndTime, event.location].filter(Boolean).join(' · ');
+  const description = truncate(
+    event.description ? `${summary} - ${event.description}` : summary,
+    MAX_DESCRIPTION_LENGTH,
+  );
+
+  return {
+    title: event.name,
+    description,
+    imageUrl,
+    url,
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: event.name,
+      description: event.description || undefined,
+      startDate: start.toISO(),
+      endDate: (event.date.endDate ?? event.date.endTime) ? end.toISO() : undefined,
+      eventStatus: event.cancelled ? 'https://schema.org/EventCancelled' : 'https://schema.org/EventScheduled',
+      eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+      location: {
+        '@type': 'Place',
+        name: event.location,
+        address: event.location,
+      },
+      image: imageUrl ? [imageUrl] : undefined,
+      url,
+      organizer: {
+        '@type': 'Organization',
+        name: publisherAccountId,
+      },
+      offers: drops.length > 0 ? buildOffers(drops, url) : undefined,
+    },
+  };
+}
+
+export async function revalidateEventPages(res: NextApiResponse, events: ChangedEvent[]) {
+  const results = await Promise.allSettled(
+    events.map(({ funderId, eventId }) => res.revalidate(getEventPagePath(funderId, eventId))),
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to revalidate event page: ${JSON.stringify(events[index])}`, result.reason);
+    }
+  });
+
+  return events.filter((_, index) => results[index]?.status === 'fulfilled');
+}
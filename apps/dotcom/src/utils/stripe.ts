@@ -12,7 +12,9 @@ export const createStripeEvent = async (eventData: FormSchema) => {
   return response;
 };
 
-export const pinMediaToIPFS = async (formData: FormSchema): Promise<Response | undefined> => {
+export const pinMediaToIPFS = async (
+  formData: Pick<FormSchema, 'eventArtwork' | 'tickets'>,
+): Promise<Response | undefined> => {
   let ipfsResponse: Response | undefined;
   try {
     const serializedData = await serializeMediaForWorker(formData);
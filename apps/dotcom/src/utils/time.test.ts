@@ -0,0 +1,145 @@
+import { DateTime, Settings } from 'luxon';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { buildCreateEventArgs, type DateAndTimeInfo, type FormSchema, type TicketMetadataExtra } from './helpers';
+import { dateAndTimeToText, getDateAndTimeWindow, toZonedDateTime, validateDateAndTime } from './time';
+
+// The organizer's device is in a different zone than every event below
+const DEVICE_TIME_ZONE = 'America/Los_Angeles';
+
+/*
+  Each case closes ticket sales at 09:00 on the day the zone changes its UTC offset. The
+  expected UTC instant uses the offset in effect after the change, so a window computed with
+  the offset from the start of the day (or the device's offset) lands an hour off.
+*/
+
+const DST_MATRIX = [
+  {
+    timeZone: 'America/New_York',
+    transition: 'spring forward',
+    day: '2026-03-08',
+    closesAt: '2026-03-08T13:00:00.000Z',
+  },
+  { timeZone: 'America/New_York', transition: 'fall back', day: '2026-11-01', closesAt: '2026-11-01T14:00:00.000Z' },
+  { timeZone: 'Europe/London', transition: 'spring forward', day: '2026-03-29', closesAt: '2026-03-29T08:00:00.000Z' },
+  { timeZone: 'Europe/London', transition: 'fall back', day: '2026-10-25', closesAt: '2026-10-25T09:00:00.000Z' },
+  { timeZone: 'Australia/Sydney', transition: 'fall back', day: '2026-04-05', closesAt: '2026-04-04T23:00:00.000Z' },
+  {
+    timeZone: 'Australia/Sydney',
+    transition: 'spring forward',
+    day: '2026-10-04',
+    closesAt: '2026-10-03T22:00:00.000Z',
+  },
+  { timeZone: 'Asia/Kolkata', transition: 'no change', day: '2026-03-08', closesAt: '2026-03-08T03:30:00.000Z' },
+];
+
+// Form dates hold the wall clock time picked on the organizer's device
+const toDeviceMillis = (wallClockTime: string) =>
+  DateTime.fromISO(wallClockTime, { zone: DEVICE_TIME_ZONE }).toMillis();
+
+const getDayBefore = (day: string) => DateTime.fromISO(day).minus({ days: 1 }).toISODate()!;
+
+describe.each(DST_MATRIX)('$timeZone ($transition on $day)', ({ timeZone, day, closesAt }) => {
+  const salesValidThrough: DateAndTimeInfo = {
+    startDate: DateTime.fromISO(`${getDayBefore(day)}T09:00`, { zone: timeZone }).toMillis(),
+    startTime: '09:00',
+    endDate: DateTime.fromISO(`${day}T00:00`, { zone: timeZone }).toMillis(),
+    endTime: '09:00',
+    timeZone,
+  };
+
+  beforeAll(() => {
+    Settings.defaultZone = DEVICE_TIME_ZONE;
+  });
+
+  afterAll(() => {
+    Settings.defaultZone = 'system';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the wall clock time the organizer picked', () => {
+    const zoned = toZonedDateTime(toDeviceMillis(`${day}T09:00`), timeZone);
+
+    expect(zoned.toFormat('yyyy-MM-dd HH:mm')).toBe(`${day} 09:00`);
+    expect(zoned.toUTC().toISO()).toBe(closesAt);
+    expect(toZonedDateTime(`${day}T09:00`, timeZone).toUTC().toISO()).toBe(closesAt);
+  });
+
+  it('resolves the window with the offset in effect on each day', () => {
+    const { start, end } = getDateAndTimeWindow(salesValidThrough);
+
+    expect(start.toFormat('yyyy-MM-dd HH:mm')).toBe(`${getDayBefore(day)} 09:00`);
+    expect(end.toUTC().toISO()).toBe(closesAt);
+  });
+
+  it('closes sales at the right instant', () => {
+    vi.useFakeTimers();
+    const closesAtMillis = Date.parse(closesAt);
+
+    vi.setSystemTime(closesAtMillis - 60_000);
+    expect(validateDateAndTime(salesValidThrough)).toEqual({ valid: true, message: '' });
+
+    vi.setSystemTime(closesAtMillis + 60_000);
+    expect(validateDateAndTime(salesValidThrough)).toEqual({ valid: false, message: 'Ticket sales have closed' });
+  });
+
+  it('converts sales and pass windows the same way when creating an event', () => {
+    const window = { startDate: toDeviceMillis(`${getDayBefore(day)}T09:00`), endDate: toDeviceMillis(`${day}T09:00`) };
+    const formData: FormSchema = {
+      name: 'Conference',
+      location: 'Main hall',
+      date: day,
+      timeZone,
+      sellable: false,
+      startTime: `${day}T10:00`,
+      endTime: `${day}T18:00`,
+      costBreakdown: { marketListing: '0', total: '0', perDrop: '0', perEvent: '0' },
+      tickets: [
+        {
+          name: 'Day Pass',
+          denomination: 'Near',
+          maxSupply: 10,
+          priceNear: '0',
+          priceFiat: '0',
+          salesValidThrough: { ...window, startTime: '', endTime: '' },
+          passValidThrough: { ...window, startTime: '', endTime: '' },
+        },
+      ],
+    };
+
+    const { dropBatchArgs, createEventArgs } = buildCreateEventArgs({
+      accountId: 'organizer.near',
+      formData,
+      eventArtworkCid: '',
+      ticketArtworkCids: [],
+      eventId: 'event',
+      stripeAccountId: '',
+    });
+    const extra: TicketMetadataExtra = JSON.parse(dropBatchArgs.drop_configs[0].nft_keys_config.token_metadata.extra);
+
+    expect(extra.passValidThrough).toEqual(extra.salesValidThrough);
+    expect(extra.passValidThrough).toMatchObject({ startTime: '09:00', endTime: '09:00', timeZone });
+    expect(getDateAndTimeWindow(extra.passValidThrough!).end.toUTC().toISO()).toBe(closesAt);
+    expect(Object.values(createEventArgs.ticket_information)[0]?.sale_end).toBe(Date.parse(closesAt));
+  });
+});
+
+describe('dateAndTimeToText', () => {
+  it('names the offset in effect on the event date', () => {
+    const timeZone = 'America/New_York';
+    const toDate = (day: string): DateAndTimeInfo => ({
+      startDate: DateTime.fromISO(`${day}T00:00`, { zone: timeZone }).toMillis(),
+      startTime: '09:00',
+      endDate: 0,
+      endTime: '',
+      timeZone,
+    });
+
+    expect(dateAndTimeToText(toDate('2026-03-07'))).toBe('Mar 7 at 09:00, 2026, EST');
+    expect(dateAndTimeToText(toDate('2026-03-08'))).toBe('Mar 8 at 09:00, 2026, EDT');
+    expect(dateAndTimeToText(toDate('2026-11-01'))).toBe('Nov 1 at 09:00, 2026, EST');
+  });
+});
@@ -40,42 +40,18 @@ export const validateDateAndTime = (
 const validateStartDateAndTime = (requiredDateAndTime: DateAndTimeInfo): { valid: boolean; message: string } => {
   // Get the current DateTime
   const now = DateTime.now();
-  const nowDateOnly = now.startOf('day');
+  const { start, end } = getDateAndTimeWindow(requiredDateAndTime);
 
-  // Normalize the start and end dates to midnight for date comparisons
-  const requiredStartDate = DateTime.fromMillis(requiredDateAndTime.startDate).startOf('day');
-
-  // Check the date range first
-  if (nowDateOnly < requiredStartDate) {
+  if (now < start) {
     return { valid: false, message: `Ticket sales open ${dateAndTimeToText(requiredDateAndTime)}` };
   }
 
-  // If it's the start date, check the start time
-  if (nowDateOnly.equals(requiredStartDate) && requiredDateAndTime.startTime) {
-    const startTimeMinutes = getTimeAsMinutes(requiredDateAndTime.startTime);
-    const currentMinutes = now.hour * 60 + (now.minute as number);
-    if (currentMinutes < startTimeMinutes) {
-      return {
-        valid: false,
-        message: `Ticket sales open ${dateAndTimeToText(requiredDateAndTime)}`,
-      };
-    }
-  }
-
-  // If it's the start date, check the end time (only if it's a 1 day ticket)
-  if (
-    nowDateOnly.equals(requiredStartDate) &&
-    requiredDateAndTime.endTime &&
-    requiredDateAndTime.endDate === undefined
-  ) {
-    const endTimeMinutes = getTimeAsMinutes(requiredDateAndTime.endTime);
-    const currentMinutes = now.hour * 60 + (now.minute as number);
-    if (currentMinutes > endTimeMinutes) {
-      return {
-        valid: false,
-        message: `Ticket sales have closed`,
-      };
-    }
+  // Check the end time on the start date (only if it's a 1 day ticket)
+  if (requiredDateAndTime.endDate === undefined && requiredDateAndTime.endTime && now > end) {
+    return {
+      valid: false,
+      message: `Ticket sales have closed`,
+    };
   }
 
   return {
@@ -87,28 +63,58 @@ const validateStartDateAndTime = (requiredDateAndTime: DateAndTimeInfo): { valid
 const validateEndDateAndTime = (requiredDateAndTime: DateAndTimeInfo): { valid: boolean; message: string } => {
   // Get the current DateTime
   const now = DateTime.now();
-  const nowDateOnly = now.startOf('day');
 
-  // Normalize the start and end dates to midnight for date comparisons
-  const requiredEndDate = requiredDateAndTime.endDate
-    ? DateTime.fromMillis(requiredDateAndTime.endDate).endOf('day') // Use end of the day for end date
-    : null;
+  if (!requiredDateAndTime.endDate) {
+    return { valid: true, message: `` };
+  }
+
+  const { end } = getDateAndTimeWindow(requiredDateAndTime);
 
-  // Check the date range first
-  if (requiredEndDate && nowDateOnly > requiredEndDate) {
+  if (now > end) {
     return { valid: false, message: `Ticket sales have closed` };
   }
 
-  // If it's the end date, check the end time
-  if (requiredEndDate && nowDateOnly.equals(requiredEndDate.startOf('day')) && requiredDateAndTime.endTime) {
-    const endTimeMinutes = getTimeAsMinutes(requiredDateAndTime.endTime);
-    const currentMinutes = now.hour * 60 + (now.minute as number);
-    if (currentMinutes > endTimeMinutes) {
-      return { valid: false, message: `Ticket sales have closed` };
-    }
+  return { valid: true, message: `` };
+};
+
+export const getLocalTimeZone = () => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  return DateTime.now().setZone(timeZone).isValid;
+};
+
+export const toZonedDateTime = (value: number | string, timeZone: string | undefined) => {
+  /*
+    Form values hold the wall clock time the organizer picked, so we keep that wall clock
+    time and only swap the zone it's interpreted in.
+  */
+
+  const zone = timeZone ?? 'local';
+
+  if (typeof value === 'number') {
+    return DateTime.fromMillis(value).setZone(zone, { keepLocalTime: true });
   }
 
-  return { valid: true, message: `` };
+  return DateTime.fromISO(value, { zone });
+};
+
+export const getDateAndTimeWindow = (date: DateAndTimeInfo) => {
+  /*
+    NOTE: Dates are stored as epoch milliseconds while times are bare HH:mm strings. Both are
+    resolved in the event's time zone so every viewer sees the same window. Windows saved
+    before time zones were stored fall back to the device's zone.
+  */
+
+  const zone = date.timeZone ?? 'local';
+  const startDay = DateTime.fromMillis(date.startDate, { zone }).startOf('day');
+  const endDay = date.endDate ? DateTime.fromMillis(date.endDate, { zone }).startOf('day') : startDay;
+
+  return {
+    start: date.startTime ? setTimeOfDay(startDay, date.startTime) : startDay,
+    end: date.endTime ? setTimeOfDay(endDay, date.endTime) : endDay.endOf('day'),
+  };
 };
 
 export const dateAndTimeToText = (date: DateAndTimeInfo, placeholder = '') => {
@@ -117,14 +123,14 @@ export const dateAndTimeToText = (date: DateAndTimeInfo, placeholder = '') => {
   }
 
   let formattedDate = '';
-  let timeZone = '';
 
-  const start = new Date(date.startDate);
-  const startYear = start.getFullYear();
-  const startMonth = start.toLocaleDateString(undefined, { month: 'short' });
-  const startDay = start.toLocaleDateString(undefined, { day: 'numeric' });
-  // Extract the time zone from the start date and use it at the end
-  timeZone = start.toLocaleDateString(undefined, { timeZoneName: 'short' }).split(', ').pop() || '';
+  const zone = date.timeZone ?? 'local';
+  const start = DateTime.fromMillis(date.startDate, { zone });
+  const startYear = start.year;
+  const startMonth = start.toFormat('LLL');
+  const startDay = start.toFormat('d');
+  // Use the event's time zone so every viewer sees the same text. The offset can change during the day (DST).
+  const timeZone = getDateAndTimeWindow(date).start.offsetNameShort ?? '';
 
   formattedDate = `${startMonth} ${startDay}`;
   if (date.startTime) {
@@ -137,16 +143,16 @@ export const dateAndTimeToText = (date: DateAndTimeInfo, placeholder = '') => {
 
   // Only add end date information if it exists
   if (date.endDate) {
-    const end = new Date(date.endDate);
-    const endYear = end.getFullYear();
-    const endMonth = end.toLocaleDateString(undefined, { month: 'short' });
-    const endDay = end.toLocaleDateString(undefined, { day: 'numeric' });
+    const end = DateTime.fromMillis(date.endDate, { zone });
+    const endYear = end.year;
+    const endMonth = end.toFormat('LLL');
+    const endDay = end.toFormat('d');
 
     // Check if the year is the same for start and end date to decide if it should be repeated.
     const sameYear = startYear === endYear;
 
     // Check if start and end date are the same to avoid repeating the same date
-    if (date.startDate !== date.endDate) {
+    if (!start.hasSame(end, 'day')) {
       formattedDate += ` - ${endMonth} ${endDay}`;
       if (date.endTime) {
         formattedDate += ` at ${date.endTime}`;
@@ -162,10 +168,7 @@ export const dateAndTimeToText = (date: DateAndTimeInfo, placeholder = '') => {
   }
 
   // Append the year if only start date is available or if start and end are in the same year
-  if (
-    !date.endDate ||
-    start.getFullYear() === (date.endDate ? new Date(date.endDate).getFullYear() : start.getFullYear())
-  ) {
+  if (!date.endDate || startYear === DateTime.fromMillis(date.endDate, { zone }).year) {
     formattedDate += `, ${startYear}`;
   }
 
@@ -176,11 +179,17 @@ export const dateAndTimeToText = (date: DateAndTimeInfo, placeholder = '') => {
 };
 
 const getTimeAsMinutes = (timeString: string) => {
-  // Assuming the format is 'hh:mm', e.g., '14:00' would be 2pm
-  const time = DateTime.fromFormat(timeString, 'hh:mm');
+  // Assuming the format is 'HH:mm', e.g., '14:00' would be 2pm
+  const time = DateTime.fromFormat(timeString, 'HH:mm');
   return time.hour * 60 + (time.minute as number);
 };
 
+const setTimeOfDay = (day: DateTime, timeString: string) => {
+  const minutes = getTimeAsMinutes(timeString);
+  // Setting the hour and minute (instead of adding a duration) keeps the wall clock time across DST transitions
+  return day.set({ hour: Math.floor(minutes / 60), minute: minutes % 60 });
+};
+
 export const timeToMilliseconds = (time: string): number => {
   const dateTime = DateTime.fromFormat(time, 'HH:mm');
 
@@ -0,0 +1,146 @@
+import { neon } from '@neondatabase/serverless';
+
+import { DATABASE_URL, EVENTS_WORKER_BASE, EVENTS_WORKER_SECRET, HOSTNAME } from './config';
+import type { fetchTicketFromJsonRpc } from './rpc';
+import type { TicketTransferRecipient } from './transfer';
+
+/*
+  NOTE: This module is server only. It records which ticket keys were rotated by a
+  transfer so scanners can explain why an old key no longer exists on-chain.
+*/
+
+export type TicketTransferRecipientType = 'email' | 'account';
+
+export type TicketTransferEntry = {
+  eventId: string;
+  oldPublicKey: string;
+  newPublicKey: string;
+  recipientType: TicketTransferRecipientType;
+  transferredAt: number; // Milliseconds from Unix Epoch
+};
+
+export interface TransferLogStore {
+  recordTransfer: (entry: TicketTransferEntry) => Promise<TicketTransferEntry>;
+  findTransfer: (oldPublicKey: string) => Promise<TicketTransferEntry | null>;
+}
+
+export function createMemoryTransferLogStore(): TransferLogStore {
+  const transfers = new Map<string, TicketTransferEntry>();
+
+  return {
+    recordTransfer: async (entry) => {
+      transfers.set(entry.oldPublicKey, entry);
+      return entry;
+    },
+
+    findTransfer: async (oldPublicKey) => {
+      return transfers.get(oldPublicKey) ?? null;
+    },
+  };
+}
+
+type TransferRow = {
+  event_id: string;
+  old_public_key: string;
+  new_public_key: string;
+  recipient_type: TicketTransferRecipientType;
+  transferred_at: string;
+};
+
+function rowToTransfer(row: TransferRow): TicketTransferEntry {
+  return {
+    eventId: row.event_id,
+    oldPublicKey: row.old_public_key,
+    newPublicKey: row.new_public_key,
+    recipientType: row.recipient_type,
+    transferredAt: Number(row.transferred_at),
+  };
+}
+
+export function createNeonTransferLogStore(databaseUrl: string): TransferLogStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= sql`
+      create table if not exists ticket_transfers (
+        old_public_key text primary key,
+        event_id text not null,
+        new_public_key text not null,
+        recipient_type text not null,
+        transferred_at bigint not null
+      )
+    `;
+    return tablePromise;
+  };
+
+  return {
+    recordTransfer: async (entry) => {
+      await ensureTable();
+
+      const rows = (await sql`
+        insert into ticket_transfers (old_public_key, event_id, new_public_key, recipient_type, transferred_at)
+        values (${entry.oldPublicKey}, ${entry.eventId}, ${entry.newPublicKey}, ${entry.recipientType}, ${entry.transferredAt})
+        on conflict (old_public_key) do update set
+          new_public_key = excluded.new_public_key,
+          recipient_type = excluded.recipient_type,
+          transferred_at = excluded.transferred_at
+        returning *
+      `) as TransferRow[];
+
+      if (!rows[0]) throw new Error('Failed to record ticket transfer');
+
+      return rowToTransfer(rows[0]);
+    },
+
+    findTransfer: async (oldPublicKey) => {
+      await ensureTable();
+      const rows = (await sql`
+        select * from ticket_transfers where old_public_key = ${oldPublicKey}
+      `) as TransferRow[];
+      return rows[0] ? rowToTransfer(rows[0]) : null;
+    },
+  };
+}
+
+let store: TransferLogStore | null = null;
+
+export function getTransferLogStore() {
+  store ??= DATABASE_URL ? createNeonTransferLogStore(DATABASE_URL) : createMemoryTransferLogStore();
+  return store;
+}
+
+export async function sendTransferredTicket({
+  recipient,
+  ticket,
+  ticketKey,
+}: {
+  recipient: TicketTransferRecipient;
+  // Loaded by the new public key, so the email only describes the ticket that was transferred
+  ticket: NonNullable<Awaited<ReturnType<typeof fetchTicketFromJsonRpc>>>;
+  ticketKey: string;
+}) {
+  const response = await fetch(`${EVENTS_WORKER_BASE}/send-transferred-ticket`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${EVENTS_WORKER_SECRET}`,
+    },
+    body: JSON.stringify({
+      ...recipient,
+      ticketKey,
+      baseUrl: HOSTNAME,
+      ticket_info: {
+        location: ticket.event.location,
+        eventName: ticket.event.name,
+        ticketType: ticket.metadata.title,
+        eventDate: JSON.stringify(ticket.event.date),
+        eventId: ticket.event.id,
+        dropId: ticket.drop.drop_id,
+        funderId: ticket.drop.funder_id,
+      },
+    }),
+  });
+
+  if (!response.ok) throw new Error(`Ticket delivery failed with status: ${response.status}`);
+}
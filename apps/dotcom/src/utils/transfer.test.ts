@@ -0,0 +1,109 @@
+import { getPubFromSecret } from '@keypom/core';
+import { KeyPair } from 'near-api-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { fetchDetailsForPurchasedTicket } from '@/hooks/usePurchasedTickets';
+
+import type { FunderEventMetadata } from './helpers';
+import { createTransferMessage, verifyTicketKeySignature, withKeySignedAccount } from './keys';
+import { transferTicket } from './transfer';
+
+vi.mock('@/hooks/usePurchasedTickets', () => ({ fetchDetailsForPurchasedTicket: vi.fn() }));
+vi.mock('./keys', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./keys')>()),
+  withKeySignedAccount: vi.fn(),
+}));
+
+const EVENT: FunderEventMetadata = {
+  id: '1714000000000',
+  name: 'Meetup',
+  location: 'Brooklyn, NY',
+  date: { startDate: 1_700_000_000_000, startTime: '18:00', endDate: 1_700_000_000_000, endTime: '21:00' },
+  artwork: '',
+  dateCreated: '1714000000000',
+};
+
+describe('transferTicket', () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const secretKey = keyPair.toString();
+  const publicKey = keyPair.getPublicKey().toString();
+  const transfersFetch = vi.fn();
+  const functionCall = vi.fn();
+
+  const transfer = (usesRemaining = 2) => {
+    vi.mocked(fetchDetailsForPurchasedTicket).mockResolvedValue({
+      drop: { drop_id: `${EVENT.id}-ga`, funder_id: 'organizer.near' },
+      extra: { eventId: EVENT.id, dateCreated: EVENT.id },
+      publicKey,
+      secretKey,
+      title: 'General Admission',
+      usesRemaining,
+    } as Awaited<ReturnType<typeof fetchDetailsForPurchasedTicket>>);
+
+    return transferTicket({
+      event: EVENT,
+      keyStore: {} as Parameters<typeof transferTicket>[0]['keyStore'],
+      near: {} as Parameters<typeof transferTicket>[0]['near'],
+      recipient: { email: 'friend@example.com' },
+      secretKey,
+    });
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', transfersFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(withKeySignedAccount).mockImplementation(async (_options, callback) =>
+      callback({ functionCall } as unknown as Parameters<typeof callback>[0]),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('rotates the ticket key and signs the transfer with the old key', async () => {
+    transfersFetch.mockResolvedValue(Response.json({ delivered: true }));
+
+    const result = await transfer();
+
+    expect(result.delivered).toBe(true);
+    expect(getPubFromSecret(result.secretKey)).toBe(result.publicKey);
+    expect(functionCall.mock.calls[0]![0].args.new_public_key).toBe(result.publicKey);
+
+    const [url, init] = transfersFetch.mock.calls[0]!;
+    const body = JSON.parse(init.body);
+    expect(url).toBe('/api/transfers');
+    expect(body).toMatchObject({
+      eventId: EVENT.id,
+      oldPublicKey: publicKey,
+      newPublicKey: result.publicKey,
+      recipient: { email: 'friend@example.com' },
+      ticketKey: result.secretKey,
+    });
+    expect(
+      verifyTicketKeySignature(
+        publicKey,
+        createTransferMessage(EVENT.id, publicKey, result.publicKey, body.signedAt),
+        body.signature,
+      ),
+    ).toBe(true);
+  });
+
+  it('still returns the new key when it could not be delivered', async () => {
+    transfersFetch.mockResolvedValue(new Response('Unavailable', { status: 503 }));
+
+    const result = await transfer();
+
+    expect(result.delivered).toBe(false);
+    expect(getPubFromSecret(result.secretKey)).toBe(result.publicKey);
+  });
+
+  it('refuses tickets that have already been scanned', async () => {
+    await expect(transfer(1)).rejects.toThrow('already been scanned');
+
+    expect(functionCall).not.toHaveBeenCalled();
+    expect(transfersFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { KeyPair, Near } from 'near-api-js';
+import { BrowserLocalStorageKeyStore } from 'near-api-js/lib/key_stores';
+
+import { fetchDetailsForPurchasedTicket } from '@/hooks/usePurchasedTickets';
+
+import { hasBeenScanned } from './admissions';
+import { KEYPOM_EVENTS_CONTRACT_ID } from './config';
+import type { FunderEventMetadata } from './helpers';
+import { createTransferMessage, signWithTicketKey, withKeySignedAccount } from './keys';
+import type { TicketTransferEntry } from './transfer-log';
+
+export type TicketTransferRecipient = { email: string } | { accountId: string };
+
+type TransferTicketOptions = {
+  event: FunderEventMetadata;
+  keyStore: BrowserLocalStorageKeyStore;
+  near: Near;
+  recipient: TicketTransferRecipient;
+  secretKey: string;
+};
+
+export async function transferTicket({ event, keyStore, near, recipient, secretKey }: TransferTicketOptions) {
+  const details = await fetchDetailsForPurchasedTicket(secretKey);
+
+  if (hasBeenScanned(details.extra, details.usesRemaining)) {
+    throw new Error('Tickets that have already been scanned can not be transferred');
+  }
+
+  if (event.cancelled) {
+    throw new Error('Tickets for a cancelled event can not be transferred');
+  }
+
+  /*
+    Transferring rotates the ticket's access key to a freshly generated one, so the
+    old secret key (and any forwarded copy of the original email) stops working.
+  */
+
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const newSecretKey = keyPair.toString();
+  const newPublicKey = keyPair.getPublicKey().toString();
+
+  await withKeySignedAccount({ keyStore, near, secretKey }, (keypomAccount) =>
+    keypomAccount.functionCall({
+      contractId: KEYPOM_EVENTS_CONTRACT_ID,
+      methodName: 'nft_transfer',
+      args: {
+        // Keys delivered by email don't have an owner account yet
+        receiver_id: 'accountId' in recipient ? recipient.accountId : KEYPOM_EVENTS_CONTRACT_ID,
+        new_public_key: newPublicKey,
+      },
+      gas: BigInt('100000000000000'),
+    }),
+  );
+
+  /*
+    NOTE: The key has already been rotated at this point. If delivery fails, we still return
+    the new secret key so the sender can share the ticket with the recipient themselves.
+  */
+
+  const delivered = await recordTicketTransfer({
+    eventId: event.id,
+    oldPublicKey: details.publicKey,
+    newPublicKey,
+    recipient,
+    secretKey,
+    ticketKey: newSecretKey,
+  });
+
+  return {
+    delivered,
+    publicKey: newPublicKey,
+    secretKey: newSecretKey,
+  };
+}
+
+async function recordTicketTransfer({
+  eventId,
+  oldPublicKey,
+  newPublicKey,
+  recipient,
+  secretKey,
+  ticketKey,
+}: {
+  eventId: string;
+  oldPublicKey: string;
+  newPublicKey: string;
+  recipient: TicketTransferRecipient;
+  secretKey: string;
+  ticketKey: string;
+}) {
+  /*
+    The server logs the transfer for scanners and emails the new key to the recipient. The old
+    key still signs for the ticket it used to be, which proves the sender held it.
+  */
+
+  try {
+    const signedAt = Date.now();
+    const response = await fetch('/api/transfers', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        eventId,
+        oldPublicKey,
+        newPublicKey,
+        recipient,
+        ticketKey,
+        signedAt,
+        signature: signWithTicketKey(secretKey, createTransferMessage(eventId, oldPublicKey, newPublicKey, signedAt)),
+      }),
+    });
+
+    if (!response.ok) throw new Error(`Transfer request failed with status: ${response.status}`);
+
+    const data: { delivered: boolean } = await response.json();
+    return data.delivered;
+  } catch (error) {
+    console.error('Failed to record ticket transfer', error);
+  }
+
+  return false;
+}
+
+export async function findTicketTransfer(publicKey: string) {
+  try {
+    const response = await fetch(`/api/transfers?publicKey=${encodeURIComponent(publicKey)}`);
+
+    if (!response.ok) throw new Error(`Transfer log request failed with status: ${response.status}`);
+
+    const data: { transfer: TicketTransferEntry | null } = await response.json();
+    return data.transfer;
+  } catch (error) {
+    console.error('Failed to load ticket transfer', error);
+  }
+
+  return null;
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createMemoryWaitlistStore } from './waitlist-store';
+
+vi.mock('@/hooks/useDrops', () => ({}));
+
+const DROP = { funderId: 'organizer.near', eventId: '1714000000000', dropId: 'vip' };
+
+describe('createMemoryWaitlistStore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only lines up entries once their email address is verified', async () => {
+    const store = createMemoryWaitlistStore();
+    let clock = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => clock++);
+
+    const first = await store.join({ ...DROP, email: 'first@example.com' });
+    const second = await store.join({ ...DROP, email: 'second@example.com' });
+    expect(first.created).toBe(true);
+    await expect(store.join({ ...DROP, email: 'first@example.com' })).resolves.toMatchObject({ created: false });
+
+    await expect(store.listDropsWithWaiting()).resolves.toEqual([]);
+    await expect(store.issueOffers('vip', 2, Date.now() + 60_000)).resolves.toEqual([]);
+
+    // The line is ordered by verification, not by when the form was submitted
+    await expect(store.verify(second.entry.verifyToken!)).resolves.toMatchObject({ position: 1 });
+    await expect(store.verify(first.entry.verifyToken!)).resolves.toMatchObject({ position: 2 });
+    await expect(store.verify(second.entry.verifyToken!)).resolves.toMatchObject({ position: 1 });
+    await expect(store.verify('unknown')).resolves.toBeNull();
+
+    const offers = await store.issueOffers('vip', 1, Date.now() + 60_000);
+    expect(offers.map((entry) => entry.email)).toEqual(['second@example.com']);
+  });
+
+  it('rate limits verification emails and allows a retry after a failed send', async () => {
+    const store = createMemoryWaitlistStore();
+    const now = Date.now();
+    const { entry } = await store.join({ ...DROP, email: 'fan@example.com' });
+
+    await expect(store.claimVerificationEmail(entry.id, now)).resolves.toBe(true);
+    await expect(store.claimVerificationEmail(entry.id, now + 60_000)).resolves.toBe(false);
+
+    // Sending failed, so joining again sends it right away
+    await store.releaseVerificationEmail(entry.id);
+    await expect(store.claimVerificationEmail(entry.id, now + 60_000)).resolves.toBe(true);
+    await expect(store.claimVerificationEmail(entry.id, now + 5 * 60_000)).resolves.toBe(false);
+    await expect(store.claimVerificationEmail(entry.id, now + 7 * 60_000)).resolves.toBe(true);
+
+    await store.verify(entry.verifyToken!);
+    await expect(store.claimVerificationEmail(entry.id, now + 60 * 60_000)).resolves.toBe(false);
+  });
+
+  it('keeps claimed offers reserved until their checkout or the offer runs out', async () => {
+    const store = createMemoryWaitlistStore();
+    const now = Date.now();
+
+    const { entry } = await store.join({ ...DROP, email: 'fan@example.com' });
+    await store.verify(entry.verifyToken!);
+    const [offer] = await store.issueOffers('vip', 1, now + 60_000);
+
+    await store.claimOffer(offer!.offerToken!, 'checkout-1', now + 120_000);
+    await expect(store.claimOffer(offer!.offerToken!, 'checkout-2', now + 120_000)).resolves.toBeNull();
+
+    // Past the offer's own expiry, the checkout still holds the ticket
+    await expect(store.countReserved('vip', now + 90_000, now)).resolves.toBe(1);
+    await expect(store.expireOffers(now + 90_000)).resolves.toBe(0);
+
+    await expect(store.countReserved('vip', now + 150_000, now)).resolves.toBe(0);
+    await expect(store.expireOffers(now + 150_000)).resolves.toBe(1);
+    await expect(store.findOffer(offer!.offerToken!)).resolves.toMatchObject({ status: 'expired' });
+  });
+});
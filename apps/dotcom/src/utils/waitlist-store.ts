@@ -0,0 +1,580 @@
+import { neon } from '@neondatabase/serverless';
+import { v4 as uuidv4 } from 'uuid';
+
+import { DATABASE_URL, EVENTS_WORKER_BASE, EVENTS_WORKER_SECRET, HOSTNAME } from './config';
+import type { TicketMetadataExtra } from './helpers';
+import { type IndexedDrop, loadFunderSnapshot } from './indexer';
+import { getEventPagePath } from './seo';
+import { validateDateAndTime } from './time';
+
+/*
+  NOTE: This module is server only. It keeps a first come, first served waitlist per drop
+  and tracks the time-limited purchase offers sent when capacity frees up.
+*/
+
+const OFFER_TTL_MS = 24 * 60 * 60 * 1000;
+// Tickets paid for with an offer are minted by the events worker shortly after the payment is confirmed
+const PURCHASE_MINT_GRACE_MS = 10 * 60_000;
+// Joining again before verifying resends the email, but no more often than this
+const VERIFICATION_RESEND_MS = 5 * 60_000;
+
+/*
+  unverified -> waiting: The email address was confirmed from the link sent when joining
+  waiting -> offered: A spot freed up and was offered, see issueWaitlistOffers()
+  offered -> claimed: The buyer started a checkout, the ticket is held for them until it completes
+  claimed -> purchased: The checkout was paid for
+  claimed -> offered: The checkout expired while the offer is still valid
+  offered / claimed -> expired: The offer ran out before a checkout was paid for
+*/
+
+export type WaitlistStatus = 'unverified' | 'waiting' | 'offered' | 'claimed' | 'expired' | 'purchased';
+
+export type WaitlistEntry = {
+  id: string;
+  funderId: string;
+  eventId: string;
+  dropId: string;
+  email: string;
+  status: WaitlistStatus;
+  verifyToken?: string;
+  verificationSentAt?: number; // Milliseconds from Unix Epoch
+  offerToken?: string;
+  offerExpiresAt?: number; // Milliseconds from Unix Epoch
+  checkoutId?: string;
+  claimExpiresAt?: number; // Milliseconds from Unix Epoch
+  purchasedAt?: number; // Milliseconds from Unix Epoch
+  joinedAt: number; // Milliseconds from Unix Epoch
+};
+
+export type WaitlistDepth = Record<string, { waiting: number; offered: number; purchased: number }>;
+
+export type WaitlistDrop = Pick<WaitlistEntry, 'funderId' | 'eventId' | 'dropId'>;
+
+export interface WaitlistStore {
+  // New entries wait for their email address to be verified before they join the line
+  join: (
+    entry: Pick<WaitlistEntry, 'funderId' | 'eventId' | 'dropId' | 'email'>,
+  ) => Promise<{ entry: WaitlistEntry; created: boolean }>;
+  // False while the entry is verified or its last verification email was sent too recently
+  claimVerificationEmail: (entryId: string, now: number) => Promise<boolean>;
+  // Lets the email be sent again straight away, after sending it failed
+  releaseVerificationEmail: (entryId: string) => Promise<void>;
+  verify: (verifyToken: string) => Promise<{ entry: WaitlistEntry; position: number | null } | null>;
+  countByDrop: (eventId: string, now: number) => Promise<WaitlistDepth>;
+  listDropsWithWaiting: () => Promise<WaitlistDrop[]>;
+  // Tickets held for offers and their checkouts, plus purchases that may not be minted by soldAt yet
+  countReserved: (dropId: string, now: number, soldAt: number) => Promise<number>;
+  expireOffers: (now: number) => Promise<number>;
+  issueOffers: (dropId: string, count: number, expiresAt: number) => Promise<WaitlistEntry[]>;
+  findOffer: (offerToken: string) => Promise<WaitlistEntry | null>;
+  claimOffer: (offerToken: string, checkoutId: string, claimExpiresAt: number) => Promise<WaitlistEntry | null>;
+  completeClaim: (checkoutId: string) => Promise<WaitlistEntry | null>;
+  releaseClaim: (checkoutId: string) => Promise<WaitlistEntry | null>;
+}
+
+export function isActiveOffer(entry: WaitlistEntry, now: number) {
+  return entry.status === 'offered' && (entry.offerExpiresAt ?? 0) > now;
+}
+
+function isHeld(entry: WaitlistEntry, now: number) {
+  // A claimed ticket stays held until its checkout and the offer itself have both run out
+  return (
+    isActiveOffer(entry, now) ||
+    (entry.status === 'claimed' && Math.max(entry.claimExpiresAt ?? 0, entry.offerExpiresAt ?? 0) > now)
+  );
+}
+
+export function createMemoryWaitlistStore(): WaitlistStore {
+  const entries: WaitlistEntry[] = [];
+
+  const countPosition = (entry: WaitlistEntry) =>
+    entries.filter((e) => e.dropId === entry.dropId && e.status === 'waiting' && e.joinedAt <= entry.joinedAt).length;
+
+  return {
+    join: async ({ funderId, eventId, dropId, email }) => {
+      const existing = entries.find((e) => e.dropId === dropId && e.email === email);
+      if (existing) return { entry: existing, created: false };
+
+      const entry: WaitlistEntry = {
+        id: uuidv4(),
+        funderId,
+        eventId,
+        dropId,
+        email,
+        status: 'unverified',
+        verifyToken: uuidv4(),
+        joinedAt: Date.now(),
+      };
+      entries.push(entry);
+
+      return { entry, created: true };
+    },
+
+    claimVerificationEmail: async (entryId, now) => {
+      const entry = entries.find((e) => e.id === entryId && e.status === 'unverified');
+      if (!entry || (entry.verificationSentAt ?? 0) > now - VERIFICATION_RESEND_MS) return false;
+
+      entry.verificationSentAt = now;
+      return true;
+    },
+
+    releaseVerificationEmail: async (entryId) => {
+      const entry = entries.find((e) => e.id === entryId);
+      if (entry) entry.verificationSentAt = undefined;
+    },
+
+    verify: async (verifyToken) => {
+      const entry = entries.find((e) => e.verifyToken === verifyToken);
+      if (!entry) return null;
+
+      if (entry.status === 'unverified') {
+        // The line is ordered by when the email address was confirmed
+        entry.status = 'waiting';
+        entry.joinedAt = Date.now();
+      }
+
+      return { entry, position: entry.status === 'waiting' ? countPosition(entry) : null };
+    },
+
+    countByDrop: async (eventId, now) => {
+      const depth: WaitlistDepth = {};
+
+      entries
+        .filter((entry) => entry.eventId === eventId)
+        .forEach((entry) => {
+          depth[entry.dropId] ??= { waiting: 0, offered: 0, purchased: 0 };
+          if (entry.status === 'waiting') depth[entry.dropId]!.waiting++;
+          if (isHeld(entry, now)) depth[entry.dropId]!.offered++;
+          if (entry.status === 'purchased') depth[entry.dropId]!.purchased++;
+        });
+
+      return depth;
+    },
+
+    listDropsWithWaiting: async () => {
+      const drops = new Map<string, WaitlistDrop>();
+
+      entries
+        .filter((entry) => entry.status === 'waiting')
+        .forEach(({ funderId, eventId, dropId }) => drops.set(dropId, { funderId, eventId, dropId }));
+
+      return [...drops.values()];
+    },
+
+    countReserved: async (dropId, now, soldAt) => {
+      return entries.filter(
+        (entry) =>
+          entry.dropId === dropId &&
+          (isHeld(entry, now) ||
+            (entry.status === 'purchased' && (entry.purchasedAt ?? 0) > soldAt - PURCHASE_MINT_GRACE_MS)),
+      ).length;
+    },
+
+    expireOffers: async (now) => {
+      const expired = entries.filter(
+        (entry) => (entry.status === 'offered' || entry.status === 'claimed') && !isHeld(entry, now),
+      );
+      expired.forEach((entry) => (entry.status = 'expired'));
+      return expired.length;
+    },
+
+    issueOffers: async (dropId, count, expiresAt) => {
+      const next = entries
+        .filter((entry) => entry.dropId === dropId && entry.status === 'waiting')
+        .sort((a, b) => a.joinedAt - b.joinedAt)
+        .slice(0, count);
+
+      next.forEach((entry) => {
+        entry.status = 'offered';
+        entry.offerToken = uuidv4();
+        entry.offerExpiresAt = expiresAt;
+      });
+
+      return next;
+    },
+
+    findOffer: async (offerToken) => {
+      return entries.find((entry) => entry.offerToken === offerToken) ?? null;
+    },
+
+    claimOffer: async (offerToken, checkoutId, claimExpiresAt) => {
+      const entry = entries.find((e) => e.offerToken === offerToken && isActiveOffer(e, Date.now()));
+      if (!entry) return null;
+
+      entry.status = 'claimed';
+      entry.checkoutId = checkoutId;
+      entry.claimExpiresAt = claimExpiresAt;
+      return entry;
+    },
+
+    completeClaim: async (checkoutId) => {
+      const entry = entries.find((e) => e.checkoutId === checkoutId && e.status === 'claimed');
+      if (!entry) return null;
+
+      entry.status = 'purchased';
+      entry.purchasedAt = Date.now();
+      return entry;
+    },
+
+    releaseClaim: async (checkoutId) => {
+      const entry = entries.find((e) => e.checkoutId === checkoutId && e.status === 'claimed');
+      if (!entry) return null;
+
+      entry.status = (entry.offerExpiresAt ?? 0) > Date.now() ? 'offered' : 'expired';
+      entry.checkoutId = undefined;
+      entry.claimExpiresAt = undefined;
+      return entry;
+    },
+  };
+}
+
+type WaitlistRow = {
+  id: string;
+  funder_id: string;
+  event_id: string;
+  drop_id: string;
+  email: string;
+  status: WaitlistStatus;
+  verify_token: string | null;
+  verification_sent_at: string | null;
+  offer_token: string | null;
+  offer_expires_at: string | null;
+  checkout_id: string | null;
+  claim_expires_at: string | null;
+  purchased_at: string | null;
+  joined_at: string;
+};
+
+function rowToEntry(row: WaitlistRow): WaitlistEntry {
+  return {
+    id: row.id,
+    funderId: row.funder_id,
+    eventId: row.event_id,
+    dropId: row.drop_id,
+    email: row.email,
+    status: row.status,
+    verifyToken: row.verify_token ?? undefined,
+    verificationSentAt: row.verification_sent_at ? Number(row.verification_sent_at) : undefined,
+    offerToken: row.offer_token ?? undefined,
+    offerExpiresAt: row.offer_expires_at ? Number(row.offer_expires_at) : undefined,
+    checkoutId: row.checkout_id ?? undefined,
+    claimExpiresAt: row.claim_expires_at ? Number(row.claim_expires_at) : undefined,
+    purchasedAt: row.purchased_at ? Number(row.purchased_at) : undefined,
+    joinedAt: Number(row.joined_at),
+  };
+}
+
+export function createNeonWaitlistStore(databaseUrl: string): WaitlistStore {
+  const sql = neon(databaseUrl);
+  let tablePromise: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    tablePromise ??= sql`
+      create table if not exists waitlist_entries (
+        id text primary key,
+        funder_id text not null,
+        event_id text not null,
+        drop_id text not null,
+        email text not null,
+        status text not null,
+        verify_token text unique,
+        verification_sent_at bigint,
+        offer_token text unique,
+        offer_expires_at bigint,
+        checkout_id text,
+        claim_expires_at bigint,
+        purchased_at bigint,
+        joined_at bigint not null,
+        unique (drop_id, email)
+      )
+    `;
+    return tablePromise;
+  };
+
+  const countPosition = async (entry: WaitlistEntry) => {
+    const positions = (await sql`
+      select count(*) as position from waitlist_entries
+      where drop_id = ${entry.dropId} and status = 'waiting' and joined_at <= ${entry.joinedAt}
+    `) as { position: string }[];
+    return Number(positions[0]?.position ?? 0);
+  };
+
+  return {
+    join: async ({ funderId, eventId, dropId, email }) => {
+      await ensureTable();
+
+      const inserted = (await sql`
+        insert into waitlist_entries (id, funder_id, event_id, drop_id, email, status, verify_token, joined_at)
+        values (${uuidv4()}, ${funderId}, ${eventId}, ${dropId}, ${email}, 'unverified', ${uuidv4()}, ${Date.now()})
+        on conflict (drop_id, email) do nothing
+        returning *
+      `) as WaitlistRow[];
+      if (inserted[0]) return { entry: rowToEntry(inserted[0]), created: true };
+
+      const rows = (await sql`
+        select * from waitlist_entries where drop_id = ${dropId} and email = ${email}
+      `) as WaitlistRow[];
+      if (!rows[0]) throw new Error('Failed to join waitlist');
+
+      return { entry: rowToEntry(rows[0]), created: false };
+    },
+
+    claimVerificationEmail: async (entryId, now) => {
+      await ensureTable();
+      const rows = (await sql`
+        update waitlist_entries set verification_sent_at = ${now}
+        where id = ${entryId} and status = 'unverified'
+          and (verification_sent_at is null or verification_sent_at <= ${now - VERIFICATION_RESEND_MS})
+        returning id
+      `) as { id: string }[];
+      return rows.length > 0;
+    },
+
+    releaseVerificationEmail: async (entryId) => {
+      await ensureTable();
+      await sql`
+        update waitlist_entries set verification_sent_at = null where id = ${entryId}
+      `;
+    },
+
+    verify: async (verifyToken) => {
+      await ensureTable();
+
+      // The line is ordered by when the email address was confirmed
+      await sql`
+        update waitlist_entries set status = 'waiting', joined_at = ${Date.now()}
+        where verify_token = ${verifyToken} and status = 'unverified'
+      `;
+
+      const rows = (await sql`
+        select * from waitlist_entries where verify_token = ${verifyToken}
+      `) as WaitlistRow[];
+      if (!rows[0]) return null;
+
+      const entry = rowToEntry(rows[0]);
+      return { entry, position: entry.status === 'waiting' ? await countPosition(entry) : null };
+    },
+
+    countByDrop: async (eventId, now) => {
+      await ensureTable();
+      const rows = (await sql`
+        select drop_id,
+          count(*) filter (where status = 'waiting') as waiting,
+          count(*) filter (
+            where (status = 'offered' and offer_expires_at > ${now})
+              or (status = 'claimed' and greatest(claim_expires_at, offer_expires_at) > ${now})
+          ) as offered,
+          count(*) filter (where status = 'purchased') as purchased
+        from waitlist_entries where event_id = ${eventId}
+        group by drop_id
+      `) as { drop_id: string; waiting: string; offered: string; purchased: string }[];
+
+      const depth: WaitlistDepth = {};
+      rows.forEach((row) => {
+        depth[row.drop_id] = {
+          waiting: Number(row.waiting),
+          offered: Number(row.offered),
+          purchased: Number(row.purchased),
+        };
+      });
+      return depth;
+    },
+
+    listDropsWithWaiting: async () => {
+      await ensureTable();
+      const rows = (await sql`
+        select distinct funder_id, event_id, drop_id from waitlist_entries where status = 'waiting'
+      `) as { funder_id: string; event_id: string; drop_id: string }[];
+      return rows.map((row) => ({ funderId: row.funder_id, eventId: row.event_id, dropId: row.drop_id }));
+    },
+
+    countReserved: async (dropId, now, soldAt) => {
+      await ensureTable();
+      const rows = (await sql`
+        select count(*) as reserved from waitlist_entries
+        where drop_id = ${dropId} and (
+          (status = 'offered' and offer_expires_at > ${now})
+          or (status = 'claimed' and greatest(claim_expires_at, offer_expires_at) > ${now})
+          or (status = 'purchased' and purchased_at > ${soldAt - PURCHASE_MINT_GRACE_MS})
+        )
+      `) as { reserved: string }[];
+      return Number(rows[0]?.reserved ?? 0);
+    },
+
+    expireOffers: async (now) => {
+      await ensureTable();
+      const rows = await sql`
+        update waitlist_entries set status = 'expired'
+        where (status = 'offered' and offer_expires_at <= ${now})
+          or (status = 'claimed' and greatest(claim_expires_at, offer_expires_at) <= ${now})
+        returning id
+      `;
+      return rows.length;
+    },
+
+    issueOffers: async (dropId, count, expiresAt) => {
+      await ensureTable();
+
+      // Skipping locked rows keeps two overlapping runs from offering the same spot twice
+      const rows = (await sql`
+        update waitlist_entries set
+          status = 'offered',
+          offer_token = gen_random_uuid()::text,
+          offer_expires_at = ${expiresAt}
+        where id in (
+          select id from waitlist_entries
+          where drop_id = ${dropId} and status = 'waiting'
+          order by joined_at asc
+          limit ${count}
+          for update skip locked
+        )
+        returning *
+      `) as WaitlistRow[];
+
+      return rows.map(rowToEntry);
+    },
+
+    findOffer: async (offerToken) => {
+      await ensureTable();
+      const rows = (await sql`
+        select * from waitlist_entries where offer_token = ${offerToken}
+      `) as WaitlistRow[];
+      return rows[0] ? rowToEntry(rows[0]) : null;
+    },
+
+    claimOffer: async (offerToken, checkoutId, claimExpiresAt) => {
+      await ensureTable();
+      const rows = (await sql`
+        update waitlist_entries set status = 'claimed', checkout_id = ${checkoutId}, claim_expires_at = ${claimExpiresAt}
+        where offer_token = ${offerToken} and status = 'offered' and offer_expires_at > ${Date.now()}
+        returning *
+      `) as WaitlistRow[];
+      return rows[0] ? rowToEntry(rows[0]) : null;
+    },
+
+    completeClaim: async (checkoutId) => {
+      await ensureTable();
+      const rows = (await sql`
+        update waitlist_entries set status = 'purchased', purchased_at = ${Date.now()}
+        where checkout_id = ${checkoutId} and status = 'claimed'
+        returning *
+      `) as WaitlistRow[];
+      return rows[0] ? rowToEntry(rows[0]) : null;
+    },
+
+    releaseClaim: async (checkoutId) => {
+      await ensureTable();
+      const rows = (await sql`
+        update waitlist_entries set
+          status = case when offer_expires_at > ${Date.now()} then 'offered' else 'expired' end,
+          checkout_id = null,
+          claim_expires_at = null
+        where checkout_id = ${checkoutId} and status = 'claimed'
+        returning *
+      `) as WaitlistRow[];
+      return rows[0] ? rowToEntry(rows[0]) : null;
+    },
+  };
+}
+
+let store: WaitlistStore | null = null;
+
+export function getWaitlistStore() {
+  store ??= DATABASE_URL ? createNeonWaitlistStore(DATABASE_URL) : createMemoryWaitlistStore();
+  return store;
+}
+
+function parseTicketExtra(drop: IndexedDrop) {
+  const extra = drop.drop.drop_config.nft_keys_config.token_metadata.extra;
+  return extra ? (JSON.parse(extra) as TicketMetadataExtra) : undefined;
+}
+
+async function postWaitlistEmail(path: string, body: Record<string, unknown>) {
+  const response = await fetch(`${EVENTS_WORKER_BASE}/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${EVENTS_WORKER_SECRET}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) throw new Error(`Waitlist email failed with status: ${response.status}`);
+}
+
+function buildWaitlistTicketInfo(entry: WaitlistEntry, eventName: string, ticketType: string) {
+  return {
+    eventName,
+    ticketType,
+    eventId: entry.eventId,
+    dropId: entry.dropId,
+    funderId: entry.funderId,
+  };
+}
+
+export async function sendWaitlistVerification(entry: WaitlistEntry, eventName: string, ticketType: string) {
+  // Only the owner of the address can confirm it, so the waitlist can't be used to email strangers
+  await postWaitlistEmail('send-waitlist-verification', {
+    email: entry.email,
+    verifyUrl: `${HOSTNAME}${getEventPagePath(entry.funderId, entry.eventId)}?waitlistVerify=${entry.verifyToken}`,
+    ticket_info: buildWaitlistTicketInfo(entry, eventName, ticketType),
+  });
+}
+
+async function sendWaitlistOffer(entry: WaitlistEntry, eventName: string, ticketType: string) {
+  /*
+    NOTE: The offer is already reserved at this point. If the email can't be sent, the offer
+    simply expires and its spot is offered to the next person in line.
+  */
+
+  try {
+    await postWaitlistEmail('send-waitlist-offer', {
+      email: entry.email,
+      offerUrl: `${HOSTNAME}${getEventPagePath(entry.funderId, entry.eventId)}?waitlistOffer=${entry.offerToken}`,
+      offerExpiresAt: entry.offerExpiresAt,
+      ticket_info: buildWaitlistTicketInfo(entry, eventName, ticketType),
+    });
+  } catch (error) {
+    console.error(`Failed to send waitlist offer: ${entry.id}`, error);
+  }
+}
+
+export async function issueWaitlistOffers(store = getWaitlistStore()) {
+  /*
+    Capacity frees up when tickets are refunded, cancelled or a tier's supply is raised. Each
+    run compares the indexed supply of every tier with a waitlist against the outstanding
+    offers, and offers any free spots to the next people in line. Offers being paid for and
+    purchases the snapshot may not include yet still count against the supply.
+  */
+
+  const now = Date.now();
+  const expired = await store.expireOffers(now);
+  const waitlistDrops = await store.listDropsWithWaiting();
+  let offered = 0;
+
+  for (const { funderId, eventId, dropId } of waitlistDrops) {
+    try {
+      const snapshot = await loadFunderSnapshot(funderId);
+      const indexedEvent = snapshot.events.find(({ event }) => event.id === eventId);
+      const drop = snapshot.drops.find((indexed) => indexed.drop.drop_id === dropId);
+      const extra = drop ? parseTicketExtra(drop) : undefined;
+
+      if (!indexedEvent || indexedEvent.event.cancelled || !drop || !extra?.maxSupply) continue;
+      if (extra.salesValidThrough && !validateDateAndTime(extra.salesValidThrough).valid) continue;
+
+      const reserved = await store.countReserved(dropId, now, snapshot.indexedAt);
+      const available = extra.maxSupply - drop.sold - reserved;
+      if (available <= 0) continue;
+
+      const offers = await store.issueOffers(dropId, available, now + OFFER_TTL_MS);
+      const ticketType = drop.drop.drop_config.nft_keys_config.token_metadata.title || 'General Admission';
+
+      await Promise.all(offers.map((entry) => sendWaitlistOffer(entry, indexedEvent.event.name, ticketType)));
+      offered += offers.length;
+    } catch (error) {
+      console.error(`Failed to issue waitlist offers for drop: ${dropId}`, error);
+    }
+  }
+
+  return { expired, offered };
+}
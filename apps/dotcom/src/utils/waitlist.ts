@@ -0,0 +1,65 @@
+import type { WaitlistDepth, WaitlistEntry } from './waitlist-store';
+
+export type WaitlistOffer = Pick<WaitlistEntry, 'funderId' | 'eventId' | 'dropId'> & {
+  offerToken: string;
+  expiresAt: number; // Milliseconds from Unix Epoch
+};
+
+type JoinWaitlistRequest = {
+  funderId: string;
+  eventId: string;
+  dropId: string;
+  email: string;
+};
+
+async function requestWaitlist<T>(init: RequestInit, query = '') {
+  const response = await fetch(`/api/waitlist${query}`, init);
+  const data: T & { message?: string } = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || `Waitlist request failed with status: ${response.status}`);
+  }
+
+  return data;
+}
+
+export async function joinWaitlist(request: JoinWaitlistRequest) {
+  // The spot is only taken once the link sent to the email address is opened
+  await requestWaitlist<{ verificationSent: boolean }>({
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...request, email: request.email.trim() }),
+  });
+}
+
+export async function fetchWaitlistDepth(eventId: string) {
+  const data = await requestWaitlist<{ depth: WaitlistDepth }>(
+    { method: 'GET' },
+    `?eventId=${encodeURIComponent(eventId)}`,
+  );
+  return data.depth;
+}
+
+export async function validateWaitlistOffer(offerToken: string) {
+  const data = await requestWaitlist<{ offer: WaitlistOffer }>(
+    { method: 'GET' },
+    `?offerToken=${encodeURIComponent(offerToken)}`,
+  );
+  return data.offer;
+}
+
+export async function verifyWaitlistEntry(verifyToken: string) {
+  return await requestWaitlist<{ status: WaitlistEntry['status']; position: number | null }>({
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ verifyToken }),
+  });
+}
+
+export function isWaitlistOfferFor(offer: WaitlistOffer | null | undefined, dropId: string, now = Date.now()) {
+  return !!offer && offer.dropId === dropId && offer.expiresAt > now;
+}
@@ -0,0 +1,68 @@
+import { KeyPair } from 'near-api-js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { FunderEventMetadata } from './helpers';
+import { fetchTicketFromJsonRpc } from './rpc';
+import { loadEventDataForWallet, parseWalletPassSecretKeys, WalletPassTicketError } from './wallet-passes';
+
+vi.mock('./rpc', () => ({
+  fetchTicketFromJsonRpc: vi.fn(),
+}));
+
+const event = { id: 'event-1', name: 'On-chain name', location: 'Venue' } as FunderEventMetadata;
+
+function mockTicket(eventId = event.id) {
+  return {
+    publicKey: '',
+    drop: { funder_id: 'organizer.testnet' },
+    event: { ...event, id: eventId },
+    extra: { eventId, dateCreated: '' },
+    metadata: { title: 'VIP', description: 'Front row', artwork: 'ticket-cid' },
+    usesRemaining: 2,
+  } as unknown as Awaited<ReturnType<typeof fetchTicketFromJsonRpc>>;
+}
+
+describe('loadEventDataForWallet', () => {
+  beforeEach(() => {
+    vi.mocked(fetchTicketFromJsonRpc).mockReset();
+  });
+
+  it('builds pass data from the contract, looked up by the ticket public key', async () => {
+    const keyPair = KeyPair.fromRandom('ed25519');
+    vi.mocked(fetchTicketFromJsonRpc).mockResolvedValue(mockTicket());
+
+    const data = await loadEventDataForWallet([keyPair.toString()]);
+
+    expect(fetchTicketFromJsonRpc).toHaveBeenCalledWith(keyPair.getPublicKey().toString());
+    expect(data.event.name).toBe('On-chain name');
+    expect(data.tickets).toEqual([
+      expect.objectContaining({ title: 'VIP', description: 'Front row', secretKey: keyPair.toString() }),
+    ]);
+  });
+
+  it('rejects keys that are not tickets', async () => {
+    vi.mocked(fetchTicketFromJsonRpc).mockResolvedValue(null);
+
+    await expect(loadEventDataForWallet([KeyPair.fromRandom('ed25519').toString()])).rejects.toThrow(
+      WalletPassTicketError,
+    );
+    await expect(loadEventDataForWallet(['not-a-key'])).rejects.toThrow('Invalid ticket key');
+  });
+
+  it('rejects tickets for different events', async () => {
+    vi.mocked(fetchTicketFromJsonRpc).mockResolvedValueOnce(mockTicket()).mockResolvedValueOnce(mockTicket('event-2'));
+
+    await expect(
+      loadEventDataForWallet([KeyPair.fromRandom('ed25519').toString(), KeyPair.fromRandom('ed25519').toString()]),
+    ).rejects.toThrow('Tickets must all be for the same event');
+  });
+});
+
+describe('parseWalletPassSecretKeys', () => {
+  it('only accepts a short list of keys', () => {
+    expect(parseWalletPassSecretKeys({ secretKeys: ['a'] })).toEqual(['a']);
+    expect(parseWalletPassSecretKeys({ secretKeys: [] })).toBeNull();
+    expect(parseWalletPassSecretKeys({ secretKeys: Array(21).fill('a') })).toBeNull();
+    expect(parseWalletPassSecretKeys({ event: {}, tickets: [] })).toBeNull();
+  });
+});
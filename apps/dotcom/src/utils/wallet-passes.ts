@@ -0,0 +1,75 @@
+import { getPubFromSecret } from '@keypom/core';
+
+import { fetchTicketFromJsonRpc } from './rpc';
+import type { EventDataForWallet } from './wallet';
+
+/*
+  NOTE: This module is server only. Wallet passes are signed with our credentials, so the
+  ticket and event details on them are always loaded from the events contract.
+*/
+
+export const MAX_WALLET_PASS_TICKETS = 20;
+
+export class WalletPassTicketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalletPassTicketError';
+  }
+}
+
+export async function loadEventDataForWallet(secretKeys: string[]): Promise<EventDataForWallet> {
+  /*
+    The QR barcode on a pass has to be the ticket's secret key since that's what scanners claim
+    with, so it's only ever received in a request body and never logged or stored.
+  */
+
+  const tickets = await Promise.all(
+    secretKeys.map(async (secretKey) => {
+      let publicKey: string;
+
+      try {
+        publicKey = getPubFromSecret(secretKey);
+      } catch {
+        throw new WalletPassTicketError('Invalid ticket key');
+      }
+
+      const ticket = await fetchTicketFromJsonRpc(publicKey);
+      if (!ticket) throw new WalletPassTicketError(`Ticket not found: ${publicKey}`);
+
+      return { ...ticket, secretKey };
+    }),
+  );
+
+  const event = tickets[0]?.event;
+  if (!event) throw new WalletPassTicketError('No tickets were provided');
+
+  if (tickets.some((ticket) => ticket.event.id !== event.id || ticket.drop.funder_id !== tickets[0]!.drop.funder_id)) {
+    throw new WalletPassTicketError('Tickets must all be for the same event');
+  }
+
+  return {
+    event,
+    tickets: tickets.map(({ metadata, extra, secretKey }) => ({
+      artwork: metadata.artwork,
+      description: metadata.description,
+      extra,
+      secretKey,
+      title: metadata.title || 'General Admission',
+    })),
+  };
+}
+
+export function parseWalletPassSecretKeys(body: unknown) {
+  const { secretKeys } = (body ?? {}) as { secretKeys?: unknown };
+
+  if (
+    !Array.isArray(secretKeys) ||
+    secretKeys.length === 0 ||
+    secretKeys.length > MAX_WALLET_PASS_TICKETS ||
+    !secretKeys.every((secretKey) => typeof secretKey === 'string')
+  ) {
+    return null;
+  }
+
+  return secretKeys as string[];
+}
@@ -8,6 +8,7 @@ import { setupFastAuthWallet } from 'near-fastauth-wallet';
 import { usePurchasedTickets } from '@/hooks/usePurchasedTickets';
 
 import { NETWORK_ID } from './config';
+import { downloadFile } from './file';
 import type { FunderEventMetadata, TicketMetadataExtra } from './helpers';
 const modules = [
   setupMyNearWallet(),
@@ -58,3 +59,20 @@ export function stringifyEventDataForWallet(data: ReturnType<typeof usePurchased
 export function decodeEventDataForWallet(data: string) {
   return JSON.parse(atob(decodeURIComponent(data))) as EventDataForWallet;
 }
+
+export async function downloadAppleWalletPasses(secretKeys: string[]) {
+  const response = await fetch('/api/wallet/apple', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ secretKeys }),
+  });
+
+  if (!response.ok) throw new Error(`Apple Wallet request failed with status: ${response.status}`);
+
+  const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? 'ticket.pkpass';
+  const contentType = response.headers.get('Content-Type') ?? 'application/vnd.apple.pkpass';
+
+  downloadFile(await response.blob(), filename, contentType);
+}